@@ -3,82 +3,88 @@
  * with proper error handling using try...catch blocks
  */
 
-import { HttpClient } from './utils/httpClient';
 import { Logger } from './utils/logger';
-import { WeatherData, NewsData, AsyncMethod, DashboardData } from './types';
+import { Geocoder, DEFAULT_LOCATION } from './utils/geocoder';
+import { DashboardArgs } from './utils/dashboardArgs';
+import { Providers } from './utils/providers';
+import { DashboardDisplay } from './utils/dashboardDisplay';
+import { WeatherConditions } from './utils/weatherConditions';
+import { Units } from './utils/units';
+import { RunReport } from './utils/runReport';
+import { RetryPolicy } from './utils/retryPolicy';
+import { AbortError, ApiError, TimeoutError, ValidationError } from './utils/errors';
+import {
+  WeatherData,
+  NewsData,
+  AsyncMethod,
+  DashboardData,
+  DashboardOptions,
+  DashboardRunResult,
+  DashboardEvent,
+  LiveSource,
+  ProgressEvent,
+} from './types';
 
 class AsyncAwaitDashboard {
-  private static readonly WEATHER_API_URL =
-    'https://api.open-meteo.com/v1/forecast?latitude=52.52&longitude=13.41&current=temperature_2m,relative_humidity_2m,wind_speed_10m&timezone=auto';
-  private static readonly NEWS_API_URL = 'https://dummyjson.com/posts?limit=5';
-
   /**
    * Fetch weather data using async/await
    */
-  private static async fetchWeather(): Promise<WeatherData> {
+  public static async fetchWeather(options: DashboardOptions): Promise<WeatherData> {
     Logger.info('Fetching weather data...');
 
     try {
-      const data = await HttpClient.makeRequestPromise<any>(this.WEATHER_API_URL);
-
-      const weatherData: WeatherData = {
-        location: {
-          name: 'Berlin',
-          country: 'Germany',
-          lat: 52.52,
-          lon: 13.41,
-        },
-        current: {
-          temperature: data.current.temperature_2m,
-          humidity: data.current.relative_humidity_2m,
-          windSpeed: data.current.wind_speed_10m,
-          description: this.getWeatherDescription(data.current.temperature_2m),
-        },
-        timestamp: new Date().toISOString(),
-      };
-
-      Logger.success('Weather data transformed successfully');
+      const fetchOptions = { signal: options.signal };
+      const place = await Geocoder.resolvePromise(
+        options.location ?? DEFAULT_LOCATION,
+        fetchOptions
+      );
+      const weatherData = await Providers.fetchWeatherPromise(place, options);
+
+      Logger.success(`Weather data from ${weatherData.source} transformed successfully`);
       return weatherData;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown weather error';
-      Logger.error(`Weather fetch failed: ${errorMessage}`);
-      throw new Error(`Weather API Error: ${errorMessage}`);
+      Logger.error(`Weather fetch failed: ${ApiError.describe(error)}`);
+      throw error;
     }
   }
 
   /**
    * Fetch news data using async/await
    */
-  private static async fetchNews(): Promise<NewsData> {
+  public static async fetchNews(options: DashboardOptions): Promise<NewsData> {
     Logger.info('Fetching news data...');
 
     try {
-      const data = await HttpClient.makeRequestPromise<NewsData>(this.NEWS_API_URL);
+      const data = await Providers.fetchNewsPromise(options);
 
-      if (!data || !data.posts || data.posts.length === 0) {
-        throw new Error('Invalid news data structure');
+      if (data.posts.length === 0) {
+        throw new ValidationError(`${data.source ?? 'news'} posts`, [
+          { path: 'posts', message: 'expected at least one post' },
+        ]);
       }
 
-      Logger.success('News data fetched successfully');
+      Logger.success(`News data from ${data.source} fetched successfully`);
       return data;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown news error';
-      Logger.error(`News fetch failed: ${errorMessage}`);
-      throw new Error(`News API Error: ${errorMessage}`);
+      Logger.error(`News fetch failed: ${ApiError.describe(error)}`);
+      throw error;
     }
   }
 
   /**
    * Demonstrate sequential async/await operations
    */
-  private static async demonstrateSequentialAsync(): Promise<DashboardData> {
+  private static async demonstrateSequentialAsync(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<DashboardData> {
     Logger.section('Demonstrating Sequential Async/Await');
 
     const startTime = Date.now();
 
     try {
       // Sequential execution - each operation waits for the previous one
-      const weatherData = await this.fetchWeather();
+      const weatherData = await this.fetchWeather(options);
       Logger.success('Weather data received');
 
       // Simulate processing time
@@ -86,11 +92,11 @@ class AsyncAwaitDashboard {
       await this.delay(200);
       Logger.info('Weather processing complete, fetching news...');
 
-      const newsData = await this.fetchNews();
+      const newsData = await this.fetchNews(options);
       Logger.success('News data received');
 
       const totalTime = Date.now() - startTime;
-      Logger.timing('Sequential async/await execution time', totalTime);
+      report.timing('Sequential async/await execution time', totalTime);
 
       return {
         weather: weatherData,
@@ -103,26 +109,108 @@ class AsyncAwaitDashboard {
     }
   }
 
+  /**
+   * Fetch weather and news in parallel, failing with the first error
+   */
+  public static async fetchDashboard(options: DashboardOptions): Promise<DashboardData> {
+    // Parallel execution - both operations start simultaneously
+    const [weatherData, newsData] = await Promise.all([
+      this.fetchWeather(options),
+      this.fetchNews(options),
+    ]);
+
+    return {
+      weather: weatherData,
+      news: newsData,
+    };
+  }
+
+  /**
+   * Fetch weather and news concurrently, replacing a source that fails with
+   * fallback data and recording the fallback in the report
+   */
+  public static async fetchDashboardWithFallbacks(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<DashboardData> {
+    // Start both operations concurrently but handle them individually
+    const weatherPromise = this.fetchWeather(options).catch((error: unknown) => {
+      const message = this.fallbackReason(error);
+      Logger.warn(`Weather fetch failed, using fallback: ${message}`);
+      report.fallback('weather', message);
+      return this.getFallbackWeatherData(options);
+    });
+
+    const newsPromise = this.fetchNews(options).catch((error: unknown) => {
+      const message = this.fallbackReason(error);
+      Logger.warn(`News fetch failed, using fallback: ${message}`);
+      report.fallback('news', message);
+      return this.getFallbackNewsData();
+    });
+
+    const [weatherData, newsData] = await Promise.all([weatherPromise, newsPromise]);
+    return {
+      weather: weatherData,
+      news: newsData,
+    };
+  }
+
+  /**
+   * Fetch weather and news in parallel, giving up with a TimeoutError after
+   * timeoutMs. The requests still running then are aborted rather than left
+   * behind.
+   */
+  public static async fetchDashboardWithin(
+    options: DashboardOptions,
+    timeoutMs: number
+  ): Promise<DashboardData> {
+    // Aborting on timeout stops the losing requests instead of leaving them running
+    const controller = new AbortController();
+    const abortRequests = (): void => controller.abort();
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+    options.signal?.addEventListener('abort', abortRequests, { once: true });
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const dashboardPromise = this.fetchDashboard({ ...options, signal: controller.signal });
+
+      // Create timeout promise
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new TimeoutError(timeoutMs));
+        }, timeoutMs);
+      });
+
+      // Race between data fetching and timeout
+      return await Promise.race([dashboardPromise, timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abortRequests);
+    }
+  }
+
   /**
    * Demonstrate parallel async/await operations using Promise.all()
    */
-  private static async demonstrateParallelAsync(): Promise<DashboardData> {
+  private static async demonstrateParallelAsync(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<DashboardData> {
     Logger.section('Demonstrating Parallel Async/Await with Promise.all()');
 
     const startTime = Date.now();
 
     try {
-      // Parallel execution - both operations start simultaneously
-      const [weatherData, newsData] = await Promise.all([this.fetchWeather(), this.fetchNews()]);
+      const dashboardData = await this.fetchDashboard(options);
 
       const totalTime = Date.now() - startTime;
-      Logger.timing('Parallel async/await execution time', totalTime);
+      report.timing('Parallel async/await execution time', totalTime);
       Logger.success('All async operations completed in parallel!');
 
-      return {
-        weather: weatherData,
-        news: newsData,
-      };
+      return dashboardData;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       Logger.error(`Parallel async operation failed: ${errorMessage}`);
@@ -131,38 +219,28 @@ class AsyncAwaitDashboard {
   }
 
   /**
-   * Demonstrate concurrent async operations with individual error handling
+   * Demonstrate concurrent async/await operations with individual error handling
    */
-  private static async demonstrateConcurrentAsync(): Promise<DashboardData | null> {
+  private static async demonstrateConcurrentAsync(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<DashboardData | null> {
     Logger.section('Demonstrating Concurrent Async/Await with Individual Error Handling');
 
     const startTime = Date.now();
 
-    // Start both operations concurrently but handle them individually
-    const weatherPromise = this.fetchWeather().catch((error) => {
-      Logger.warn(`Weather fetch failed, using fallback: ${error.message}`);
-      return this.getFallbackWeatherData();
-    });
-
-    const newsPromise = this.fetchNews().catch((error) => {
-      Logger.warn(`News fetch failed, using fallback: ${error.message}`);
-      return this.getFallbackNewsData();
-    });
-
     try {
-      const [weatherData, newsData] = await Promise.all([weatherPromise, newsPromise]);
+      const dashboardData = await this.fetchDashboardWithFallbacks(options, report);
 
       const totalTime = Date.now() - startTime;
-      Logger.timing('Concurrent async/await with fallbacks execution time', totalTime);
+      report.timing('Concurrent async/await with fallbacks execution time', totalTime);
       Logger.success('Concurrent operations completed with fallback handling!');
 
-      return {
-        weather: weatherData,
-        news: newsData,
-      };
+      return dashboardData;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       Logger.error(`Concurrent async operation failed: ${errorMessage}`);
+      report.error(error);
       return null;
     }
   }
@@ -170,77 +248,76 @@ class AsyncAwaitDashboard {
   /**
    * Demonstrate async/await with timeout handling
    */
-  private static async demonstrateAsyncWithTimeout(): Promise<DashboardData | null> {
+  private static async demonstrateAsyncWithTimeout(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<DashboardData | null> {
     Logger.section('Demonstrating Async/Await with Timeout Handling');
 
     const startTime = Date.now();
     const timeoutMs = 5000; // 5 second timeout
 
     try {
-      const weatherPromise = this.fetchWeather();
-      const newsPromise = this.fetchNews();
-
-      // Create timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error(`Operation timed out after ${timeoutMs}ms`));
-        }, timeoutMs);
-      });
-
-      // Race between data fetching and timeout
-      const [weatherData, newsData] = await Promise.race([
-        Promise.all([weatherPromise, newsPromise]),
-        timeoutPromise,
-      ]);
+      const dashboardData = await this.fetchDashboardWithin(options, timeoutMs);
 
       const totalTime = Date.now() - startTime;
-      Logger.timing('Async/await with timeout execution time', totalTime);
+      report.timing('Async/await with timeout execution time', totalTime);
       Logger.success('Operations completed within timeout!');
 
-      return {
-        weather: weatherData,
-        news: newsData,
-      };
+      return dashboardData;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       Logger.error(`Timeout async operation failed: ${errorMessage}`);
+      report.error(error);
       return null;
     }
   }
 
   /**
-   * Demonstrate async generator for streaming data
+   * Stream typed progress and data events while fetching the requested sources.
+   * A failing source is reported as an error event and the stream continues.
    */
-  private static async *demonstrateAsyncGenerator(): AsyncGenerator<string, void, unknown> {
-    Logger.section('Demonstrating Async Generator for Streaming Updates');
-
-    yield 'Starting data fetch operations...';
+  public static async *streamUpdates(
+    options: DashboardOptions,
+    sources: LiveSource[] = ['weather', 'news']
+  ): AsyncGenerator<DashboardEvent, void, unknown> {
+    yield this.progress('Starting data fetch operations...');
 
-    try {
-      yield 'Initiating weather API request...';
-      const weatherData = await this.fetchWeather();
-      yield `Weather data received: ${weatherData.current.temperature}°C in ${weatherData.location.name}`;
-
-      yield 'Initiating news API request...';
-      const newsData = await this.fetchNews();
-      yield `News data received: ${newsData.posts.length} articles fetched`;
+    let failures = 0;
+    for (const source of sources) {
+      yield this.progress(`Initiating ${source} API request...`, source);
 
-      yield 'All operations completed successfully!';
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      yield `Error occurred: ${errorMessage}`;
+      try {
+        if (source === 'weather') {
+          const weatherData = await this.fetchWeather(options);
+          yield { type: 'weather', data: weatherData, timestamp: new Date().toISOString() };
+        } else {
+          const newsData = await this.fetchNews(options);
+          yield { type: 'news', data: newsData, timestamp: new Date().toISOString() };
+        }
+      } catch (error) {
+        failures++;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        yield { type: 'error', source, error: errorMessage, timestamp: new Date().toISOString() };
+      }
     }
+
+    yield this.progress(
+      failures === 0
+        ? 'All operations completed successfully!'
+        : `Completed with ${failures} failed operation(s)`
+    );
   }
 
   /**
    * Process async generator stream
    */
-  private static async processAsyncGenerator(): Promise<void> {
-    try {
-      const generator = this.demonstrateAsyncGenerator();
+  private static async processAsyncGenerator(options: DashboardOptions): Promise<void> {
+    Logger.section('Demonstrating Async Generator for Streaming Updates');
 
-      for await (const update of generator) {
-        Logger.info(`Stream Update: ${update}`);
+    try {
+      for await (const event of this.streamUpdates(options)) {
+        Logger.info(`Stream Update: ${this.describeEvent(event)}`);
         await this.delay(300); // Simulate processing time between updates
       }
     } catch (error) {
@@ -250,65 +327,67 @@ class AsyncAwaitDashboard {
   }
 
   /**
-   * Demonstrate retry mechanism with async/await
+   * One line summary of a stream event for log output
    */
-  private static async fetchWithRetry<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3,
-    retryDelay: number = 1000
-  ): Promise<T> {
-    let lastError: Error;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        Logger.info(`Attempt ${attempt}/${maxRetries}`);
-        const result = await operation();
-
-        if (attempt > 1) {
-          Logger.success(`Operation succeeded on attempt ${attempt}`);
-        }
-
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error('Unknown error');
-
-        if (attempt === maxRetries) {
-          Logger.error(`All ${maxRetries} attempts failed`);
-          throw lastError;
-        }
-
-        Logger.warn(
-          `Attempt ${attempt} failed: ${lastError.message}, retrying in ${retryDelay}ms...`
-        );
-        await this.delay(retryDelay);
+  public static describeEvent(event: DashboardEvent): string {
+    switch (event.type) {
+      case 'progress':
+        return event.message;
+      case 'weather': {
+        const { current, units, location } = event.data;
+        return `Weather data received: ${Units.formatTemperature(current.temperature, units)}, ${current.description} in ${location.name}`;
       }
+      case 'news':
+        return `News data received: ${event.data.posts.length} articles fetched`;
+      case 'error':
+        return `Error occurred: ${event.error}`;
+      case 'subscribed':
+      case 'unsubscribed':
+        return `${event.type} ${event.topic}`;
     }
+  }
 
-    throw lastError!;
+  private static progress(message: string, source?: LiveSource): ProgressEvent {
+    return {
+      type: 'progress',
+      ...(source ? { source } : {}),
+      message,
+      timestamp: new Date().toISOString(),
+    };
   }
 
   /**
-   * Display dashboard data
+   * Demonstrate retry mechanism with async/await, using the same retry
+   * policy type as HttpClient
    */
-  private static displayDashboard(dashboardData: DashboardData): void {
-    Logger.section('Dashboard Data');
-
-    Logger.data('Weather', {
-      location: `${dashboardData.weather.location.name}, ${dashboardData.weather.location.country}`,
-      temperature: `${dashboardData.weather.current.temperature}°C`,
-      humidity: `${dashboardData.weather.current.humidity}%`,
-      windSpeed: `${dashboardData.weather.current.windSpeed} km/h`,
-      description: dashboardData.weather.current.description,
-    });
+  private static async fetchWithRetry<T>(
+    operation: () => Promise<T>,
+    policy: RetryPolicy = new RetryPolicy({ retries: 2 }),
+    signal?: AbortSignal
+  ): Promise<T> {
+    const maxAttempts = policy.retries + 1;
 
-    Logger.data(
-      'Latest News Headlines',
-      dashboardData.news.posts.slice(0, 3).map((post) => ({
-        title: post.title.substring(0, 60) + '...',
-        likes: post.reactions.likes,
-        views: post.views,
-      }))
-    );
+    try {
+      return await policy.execute(
+        async (attempt) => {
+          Logger.info(`Attempt ${attempt}/${maxAttempts}`);
+          const result = await operation();
+
+          if (attempt > 1) {
+            Logger.success(`Operation succeeded on attempt ${attempt}`);
+          }
+
+          return result;
+        },
+        (error, attempt, delay) => {
+          Logger.warn(`Attempt ${attempt} failed: ${error.message}, retrying in ${delay}ms...`);
+        },
+        signal
+      );
+    } catch (error) {
+      Logger.error('Giving up, the error is not retryable or all attempts failed');
+      throw error;
+    }
   }
 
   /**
@@ -318,30 +397,49 @@ class AsyncAwaitDashboard {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
-  private static getWeatherDescription(temperature: number): string {
-    if (temperature < 0) return 'Very Cold ';
-    if (temperature < 10) return 'Cold ';
-    if (temperature < 20) return 'Cool ';
-    if (temperature < 30) return 'Warm ';
-    return 'Hot ';
+  /**
+   * Why a source falls back; a cancelled fetch is not replaced but rethrown
+   */
+  private static fallbackReason(error: unknown): string {
+    if (error instanceof AbortError) {
+      throw error;
+    }
+    return error instanceof Error ? error.message : 'Unknown error';
   }
 
-  private static getFallbackWeatherData(): WeatherData {
-    return {
-      location: {
-        name: 'Berlin',
-        country: 'Germany',
-        lat: 52.52,
-        lon: 13.41,
-      },
+  /**
+   * Placeholder weather for the requested location. A city that was never
+   * resolved keeps its name, with unknown (NaN) coordinates.
+   */
+  private static getFallbackWeatherData(options: DashboardOptions): WeatherData {
+    const query = options.location ?? DEFAULT_LOCATION;
+    const location = Geocoder.lookup(query) ?? {
+      name: 'city' in query ? query.city : '',
+      country: query.country ?? '',
+      lat: NaN,
+      lon: NaN,
+    };
+
+    // Fallback values are stored in metric and converted to whatever was requested
+    const fallback: WeatherData = {
+      location,
       current: {
         temperature: 15,
+        apparentTemperature: 15,
         humidity: 65,
         windSpeed: 10,
+        precipitation: 0,
+        cloudCover: 0,
+        isDay: true,
+        condition: WeatherConditions.describe(null),
         description: 'Fallback Data ',
       },
+      units: Units.METRIC,
       timestamp: new Date().toISOString(),
+      source: 'fallback',
     };
+
+    return Units.convertWeather(fallback, Units.resolve(options.units));
   }
 
   private static getFallbackNewsData(): NewsData {
@@ -366,61 +464,79 @@ class AsyncAwaitDashboard {
   /**
    * Main execution method
    */
-  public static async run(): Promise<void> {
+  public static async run(options: DashboardOptions = {}): Promise<DashboardRunResult> {
     Logger.header(AsyncMethod.ASYNC_AWAIT);
     Logger.info('Starting Async/Await weather and news dashboard...');
 
+    const report = new RunReport(AsyncMethod.ASYNC_AWAIT);
+
     try {
       // Demonstrate sequential async/await
-      const sequentialData = await this.demonstrateSequentialAsync();
-      this.displayDashboard(sequentialData);
+      const sequentialData = await this.demonstrateSequentialAsync(options, report);
+      DashboardDisplay.show(sequentialData);
+      report.setData(sequentialData);
 
       Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
 
       // Demonstrate parallel async/await
-      const parallelData = await this.demonstrateParallelAsync();
-      this.displayDashboard(parallelData);
+      const parallelData = await this.demonstrateParallelAsync(options, report);
+      DashboardDisplay.show(parallelData);
+      report.setData(parallelData);
 
       Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
 
       // Demonstrate concurrent async/await with error handling
-      const concurrentData = await this.demonstrateConcurrentAsync();
+      const concurrentData = await this.demonstrateConcurrentAsync(options, report);
       if (concurrentData) {
-        this.displayDashboard(concurrentData);
+        DashboardDisplay.show(concurrentData);
+        report.setData(concurrentData);
       }
 
       Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
 
       // Demonstrate async/await with timeout
-      const timeoutData = await this.demonstrateAsyncWithTimeout();
+      const timeoutData = await this.demonstrateAsyncWithTimeout(options, report);
       if (timeoutData) {
-        this.displayDashboard(timeoutData);
+        DashboardDisplay.show(timeoutData);
+        report.setData(timeoutData);
       }
 
       Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
 
       // Demonstrate async generator
-      await this.processAsyncGenerator();
+      await this.processAsyncGenerator(options);
 
       Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
 
       // Demonstrate retry mechanism
       Logger.section('Demonstrating Retry Mechanism');
       try {
-        const retryData = await this.fetchWithRetry(() => this.fetchNews(), 2, 500);
+        const retryData = await this.fetchWithRetry(
+          () => this.fetchNews(options),
+          new RetryPolicy({ retries: 1, baseDelay: 500, jitter: 'decorrelated' }),
+          options.signal
+        );
         Logger.success('Retry mechanism completed successfully');
         Logger.data('Retry Result', `Fetched ${retryData.posts.length} news articles`);
       } catch (error) {
-        Logger.error(
-          `Retry mechanism failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        Logger.error(`Retry mechanism failed: ${errorMessage}`);
+        report.error(error);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       Logger.error(`Async/await dashboard failed: ${errorMessage}`);
+      report.error(error);
     } finally {
       Logger.footer(AsyncMethod.ASYNC_AWAIT);
     }
+
+    return report.finish();
   }
 }
 
@@ -429,8 +545,14 @@ export default AsyncAwaitDashboard;
 
 // Execute if this file is run directly
 if (require.main === module) {
-  AsyncAwaitDashboard.run().catch((error) => {
-    Logger.error(`Unhandled async error: ${error.message}`);
-    process.exit(1);
-  });
+  AsyncAwaitDashboard.run(DashboardArgs.parseOrExit(process.argv.slice(2)))
+    .then((result) => {
+      if (!result.success) {
+        process.exitCode = 1;
+      }
+    })
+    .catch((error) => {
+      Logger.error(`Unhandled async error: ${error.message}`);
+      process.exit(1);
+    });
 }
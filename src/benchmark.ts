@@ -0,0 +1,106 @@
+/**
+ * Performance comparison between the asynchronous implementations
+ */
+
+import { Logger } from './utils/logger';
+import { RunReport } from './utils/runReport';
+import { ResponseCache } from './utils/responseCache';
+import { ConnectionPool } from './utils/connectionPool';
+import { Dashboards } from './dashboards';
+import { AsyncMethod, DashboardOptions, DashboardRunResult } from './types';
+
+export class Benchmark {
+  private static readonly PAUSE_BETWEEN_RUNS = 1000;
+
+  /**
+   * Run each method in turn and collect its run result
+   */
+  public static async run(
+    methods: AsyncMethod[] = Dashboards.ALL_METHODS,
+    options: DashboardOptions = {}
+  ): Promise<DashboardRunResult[]> {
+    const results: DashboardRunResult[] = [];
+
+    // Every method starts from a cold in-memory cache and without pooled
+    // sockets, otherwise the first one would warm them for the rest. The
+    // disk store is left untouched.
+    const cacheOptions = ResponseCache.options();
+    ResponseCache.configure({ directory: null });
+
+    try {
+      for (const [index, method] of methods.entries()) {
+        if (index > 0) {
+          await this.delay(this.PAUSE_BETWEEN_RUNS);
+        }
+        if (options.signal?.aborted) {
+          break;
+        }
+
+        ResponseCache.clear();
+        ConnectionPool.reset();
+        results.push(await this.runMethod(method, options));
+      }
+    } finally {
+      ResponseCache.configure(cacheOptions);
+      ResponseCache.clear();
+    }
+
+    return results;
+  }
+
+  private static async runMethod(
+    method: AsyncMethod,
+    options: DashboardOptions
+  ): Promise<DashboardRunResult> {
+    Logger.section(`Testing ${method} Performance`);
+    try {
+      const result = await Dashboards.run(method, options);
+      Logger.timing(`${method} method total time`, result.duration, result.cache);
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Logger.error(`${method} performance test failed: ${errorMessage}`);
+      const report = new RunReport(method);
+      report.error(error);
+      return report.finish();
+    }
+  }
+
+  /**
+   * Log fastest/slowest and per-method timings with socket reuse
+   */
+  public static report(results: DashboardRunResult[]): void {
+    Logger.section('Performance Comparison Results');
+
+    const completed = results.filter((result) => result.success);
+    if (completed.length > 1) {
+      const fastest = completed.reduce((prev, current) =>
+        prev.duration < current.duration ? prev : current
+      );
+      const slowest = completed.reduce((prev, current) =>
+        prev.duration > current.duration ? prev : current
+      );
+
+      Logger.success(`Fastest: ${fastest.method} (${fastest.duration}ms)`);
+      Logger.info(`Slowest: ${slowest.method} (${slowest.duration}ms)`);
+
+      const difference = slowest.duration - fastest.duration;
+      const percentage = ((difference / slowest.duration) * 100).toFixed(1);
+      Logger.data('Performance Difference', `${difference}ms (${percentage}% faster)`);
+    }
+
+    results.forEach((result) => {
+      const { created, reused } = result.connections;
+      Logger.data(
+        result.method,
+        result.success
+          ? `${result.duration}ms (sockets: ${created} opened, ${reused} reused)`
+          : 'failed'
+      );
+    });
+  }
+
+  private static delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -3,80 +3,77 @@
  * and nested asynchronous operations
  */
 
-import { HttpClient } from './utils/httpClient';
 import { Logger } from './utils/logger';
-import { WeatherData, NewsData, CallbackFunction, AsyncMethod } from './types';
+import { Geocoder, DEFAULT_LOCATION } from './utils/geocoder';
+import { DashboardArgs } from './utils/dashboardArgs';
+import { Providers } from './utils/providers';
+import { DashboardDisplay } from './utils/dashboardDisplay';
+import { RunReport } from './utils/runReport';
+import { ApiError } from './utils/errors';
+import {
+  WeatherData,
+  NewsData,
+  CallbackFunction,
+  AsyncMethod,
+  DashboardData,
+  DashboardOptions,
+  DashboardRunResult,
+} from './types';
 
 class CallbackDashboard {
-  private static readonly WEATHER_API_URL =
-    'https://api.open-meteo.com/v1/forecast?latitude=52.52&longitude=13.41&current=temperature_2m,relative_humidity_2m,wind_speed_10m&timezone=auto';
-  private static readonly NEWS_API_URL = 'https://dummyjson.com/posts?limit=5';
-
   /**
    * Fetch weather data using callbacks
    */
-  private static fetchWeather(callback: CallbackFunction<WeatherData>): void {
+  public static fetchWeather(
+    options: DashboardOptions,
+    callback: CallbackFunction<WeatherData>
+  ): void {
     Logger.info('Fetching weather data...');
 
-    HttpClient.makeRequest<any>(this.WEATHER_API_URL, (error, data) => {
-      if (error) {
-        Logger.error(`Weather API failed: ${error.message}`);
-        callback(error);
-        return;
-      }
+    const fetchOptions = { signal: options.signal };
 
-      try {
-        // Transform raw API data to our WeatherData format
-        const weatherData: WeatherData = {
-          location: {
-            name: 'Berlin',
-            country: 'Germany',
-            lat: 52.52,
-            lon: 13.41,
-          },
-          current: {
-            temperature: data.current.temperature_2m,
-            humidity: data.current.relative_humidity_2m,
-            windSpeed: data.current.wind_speed_10m,
-            description: this.getWeatherDescription(data.current.temperature_2m),
-          },
-          timestamp: new Date().toISOString(),
-        };
-
-        Logger.success('Weather data fetched successfully');
-        callback(null, weatherData);
-      } catch (transformError) {
-        const error =
-          transformError instanceof Error
-            ? transformError
-            : new Error('Weather data transformation failed');
-        Logger.error(`Weather data transformation failed: ${error.message}`);
-        callback(error);
-      }
-    });
+    Geocoder.resolve(
+      options.location ?? DEFAULT_LOCATION,
+      (geoError, place) => {
+        if (geoError || !place) {
+          const error = geoError ?? new Error('Location could not be resolved');
+          Logger.error(`Geocoding failed: ${error.message}`);
+          callback(error);
+          return;
+        }
+
+        // The provider checks and transforms the raw API data to our WeatherData format
+        Providers.fetchWeather(place, options, (error, weatherData) => {
+          if (error || !weatherData) {
+            const failure = error ?? new Error('No weather data received');
+            Logger.error(`Weather API failed: ${ApiError.describe(failure)}`);
+            callback(failure);
+            return;
+          }
+
+          Logger.success(`Weather data from ${weatherData.source} fetched successfully`);
+          callback(null, weatherData);
+        });
+      },
+      fetchOptions
+    );
   }
 
   /**
    * Fetch news data using callbacks
    */
-  private static fetchNews(callback: CallbackFunction<NewsData>): void {
+  public static fetchNews(options: DashboardOptions, callback: CallbackFunction<NewsData>): void {
     Logger.info('Fetching news data...');
 
-    HttpClient.makeRequest<NewsData>(this.NEWS_API_URL, (error, data) => {
-      if (error) {
-        Logger.error(`News API failed: ${error.message}`);
-        callback(error);
-        return;
-      }
-
-      if (!data || !data.posts) {
-        const error = new Error('Invalid news data structure');
-        Logger.error('Invalid news data structure received');
-        callback(error);
+    Providers.fetchNews(options, (error, data) => {
+      if (error || !data) {
+        const failure = error ?? new Error('No news data received');
+        Logger.error(`News API failed: ${ApiError.describe(failure)}`);
+        callback(failure);
         return;
       }
 
-      Logger.success('News data fetched successfully');
+      Logger.success(`News data from ${data.source} fetched successfully`);
       callback(null, data);
     });
   }
@@ -84,15 +81,21 @@ class CallbackDashboard {
   /**
    * Demonstrate callback hell by chaining dependent operations
    */
-  private static demonstrateCallbackHell(): void {
+  private static demonstrateCallbackHell(
+    options: DashboardOptions,
+    report: RunReport,
+    done: (error: Error | null) => void
+  ): void {
     Logger.section('Demonstrating Callback Hell (Sequential Operations)');
 
     const startTime = Date.now();
 
     // Level 1: Fetch weather
-    this.fetchWeather((weatherError, weatherData) => {
-      if (weatherError) {
-        Logger.error(`Weather fetch failed: ${weatherError.message}`);
+    this.fetchWeather(options, (weatherError, weather) => {
+      if (weatherError || !weather) {
+        const failure = weatherError ?? new Error('No weather data received');
+        Logger.error(`Weather fetch failed: ${failure.message}`);
+        done(failure);
         return;
       }
 
@@ -103,13 +106,16 @@ class CallbackDashboard {
         Logger.info('Processing weather data...');
 
         // Level 3: Fetch news after processing weather
-        this.fetchNews((newsError, newsData) => {
-          if (newsError) {
-            Logger.error(`News fetch failed: ${newsError.message}`);
+        this.fetchNews(options, (newsError, news) => {
+          if (newsError || !news) {
+            const failure = newsError ?? new Error('No news data received');
+            Logger.error(`News fetch failed: ${failure.message}`);
+            done(failure);
             return;
           }
 
           Logger.success('News data received');
+          const dashboardData: DashboardData = { weather, news };
 
           // Level 4: Process both data sets
           setTimeout(() => {
@@ -118,12 +124,13 @@ class CallbackDashboard {
             // Level 5: Final processing and display
             setTimeout(() => {
               const totalTime = Date.now() - startTime;
-              Logger.timing('Total callback hell execution time', totalTime);
+              report.timing('Total callback hell execution time', totalTime);
 
-              this.displayDashboard(weatherData!, newsData!);
+              DashboardDisplay.show(dashboardData);
+              report.setData(dashboardData);
 
               // Demonstrate parallel callbacks
-              this.demonstrateParallelCallbacks();
+              this.demonstrateParallelCallbacks(options, report, done);
             }, 500);
           }, 300);
         });
@@ -132,105 +139,113 @@ class CallbackDashboard {
   }
 
   /**
-   * Demonstrate parallel callback execution
+   * Fetch weather and news in parallel with callbacks, answering once both
+   * have arrived or with the first failure
    */
-  private static demonstrateParallelCallbacks(): void {
-    Logger.section('Demonstrating Parallel Callbacks');
-
+  public static fetchDashboard(
+    options: DashboardOptions,
+    callback: CallbackFunction<DashboardData>
+  ): void {
     let weatherResult: WeatherData | null = null;
     let newsResult: NewsData | null = null;
     let completedRequests = 0;
     let hasError = false;
 
-    const startTime = Date.now();
-
     const checkCompletion = () => {
       completedRequests++;
-      if (completedRequests === 2 && !hasError) {
-        const totalTime = Date.now() - startTime;
-        Logger.timing('Parallel callbacks execution time', totalTime);
-        Logger.success('Both requests completed in parallel!');
+      if (completedRequests === 2 && !hasError && weatherResult && newsResult) {
+        callback(null, { weather: weatherResult, news: newsResult });
+      }
+    };
 
-        if (weatherResult && newsResult) {
-          this.displayDashboard(weatherResult, newsResult);
-        }
+    const fail = (error: Error) => {
+      // Only report the first failure, the other request may still fail later
+      if (!hasError) {
+        hasError = true;
+        callback(error);
       }
     };
 
     // Start both requests simultaneously
-    this.fetchWeather((error, data) => {
-      if (error) {
-        hasError = true;
-        Logger.error(`Parallel weather fetch failed: ${error.message}`);
+    this.fetchWeather(options, (error, data) => {
+      if (error || !data) {
+        fail(error ?? new Error('No weather data received'));
         return;
       }
-      weatherResult = data!;
+      weatherResult = data;
       Logger.success('Weather request completed');
       checkCompletion();
     });
 
-    this.fetchNews((error, data) => {
-      if (error) {
-        hasError = true;
-        Logger.error(`Parallel news fetch failed: ${error.message}`);
+    this.fetchNews(options, (error, data) => {
+      if (error || !data) {
+        fail(error ?? new Error('No news data received'));
         return;
       }
-      newsResult = data!;
+      newsResult = data;
       Logger.success('News request completed');
       checkCompletion();
     });
   }
 
   /**
-   * Display the dashboard data
+   * Demonstrate parallel callback execution
    */
-  private static displayDashboard(weather: WeatherData, news: NewsData): void {
-    Logger.section('Dashboard Data');
-
-    Logger.data('Weather', {
-      location: `${weather.location.name}, ${weather.location.country}`,
-      temperature: `${weather.current.temperature}°C`,
-      humidity: `${weather.current.humidity}%`,
-      windSpeed: `${weather.current.windSpeed} km/h`,
-      description: weather.current.description,
-    });
+  private static demonstrateParallelCallbacks(
+    options: DashboardOptions,
+    report: RunReport,
+    done: (error: Error | null) => void
+  ): void {
+    Logger.section('Demonstrating Parallel Callbacks');
 
-    Logger.data(
-      'Latest News Headlines',
-      news.posts.slice(0, 3).map((post) => ({
-        title: post.title.substring(0, 60) + '...',
-        likes: post.reactions.likes,
-        views: post.views,
-      }))
-    );
-  }
+    const startTime = Date.now();
 
-  private static getWeatherDescription(temperature: number): string {
-    if (temperature < 0) return 'Very Cold ';
-    if (temperature < 10) return 'Cold ';
-    if (temperature < 20) return 'Cool ';
-    if (temperature < 30) return 'Warm ';
-    return 'Hot ';
+    this.fetchDashboard(options, (error, dashboardData) => {
+      if (error || !dashboardData) {
+        const failure = error ?? new Error('No dashboard data received');
+        Logger.error(`Parallel fetch failed: ${failure.message}`);
+        done(failure);
+        return;
+      }
+
+      const totalTime = Date.now() - startTime;
+      report.timing('Parallel callbacks execution time', totalTime);
+      Logger.success('Both requests completed in parallel!');
+
+      DashboardDisplay.show(dashboardData);
+      report.setData(dashboardData);
+      done(null);
+    });
   }
 
   /**
    * Main execution method
    */
-  public static run(): void {
+  public static run(
+    options: DashboardOptions = {},
+    callback?: CallbackFunction<DashboardRunResult>
+  ): void {
     Logger.header(AsyncMethod.CALLBACK);
     Logger.info('Starting callback-based weather and news dashboard...');
 
+    const report = new RunReport(AsyncMethod.CALLBACK);
+
+    // Footer and result are reported once the callback chain has finished
+    const finish = (error: Error | null): void => {
+      if (error) {
+        report.error(error);
+      }
+      Logger.footer(AsyncMethod.CALLBACK);
+      callback?.(null, report.finish());
+    };
+
     try {
-      this.demonstrateCallbackHell();
+      this.demonstrateCallbackHell(options, report, finish);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       Logger.error(`Callback dashboard failed: ${errorMessage}`);
+      finish(error instanceof Error ? error : new Error(errorMessage));
     }
-
-    // Give time for async operations to complete before footer
-    setTimeout(() => {
-      Logger.footer(AsyncMethod.CALLBACK);
-    }, 8000);
   }
 }
 
@@ -239,5 +254,9 @@ export default CallbackDashboard;
 
 // Execute if this file is run directly
 if (require.main === module) {
-  CallbackDashboard.run();
+  CallbackDashboard.run(DashboardArgs.parseOrExit(process.argv.slice(2)), (_error, result) => {
+    if (!result?.success) {
+      process.exitCode = 1;
+    }
+  });
 }
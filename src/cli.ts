@@ -0,0 +1,779 @@
+/**
+ * Non-interactive command line interface
+ * Parses subcommands and flags, runs the requested operation and
+ * returns a process exit code
+ */
+
+import { URL } from 'url';
+import { Logger } from './utils/logger';
+import { Geocoder } from './utils/geocoder';
+import { Units } from './utils/units';
+import { ResponseCache } from './utils/responseCache';
+import { ConnectionPool } from './utils/connectionPool';
+import { HttpRecorder } from './utils/httpRecorder';
+import { Providers } from './utils/providers';
+import { NewsQuery } from './utils/newsQuery';
+import { DashboardDisplay } from './utils/dashboardDisplay';
+import { AbortError, ApiError } from './utils/errors';
+import { Dashboards } from './dashboards';
+import { Benchmark } from './benchmark';
+import { DashboardServer, ServerOptions } from './server';
+import { MockEndpoint, MockFaults, MockServerOptions, MockUpstreamServer } from './mockServer';
+import {
+  AsyncMethod,
+  CacheOptions,
+  ConnectionOptions,
+  DashboardOptions,
+  DashboardRunResult,
+  ProviderOptions,
+  RecorderOptions,
+} from './types';
+
+export type CliCommandName = 'run' | 'weather' | 'news' | 'bench' | 'serve' | 'mock';
+
+export interface CliCommand {
+  name: CliCommandName;
+  methods: AsyncMethod[];
+  options: DashboardOptions;
+  server: ServerOptions;
+  cache: CacheOptions;
+  connections: ConnectionOptions;
+  providers: ProviderOptions;
+  recorder: RecorderOptions;
+  /** Options for the mock server of the mock command or --mock */
+  mock: MockServerOptions;
+  /** Run the command against an in-process mock server */
+  useMock: boolean;
+  /** Base URL of a running mock server to use as upstream */
+  upstream: string | null;
+  /** Merge the news of every provider instead of failing over */
+  aggregate: boolean;
+  /** Cancel the command after this many milliseconds */
+  deadline: number | null;
+  json: boolean;
+  color: boolean;
+  quiet: boolean;
+  help: boolean;
+}
+
+/**
+ * Thrown for invalid arguments, reported with usage and exit code 2
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export class Cli {
+  public static readonly EXIT_SUCCESS = 0;
+  public static readonly EXIT_FAILURE = 1;
+  public static readonly EXIT_USAGE = 2;
+  public static readonly EXIT_CANCELLED = 130;
+
+  private static readonly COMMANDS: CliCommandName[] = [
+    'run',
+    'weather',
+    'news',
+    'bench',
+    'serve',
+    'mock',
+  ];
+  private static readonly VALUE_FLAGS = [
+    'method',
+    'city',
+    'lat',
+    'lon',
+    'units',
+    'limit',
+    'skip',
+    'search',
+    'tag',
+    'user',
+    'sort',
+    'order',
+    'port',
+    'host',
+    'refresh',
+    'cache-dir',
+    'deadline',
+    'proxy',
+    'weather-provider',
+    'news-provider',
+    'record',
+    'replay',
+    'upstream',
+    'latency',
+    'error-rate',
+    'rate-limit-rate',
+    'timeout-rate',
+    'malformed-rate',
+    'slow-drip-rate',
+    'fault-endpoints',
+    'fault-after',
+    'max-faults',
+    'seed',
+  ];
+  private static readonly BOOLEAN_FLAGS = [
+    'json',
+    'aggregate',
+    'no-color',
+    'no-cache',
+    'no-proxy',
+    'no-validate',
+    'replay-latency',
+    'mock',
+    'quiet',
+    'help',
+  ];
+  private static readonly DEFAULT_FORECAST_DAYS = 7;
+  private static readonly MAX_FORECAST_DAYS = 16;
+
+  public static usage(): string {
+    return [
+      'Usage: async-weather-news-dashboard [command] [options]',
+      '',
+      'Without a command the interactive menu is started.',
+      '',
+      'Commands:',
+      '  run       Run a full dashboard demonstration',
+      '  weather   Fetch and show the weather for one location',
+      '  news      Fetch and show news headlines',
+      '  bench     Compare the performance of the async implementations',
+      '  serve     Start the local HTTP API server',
+      '  mock      Start a mock of the upstream APIs with injectable faults',
+      '',
+      'Options:',
+      '  --method <name>     callback, promise, async or all (run, bench; default: all)',
+      '  --city <name>       City to fetch weather for, e.g. "Paris" or "Paris, France"',
+      '  --lat <n> --lon <n> Coordinates to fetch weather for instead of a city',
+      '  --forecast [days]   Include hourly and daily forecasts (1 to 16 days, default 7)',
+      '  --units <system>    metric, imperial or si',
+      '  --limit <n>         Number of news articles to fetch',
+      '  --skip <n>          Number of news articles to skip, for paging',
+      '  --search <words>    Only news articles containing all of these words',
+      '  --tag <name>        Only news articles with this tag',
+      '  --user <id>         Only news articles by this user',
+      '  --sort <field>      Order news articles by views, likes or recent',
+      '  --order <dir>       asc or desc sort order (default desc)',
+      '  --port <n>          Port for serve (default 3000) or mock (default 4000)',
+      '  --host <address>    Address for serve to bind (default 127.0.0.1)',
+      '  --refresh <seconds> Refresh interval for serve live updates (default 60)',
+      '  --json              Print one JSON document per result to stdout, logs to stderr',
+      '  --deadline <seconds> Cancel the command after this long',
+      '  --no-cache          Always fetch from the network',
+      '  --cache-dir <path>  Persist cached responses in this directory',
+      '  --proxy <url>       Send requests through this HTTP proxy (default: HTTP_PROXY/HTTPS_PROXY)',
+      '  --no-proxy          Ignore proxy environment variables',
+      '  --no-validate       Skip schema checks of API responses (e.g. for bench)',
+      '  --record <dir>      Save every HTTP exchange as a fixture file in this directory',
+      '  --replay <dir>      Answer HTTP requests from recorded fixtures only, offline',
+      '  --replay-latency    Take as long as the recorded responses did (with --replay)',
+      '  --mock              Run the command against an in-process mock of the upstream APIs',
+      '  --upstream <url>    Use a mock server started with the mock command as upstream',
+      '  --latency <spec>    Mock latency: <ms>, uniform:<min>-<max>, normal:<mean>,<sd> or exponential:<mean>',
+      '  --error-rate <p>    Mock share of 500 responses, 0 to 1 (likewise --rate-limit-rate for 429s,',
+      '                      --timeout-rate, --malformed-rate and --slow-drip-rate)',
+      '  --fault-endpoints <list> Inject mock faults only for forecast, geocoding and/or posts',
+      '  --fault-after <n>   Answer the first n requests to each endpoint without faults',
+      '  --max-faults <n>    Inject at most n mock faults per endpoint, then answer normally',
+      '  --seed <n>          Seed the mock fault draws for repeatable runs',
+      `  --weather-provider <ids> Weather providers to try in order (${Providers.weatherIds().join(', ')})`,
+      `  --news-provider <ids>    News providers to try in order (${Providers.newsIds().join(', ')})`,
+      '  --aggregate         Merge, deduplicate and rank the news of all news providers (news)',
+      '  --no-color          Disable coloured output',
+      '  --quiet             Only print warnings, errors and results',
+      '  -h, --help          Show this help',
+      '',
+      'Exit codes: 0 success, 1 operation failed, 2 invalid arguments, 130 cancelled',
+    ].join('\n');
+  }
+
+  /**
+   * Parse command line arguments (without the node and script paths)
+   */
+  public static parse(argv: string[]): CliCommand {
+    const flags = new Map<string, string | true>();
+    let name: CliCommandName | undefined;
+
+    for (let index = 0; index < argv.length; index++) {
+      const arg = argv[index] ?? '';
+
+      if (arg === '-h') {
+        flags.set('help', true);
+        continue;
+      }
+
+      if (!arg.startsWith('--')) {
+        if (name) {
+          throw new CliUsageError(`Unexpected argument: ${arg}`);
+        }
+        if (!this.COMMANDS.includes(arg as CliCommandName)) {
+          throw new CliUsageError(`Unknown command: ${arg}`);
+        }
+        name = arg as CliCommandName;
+        continue;
+      }
+
+      const [flag = '', inlineValue] = arg.slice(2).split(/=(.*)/s);
+
+      if (this.BOOLEAN_FLAGS.includes(flag)) {
+        flags.set(flag, true);
+      } else if (flag === 'forecast') {
+        // The number of days is optional, only consume the next token if it is numeric
+        const next = argv[index + 1];
+        if (inlineValue !== undefined) {
+          flags.set(flag, inlineValue);
+        } else if (next !== undefined && /^\d+$/.test(next)) {
+          flags.set(flag, next);
+          index++;
+        } else {
+          flags.set(flag, true);
+        }
+      } else if (this.VALUE_FLAGS.includes(flag)) {
+        const value = inlineValue ?? argv[++index];
+        if (value === undefined || value.startsWith('--')) {
+          throw new CliUsageError(`Missing value for --${flag}`);
+        }
+        flags.set(flag, value);
+      } else {
+        throw new CliUsageError(`Unknown option: --${flag}`);
+      }
+    }
+
+    const server = this.parseServerOptions(flags);
+    const upstream = flags.get('upstream');
+    if (upstream !== undefined && flags.has('mock')) {
+      throw new CliUsageError('--upstream and --mock cannot be combined');
+    }
+
+    return {
+      name: name ?? 'run',
+      methods: this.parseMethods(flags.get('method')),
+      options: this.parseDashboardOptions(flags),
+      server,
+      cache: this.parseCacheOptions(flags),
+      connections: this.parseConnectionOptions(flags),
+      providers: this.parseProviderOptions(flags),
+      recorder: this.parseRecorderOptions(flags),
+      mock: this.parseMockOptions(flags, server),
+      useMock: flags.has('mock'),
+      upstream: typeof upstream === 'string' ? this.parseUpstream(upstream) : null,
+      aggregate: flags.has('aggregate'),
+      deadline: this.parseDeadline(flags.get('deadline')),
+      json: flags.has('json'),
+      color: !flags.has('no-color'),
+      quiet: flags.has('quiet'),
+      help: flags.has('help'),
+    };
+  }
+
+  /**
+   * Parse and execute, returning the exit code
+   */
+  public static async execute(argv: string[]): Promise<number> {
+    let command: CliCommand;
+    try {
+      command = this.parse(argv);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Invalid arguments';
+      console.error(`${errorMessage}\n\n${this.usage()}`);
+      return this.EXIT_USAGE;
+    }
+
+    if (command.help) {
+      console.log(this.usage());
+      return this.EXIT_SUCCESS;
+    }
+
+    // In JSON mode stdout only carries the result documents, progress goes to stderr
+    Logger.configure({
+      color: command.color,
+      level: command.quiet ? 'quiet' : 'normal',
+      stderr: command.json,
+    });
+    ResponseCache.configure(command.cache);
+    ConnectionPool.configure(command.connections);
+    HttpRecorder.configure(command.recorder);
+    // Explicit provider choices apply on top of the mocked upstream's
+    if (command.upstream) {
+      MockUpstreamServer.useUpstream(command.upstream);
+    }
+    Providers.configure(command.providers);
+
+    // Ctrl+C or the deadline cancel in-flight work; a second Ctrl+C exits immediately
+    const controller = new AbortController();
+    const cancel = (): void => controller.abort();
+    process.once('SIGINT', cancel);
+    process.once('SIGTERM', cancel);
+    const deadline = command.deadline !== null ? setTimeout(cancel, command.deadline) : undefined;
+    let mock: MockUpstreamServer | null = null;
+
+    try {
+      if (command.useMock && command.name !== 'mock') {
+        mock = new MockUpstreamServer({ ...command.mock, port: 0 });
+        await mock.start();
+        mock.useAsUpstream();
+        Providers.configure(command.providers);
+        Logger.info(`Using mock upstream at ${mock.url()}`);
+      }
+      const exitCode = await this.executeCommand(command, controller.signal);
+      const serving = command.name === 'serve' || command.name === 'mock';
+      return controller.signal.aborted && !serving ? this.EXIT_CANCELLED : exitCode;
+    } catch (error) {
+      // Upstream errors keep their type, status, URL and attempts in both modes
+      const failure = controller.signal.aborted ? new AbortError('Cancelled') : error;
+      if (command.json) {
+        this.printJson({ success: false, error: ApiError.details(failure) });
+      } else {
+        Logger.error(ApiError.describe(failure));
+      }
+      return controller.signal.aborted ? this.EXIT_CANCELLED : this.EXIT_FAILURE;
+    } finally {
+      await mock?.stop();
+      clearTimeout(deadline);
+      process.off('SIGINT', cancel);
+      process.off('SIGTERM', cancel);
+    }
+  }
+
+  private static async executeCommand(command: CliCommand, signal: AbortSignal): Promise<number> {
+    const options: DashboardOptions = { ...command.options, signal };
+
+    switch (command.name) {
+      case 'weather': {
+        const { default: AsyncAwaitDashboard } = await import('./asyncAwaitVersion');
+        const weather = await AsyncAwaitDashboard.fetchWeather(options);
+        if (command.json) {
+          this.printJson(weather);
+        } else {
+          DashboardDisplay.weather(weather);
+        }
+        return this.EXIT_SUCCESS;
+      }
+
+      case 'news': {
+        const { default: AsyncAwaitDashboard } = await import('./asyncAwaitVersion');
+        const news = command.aggregate
+          ? await Providers.fetchAllNewsPromise(options)
+          : await AsyncAwaitDashboard.fetchNews(options);
+        if (command.json) {
+          this.printJson(news);
+        } else {
+          DashboardDisplay.news(news, news.posts.length);
+        }
+        return this.EXIT_SUCCESS;
+      }
+
+      case 'bench': {
+        const results = await Benchmark.run(command.methods, options);
+        if (command.json) {
+          this.printJson(results);
+        } else {
+          Benchmark.report(results);
+        }
+        return results.every((result) => result.success) ? this.EXIT_SUCCESS : this.EXIT_FAILURE;
+      }
+
+      case 'serve': {
+        const server = new DashboardServer(command.server);
+        const address = await server.start();
+        Logger.success(`API server listening on http://${address.address}:${address.port}`);
+
+        // Serve until Ctrl+C or the deadline
+        await new Promise<void>((resolve) => {
+          signal.addEventListener('abort', () => resolve(), { once: true });
+        });
+
+        Logger.info('Stopping API server...');
+        await server.stop();
+        return this.EXIT_SUCCESS;
+      }
+
+      case 'mock': {
+        const server = new MockUpstreamServer(command.mock);
+        await server.start();
+        const url = server.url();
+        Logger.success(`Mock upstream listening on ${url}`);
+        Logger.info(`Point commands at it with --upstream ${url}, or set`);
+        Logger.info(
+          `OPEN_METEO_API_URL=${url}${MockUpstreamServer.PATHS.forecast} ` +
+            `GEOCODING_API_URL=${url}${MockUpstreamServer.PATHS.geocoding} ` +
+            `DUMMYJSON_API_URL=${url}${MockUpstreamServer.PATHS.posts}`
+        );
+
+        await new Promise<void>((resolve) => {
+          signal.addEventListener('abort', () => resolve(), { once: true });
+        });
+
+        Logger.info('Stopping mock upstream...');
+        await server.stop();
+        const stats = server.stats();
+        Logger.data('Mock upstream requests', { ...stats.requests, faults: stats.faults });
+        return this.EXIT_SUCCESS;
+      }
+
+      case 'run': {
+        const results: DashboardRunResult[] = [];
+        for (const method of command.methods) {
+          if (signal.aborted) {
+            break;
+          }
+          const result = await Dashboards.run(method, options);
+          results.push(result);
+          if (command.json) {
+            this.printJson(result);
+          }
+        }
+        return results.every((result) => result.success) ? this.EXIT_SUCCESS : this.EXIT_FAILURE;
+      }
+    }
+  }
+
+  private static parseMethods(value: string | true | undefined): AsyncMethod[] {
+    if (value === undefined || value === true || value === 'all') {
+      return Dashboards.ALL_METHODS;
+    }
+
+    const method = Dashboards.parseMethod(value);
+    if (!method) {
+      throw new CliUsageError(`Unknown method: ${value}`);
+    }
+    return [method];
+  }
+
+  private static parseDashboardOptions(flags: Map<string, string | true>): DashboardOptions {
+    const options: DashboardOptions = {};
+
+    const city = flags.get('city');
+    const lat = flags.get('lat');
+    const lon = flags.get('lon');
+
+    if (typeof city === 'string') {
+      options.location = Geocoder.parseQuery(city);
+    } else if (lat !== undefined || lon !== undefined) {
+      const latitude = this.parseNumber('lat', lat);
+      const longitude = this.parseNumber('lon', lon);
+      options.location = { lat: latitude, lon: longitude };
+    }
+
+    const forecast = flags.get('forecast');
+    if (forecast !== undefined) {
+      const forecastDays =
+        forecast === true ? this.DEFAULT_FORECAST_DAYS : this.parseNumber('forecast', forecast);
+      if (
+        !Number.isInteger(forecastDays) ||
+        forecastDays < 1 ||
+        forecastDays > this.MAX_FORECAST_DAYS
+      ) {
+        throw new CliUsageError(
+          `--forecast must be a whole number of days from 1 to ${this.MAX_FORECAST_DAYS}`
+        );
+      }
+      options.forecastDays = forecastDays;
+    }
+
+    const units = flags.get('units');
+    if (units !== undefined) {
+      if (typeof units !== 'string' || !Units.isUnitSystem(units)) {
+        throw new CliUsageError(`Unknown unit system: ${String(units)}`);
+      }
+      options.units = units;
+    }
+
+    const limit = flags.get('limit');
+    if (limit !== undefined) {
+      const newsLimit = this.parseNumber('limit', limit);
+      if (!Number.isInteger(newsLimit) || newsLimit < 1) {
+        throw new CliUsageError('--limit must be a positive integer');
+      }
+      options.newsLimit = newsLimit;
+    }
+
+    const skip = flags.get('skip');
+    if (skip !== undefined) {
+      const newsSkip = this.parseNumber('skip', skip);
+      if (!Number.isInteger(newsSkip) || newsSkip < 0) {
+        throw new CliUsageError('--skip must be a non-negative integer');
+      }
+      options.newsSkip = newsSkip;
+    }
+
+    const search = flags.get('search');
+    if (typeof search === 'string') {
+      options.newsSearch = search;
+    }
+
+    const tag = flags.get('tag');
+    if (typeof tag === 'string') {
+      options.newsTag = tag;
+    }
+
+    const user = flags.get('user');
+    if (user !== undefined) {
+      const userId = this.parseNumber('user', user);
+      if (!Number.isInteger(userId) || userId < 1) {
+        throw new CliUsageError('--user must be a positive integer');
+      }
+      options.newsUserId = userId;
+    }
+
+    const sort = flags.get('sort');
+    if (sort !== undefined) {
+      if (typeof sort !== 'string' || !NewsQuery.isSortField(sort)) {
+        throw new CliUsageError(`Unknown sort field: ${String(sort)} (views, likes or recent)`);
+      }
+      options.newsSortBy = sort;
+    }
+
+    const order = flags.get('order');
+    if (order !== undefined) {
+      if (order !== 'asc' && order !== 'desc') {
+        throw new CliUsageError('--order must be asc or desc');
+      }
+      options.newsOrder = order;
+    }
+
+    if (flags.has('no-validate')) {
+      options.validate = false;
+    }
+
+    return options;
+  }
+
+  private static parseServerOptions(flags: Map<string, string | true>): ServerOptions {
+    const options: ServerOptions = {};
+
+    const port = flags.get('port');
+    if (port !== undefined) {
+      const parsed = this.parseNumber('port', port);
+      if (!Number.isInteger(parsed) || parsed < 0 || parsed > 65535) {
+        throw new CliUsageError('--port must be between 0 and 65535');
+      }
+      options.port = parsed;
+    }
+
+    const host = flags.get('host');
+    if (typeof host === 'string') {
+      options.host = host;
+    }
+
+    const refresh = flags.get('refresh');
+    if (refresh !== undefined) {
+      const seconds = this.parseNumber('refresh', refresh);
+      if (seconds < 1) {
+        throw new CliUsageError('--refresh must be at least 1 second');
+      }
+      options.refreshInterval = seconds * 1000;
+    }
+
+    return options;
+  }
+
+  private static parseCacheOptions(flags: Map<string, string | true>): CacheOptions {
+    const options: CacheOptions = {};
+
+    if (flags.has('no-cache')) {
+      options.enabled = false;
+    }
+
+    const directory = flags.get('cache-dir');
+    if (typeof directory === 'string') {
+      options.directory = directory;
+    }
+
+    return options;
+  }
+
+  private static parseConnectionOptions(flags: Map<string, string | true>): ConnectionOptions {
+    const proxy = flags.get('proxy');
+    if (flags.has('no-proxy')) {
+      if (proxy !== undefined) {
+        throw new CliUsageError('--proxy and --no-proxy cannot be combined');
+      }
+      return { proxy: null };
+    }
+    if (typeof proxy !== 'string') {
+      return {};
+    }
+
+    try {
+      new URL(proxy.includes('://') ? proxy : `http://${proxy}`);
+    } catch {
+      throw new CliUsageError(`Invalid proxy URL: ${proxy}`);
+    }
+    return { proxy };
+  }
+
+  private static parseRecorderOptions(flags: Map<string, string | true>): RecorderOptions {
+    const record = flags.get('record');
+    const replay = flags.get('replay');
+    if (record !== undefined && replay !== undefined) {
+      throw new CliUsageError('--record and --replay cannot be combined');
+    }
+    if (flags.has('replay-latency') && replay === undefined) {
+      throw new CliUsageError('--replay-latency needs --replay');
+    }
+
+    const directory = record ?? replay;
+    if (typeof directory !== 'string') {
+      return {};
+    }
+    return {
+      mode: record !== undefined ? 'record' : 'replay',
+      directory,
+      ...(flags.has('replay-latency') ? { replayLatency: true } : {}),
+    };
+  }
+
+  /**
+   * Fault injection for the mock server; the faults apply to every endpoint
+   * unless --fault-endpoints names some
+   */
+  private static parseMockOptions(
+    flags: Map<string, string | true>,
+    server: ServerOptions
+  ): MockServerOptions {
+    const faults: MockFaults = {};
+
+    const latency = flags.get('latency');
+    if (latency !== undefined) {
+      const spec = MockUpstreamServer.parseLatency(String(latency));
+      if (!spec) {
+        throw new CliUsageError(`Invalid latency: ${String(latency)}`);
+      }
+      faults.latency = spec;
+    }
+
+    const rates = [
+      ['error-rate', 'errorRate'],
+      ['rate-limit-rate', 'rateLimitRate'],
+      ['timeout-rate', 'timeoutRate'],
+      ['malformed-rate', 'malformedRate'],
+      ['slow-drip-rate', 'slowDripRate'],
+    ] as const;
+    for (const [flag, field] of rates) {
+      const value = flags.get(flag);
+      if (value !== undefined) {
+        const rate = this.parseNumber(flag, value);
+        if (rate < 0 || rate > 1) {
+          throw new CliUsageError(`--${flag} must be between 0 and 1`);
+        }
+        faults[field] = rate;
+      }
+    }
+
+    const counts = [
+      ['fault-after', 'afterRequests'],
+      ['max-faults', 'maxFaults'],
+    ] as const;
+    for (const [flag, field] of counts) {
+      const value = flags.get(flag);
+      if (value !== undefined) {
+        const count = this.parseNumber(flag, value);
+        if (!Number.isInteger(count) || count < 0) {
+          throw new CliUsageError(`--${flag} must be a non-negative integer`);
+        }
+        faults[field] = count;
+      }
+    }
+
+    const options: MockServerOptions = {
+      ...(server.port !== undefined ? { port: server.port } : {}),
+      ...(server.host !== undefined ? { host: server.host } : {}),
+    };
+
+    const endpoints = flags.get('fault-endpoints');
+    if (endpoints !== undefined) {
+      options.endpoints = {};
+      for (const endpoint of String(endpoints)
+        .split(',')
+        .map((name) => name.trim())) {
+        if (!MockUpstreamServer.ENDPOINTS.includes(endpoint as MockEndpoint)) {
+          throw new CliUsageError(
+            `Unknown mock endpoint: ${endpoint} (available: ${MockUpstreamServer.ENDPOINTS.join(', ')})`
+          );
+        }
+        options.endpoints[endpoint as MockEndpoint] = faults;
+      }
+    } else {
+      options.faults = faults;
+    }
+
+    const seed = flags.get('seed');
+    if (seed !== undefined) {
+      const parsed = this.parseNumber('seed', seed);
+      if (!Number.isInteger(parsed)) {
+        throw new CliUsageError('--seed must be an integer');
+      }
+      options.seed = parsed;
+    }
+
+    return options;
+  }
+
+  private static parseUpstream(value: string): string {
+    try {
+      return new URL(value.includes('://') ? value : `http://${value}`).toString();
+    } catch {
+      throw new CliUsageError(`Invalid upstream URL: ${value}`);
+    }
+  }
+
+  /**
+   * Comma separated provider ids, e.g. "open-meteo,met-norway"; the first
+   * is the primary and the rest are tried in order when it fails
+   */
+  private static parseProviderOptions(flags: Map<string, string | true>): ProviderOptions {
+    const options: ProviderOptions = {};
+    const lists = [
+      ['weather', flags.get('weather-provider'), Providers.weatherIds()],
+      ['news', flags.get('news-provider'), Providers.newsIds()],
+    ] as const;
+
+    for (const [kind, value, known] of lists) {
+      if (value === undefined) {
+        continue;
+      }
+      const ids = String(value)
+        .split(',')
+        .map((id) => id.trim());
+      const unknown = ids.find((id) => !known.includes(id));
+      if (unknown !== undefined) {
+        throw new CliUsageError(
+          `Unknown ${kind} provider: ${unknown} (available: ${known.join(', ')})`
+        );
+      }
+      options[kind] = ids;
+    }
+
+    return options;
+  }
+
+  private static parseDeadline(value: string | true | undefined): number | null {
+    if (value === undefined) {
+      return null;
+    }
+    const seconds = this.parseNumber('deadline', value);
+    if (seconds <= 0) {
+      throw new CliUsageError('--deadline must be a positive number of seconds');
+    }
+    return seconds * 1000;
+  }
+
+  private static parseNumber(flag: string, value: string | true | undefined): number {
+    const parsed = typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isFinite(parsed)) {
+      throw new CliUsageError(`--${flag} requires a number`);
+    }
+    return parsed;
+  }
+
+  /**
+   * One compact document per line, so several runs can be streamed into jq
+   */
+  private static printJson(value: unknown): void {
+    console.log(JSON.stringify(value));
+  }
+}
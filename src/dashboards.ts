@@ -0,0 +1,62 @@
+/**
+ * Runs any of the three dashboard implementations behind one
+ * promise-based interface, used by the interactive menu and the CLI
+ */
+
+import { AsyncMethod, DashboardOptions, DashboardRunResult } from './types';
+
+export class Dashboards {
+  private static readonly METHOD_ALIASES: Record<string, AsyncMethod> = {
+    callback: AsyncMethod.CALLBACK,
+    callbacks: AsyncMethod.CALLBACK,
+    promise: AsyncMethod.PROMISE,
+    promises: AsyncMethod.PROMISE,
+    async: AsyncMethod.ASYNC_AWAIT,
+    'async/await': AsyncMethod.ASYNC_AWAIT,
+    'async-await': AsyncMethod.ASYNC_AWAIT,
+  };
+
+  public static readonly ALL_METHODS: AsyncMethod[] = [
+    AsyncMethod.CALLBACK,
+    AsyncMethod.PROMISE,
+    AsyncMethod.ASYNC_AWAIT,
+  ];
+
+  public static parseMethod(name: string): AsyncMethod | undefined {
+    return this.METHOD_ALIASES[name.toLowerCase()];
+  }
+
+  /**
+   * Run one implementation to completion. Implementations are imported on
+   * demand to avoid loading all of them at once.
+   */
+  public static async run(
+    method: AsyncMethod,
+    options: DashboardOptions = {}
+  ): Promise<DashboardRunResult> {
+    switch (method) {
+      case AsyncMethod.CALLBACK: {
+        const { default: CallbackDashboard } = await import('./callbackVersion');
+        return new Promise((resolve, reject) => {
+          CallbackDashboard.run(options, (error, result) => {
+            if (error || !result) {
+              reject(error ?? new Error('Callback dashboard returned no result'));
+            } else {
+              resolve(result);
+            }
+          });
+        });
+      }
+
+      case AsyncMethod.PROMISE: {
+        const { default: PromiseDashboard } = await import('./promiseVersion');
+        return PromiseDashboard.run(options);
+      }
+
+      case AsyncMethod.ASYNC_AWAIT: {
+        const { default: AsyncAwaitDashboard } = await import('./asyncAwaitVersion');
+        return AsyncAwaitDashboard.run(options);
+      }
+    }
+  }
+}
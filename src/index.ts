@@ -1,21 +1,32 @@
 /**
  * Main entry point for the Async Weather & News Dashboard
- * Provides interactive CLI for running different async implementations
+ * Runs a CLI command when arguments are given, otherwise the interactive menu
  */
 
 import * as readline from 'readline';
 import { Logger } from './utils/logger';
-import { AsyncMethod } from './types';
-
-// Dynamic imports to avoid loading all implementations at once
-class DashboardRunner {
+import { ApiError } from './utils/errors';
+import { Providers } from './utils/providers';
+import { NewsQuery } from './utils/newsQuery';
+import { DashboardDisplay } from './utils/dashboardDisplay';
+import { Dashboards } from './dashboards';
+import { Benchmark } from './benchmark';
+import { Cli } from './cli';
+import { DashboardServer } from './server';
+import { AsyncMethod, DashboardOptions, DashboardRunResult, NewsData } from './types';
+
+export class DashboardRunner {
   private readonly rl: readline.Interface;
-
-  constructor() {
-    this.rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
+  /** Cancels the dashboard run or benchmark in progress, if any */
+  private operation: AbortController | null = null;
+
+  constructor(
+    input: NodeJS.ReadableStream = process.stdin,
+    output: NodeJS.WritableStream = process.stdout
+  ) {
+    this.rl = readline.createInterface({ input, output });
+    // In a terminal readline swallows Ctrl+C, hand it on to the process handlers
+    this.rl.on('SIGINT', () => process.emit('SIGINT', 'SIGINT'));
   }
 
   /**
@@ -30,6 +41,8 @@ class DashboardRunner {
     console.log('3.  Async/Await Version (modern syntax)');
     console.log('4. Run All Versions (sequential)');
     console.log('5. Performance Comparison');
+    console.log('6. Start HTTP API Server');
+    console.log('7. Browse News');
     console.log('0. Exit\n');
   }
 
@@ -38,7 +51,7 @@ class DashboardRunner {
    */
   private getChoice(): Promise<string> {
     return new Promise((resolve) => {
-      this.rl.question('Enter your choice (0-5): ', (answer) => {
+      this.rl.question('Enter your choice (0-7): ', (answer) => {
         resolve(answer.trim());
       });
     });
@@ -48,11 +61,7 @@ class DashboardRunner {
    * Run callback version
    */
   private async runCallbackVersion(): Promise<void> {
-    const { default: CallbackDashboard } = await import('./callbackVersion');
-    CallbackDashboard.run();
-
-    // Wait for callbacks to complete
-    await this.delay(10000);
+    await this.runDashboard(AsyncMethod.CALLBACK);
     await this.waitForUserInput();
   }
 
@@ -60,8 +69,7 @@ class DashboardRunner {
    * Run promise version
    */
   private async runPromiseVersion(): Promise<void> {
-    const { default: PromiseDashboard } = await import('./promiseVersion');
-    await PromiseDashboard.run();
+    await this.runDashboard(AsyncMethod.PROMISE);
     await this.waitForUserInput();
   }
 
@@ -69,8 +77,7 @@ class DashboardRunner {
    * Run async/await version
    */
   private async runAsyncAwaitVersion(): Promise<void> {
-    const { default: AsyncAwaitDashboard } = await import('./asyncAwaitVersion');
-    await AsyncAwaitDashboard.run();
+    await this.runDashboard(AsyncMethod.ASYNC_AWAIT);
     await this.waitForUserInput();
   }
 
@@ -78,7 +85,7 @@ class DashboardRunner {
    * Run all versions sequentially
    */
   private async runAllVersions(): Promise<void> {
-    Logger.header('ALL VERSIONS' as AsyncMethod);
+    Logger.header('ALL VERSIONS');
     Logger.info('Running all asynchronous implementations sequentially...\n');
 
     await this.runCallbackVersion();
@@ -89,7 +96,7 @@ class DashboardRunner {
 
     await this.runAsyncAwaitVersion();
 
-    Logger.footer('ALL VERSIONS' as AsyncMethod);
+    Logger.footer('ALL VERSIONS');
     await this.waitForUserInput();
   }
 
@@ -97,74 +104,149 @@ class DashboardRunner {
    * Performance comparison between different methods
    */
   private async performanceComparison(): Promise<void> {
-    Logger.header('PERFORMANCE COMPARISON' as AsyncMethod);
+    Logger.header('PERFORMANCE COMPARISON');
     Logger.info('Comparing performance of different async patterns...\n');
 
-    const results: { method: string; duration: number }[] = [];
-
-    // Test Promise version performance
-    try {
-      Logger.section('Testing Promise Performance');
-      const startPromise = Date.now();
-      const PromiseDashboard = (await import('./promiseVersion')).default;
-      // Run a simplified version for timing
-      await PromiseDashboard.run();
-      const promiseDuration = Date.now() - startPromise;
-      results.push({ method: 'Promise', duration: promiseDuration });
-      Logger.timing('Promise method total time', promiseDuration);
-    } catch (error) {
-      Logger.error(
-        `Promise performance test failed: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
+    const results = await this.cancellable((signal) => Benchmark.run(undefined, { signal }));
+    if (results) {
+      Benchmark.report(results);
     }
 
-    await this.delay(1000);
+    Logger.footer('PERFORMANCE COMPARISON');
+    await this.waitForUserInput();
+  }
+
+  /**
+   * Serve the dashboard over HTTP until the user returns to the menu
+   */
+  private async runApiServer(): Promise<void> {
+    const server = new DashboardServer();
 
-    // Test Async/Await version performance
     try {
-      Logger.section('Testing Async/Await Performance');
-      const startAsync = Date.now();
-      const AsyncAwaitDashboard = (await import('./asyncAwaitVersion')).default;
-      await AsyncAwaitDashboard.run();
-      const asyncDuration = Date.now() - startAsync;
-      results.push({ method: 'Async/Await', duration: asyncDuration });
-      Logger.timing('Async/await method total time', asyncDuration);
+      const address = await server.start();
+      Logger.success(`API server listening on http://${address.address}:${address.port}`);
+      Logger.info('Routes: /weather?city=, /news?limit=&skip=&q=&tag=&sort=, /dashboard, /health');
+      Logger.info('Live updates: /events?city=&tag= (SSE), /ws (WebSocket)');
     } catch (error) {
-      Logger.error(
-        `Async/await performance test failed: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
+      Logger.error(`Could not start API server: ${error instanceof Error ? error.message : error}`);
+      await this.waitForUserInput();
+      return;
     }
 
-    // Display comparison results
-    Logger.section('Performance Comparison Results');
-    if (results.length > 1) {
-      const fastest = results.reduce((prev, current) =>
-        prev.duration < current.duration ? prev : current
-      );
-      const slowest = results.reduce((prev, current) =>
-        prev.duration > current.duration ? prev : current
-      );
+    await this.waitForUserInput();
+    await server.stop();
+  }
 
-      Logger.success(`Fastest: ${fastest.method} (${fastest.duration}ms)`);
-      Logger.info(`Slowest: ${slowest.method} (${slowest.duration}ms)`);
+  /**
+   * Page through a news query. Pages are fetched lazily as the user moves
+   * forward and kept, so going back does not fetch again.
+   */
+  private async browseNews(): Promise<void> {
+    Logger.header('NEWS BROWSER');
 
-      const difference = slowest.duration - fastest.duration;
-      const percentage = ((difference / slowest.duration) * 100).toFixed(1);
-      Logger.data('Performance Difference', `${difference}ms (${percentage}% faster)`);
+    const options: DashboardOptions = {};
+    const search = await this.ask('Search for (Enter for all articles): ');
+    if (search) {
+      options.newsSearch = search;
+    }
+    const tag = await this.ask('Tag (Enter for any): ');
+    if (tag) {
+      options.newsTag = tag;
+    }
+    const sort = await this.ask('Sort by views, likes or recent (Enter for none): ');
+    if (NewsQuery.isSortField(sort)) {
+      options.newsSortBy = sort;
+    } else if (sort) {
+      Logger.warn(`Unknown sort field "${sort}", keeping the source order`);
     }
 
-    results.forEach((result) => {
-      Logger.data(result.method, `${result.duration}ms`);
-    });
+    // One controller for the whole session: a cancelled fetch ends the browser
+    const controller = new AbortController();
+    const pages = Providers.newsPages({ ...options, signal: controller.signal });
+    const seen: NewsData[] = [];
+    let index = -1;
+    let answer = 'n';
+
+    while (answer !== 'q') {
+      if (answer === 'n' && index + 1 < seen.length) {
+        index++;
+      } else if (answer === 'n') {
+        let next: IteratorResult<NewsData> | undefined;
+        try {
+          next = await this.cancellable(() => pages.next(), controller);
+        } catch (error) {
+          Logger.error(`Could not fetch the next page: ${ApiError.describe(error)}`);
+          break;
+        }
+        if (!next) {
+          break;
+        }
+        if (next.done) {
+          Logger.info('No more articles');
+        } else {
+          seen.push(next.value);
+          index++;
+        }
+      } else if (answer === 'p' && index > 0) {
+        index--;
+      } else if (answer === 'p') {
+        Logger.info('Already at the first page');
+      }
+
+      const page = seen[index];
+      if (!page) {
+        Logger.info('No articles match');
+        break;
+      }
+      Logger.info(
+        `Articles ${page.skip + 1}-${page.skip + page.posts.length} of ${page.total} (page ${index + 1})`
+      );
+      DashboardDisplay.news(page, page.posts.length);
+
+      answer = (await this.ask('[n]ext, [p]revious or [q]uit: ')).toLowerCase() || 'n';
+    }
 
-    Logger.footer('PERFORMANCE COMPARISON' as AsyncMethod);
+    Logger.footer('NEWS BROWSER');
     await this.waitForUserInput();
   }
 
+  private runDashboard(method: AsyncMethod): Promise<DashboardRunResult | undefined> {
+    return this.cancellable((signal) => Dashboards.run(method, { signal }));
+  }
+
+  /**
+   * Run an operation that Ctrl+C can cancel. Resolves to undefined when cancelled.
+   */
+  private async cancellable<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    controller: AbortController = new AbortController()
+  ): Promise<T | undefined> {
+    this.operation = controller;
+
+    try {
+      return await operation(controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        Logger.warn('Operation cancelled');
+        return undefined;
+      }
+      throw error;
+    } finally {
+      this.operation = null;
+    }
+  }
+
+  /**
+   * Cancel the operation in progress. Returns false when there was nothing to cancel.
+   */
+  public interrupt(): boolean {
+    if (!this.operation || this.operation.signal.aborted) {
+      return false;
+    }
+    this.operation.abort();
+    return true;
+  }
+
   /**
    * Wait for user input before continuing
    */
@@ -176,6 +258,14 @@ class DashboardRunner {
     });
   }
 
+  private ask(question: string): Promise<string> {
+    return new Promise((resolve) => {
+      this.rl.question(question, (answer) => {
+        resolve(answer.trim());
+      });
+    });
+  }
+
   /**
    * Delay utility
    */
@@ -214,13 +304,21 @@ class DashboardRunner {
           await this.performanceComparison();
           break;
 
+        case '6':
+          await this.runApiServer();
+          break;
+
+        case '7':
+          await this.browseNews();
+          break;
+
         case '0':
           console.log('\n Thanks for using the Async Weather & News Dashboard!');
           this.rl.close();
           return;
 
         default:
-          console.log('\n Invalid choice. Please enter a number between 0-5.\n');
+          console.log('\n Invalid choice. Please enter a number between 0-7.\n');
           await this.delay(2000);
           break;
       }
@@ -239,20 +337,27 @@ class DashboardRunner {
  * Application entry point
  */
 async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.length > 0) {
+    process.exitCode = await Cli.execute(args);
+    return;
+  }
+
   const dashboard = new DashboardRunner();
 
-  // Handle process termination gracefully
-  process.on('SIGINT', () => {
-    console.log('\n\n Received SIGINT. Shutting down gracefully...');
+  // The first signal cancels a running operation, otherwise shut down gracefully
+  const onSignal = (signal: NodeJS.Signals): void => {
+    if (dashboard.interrupt()) {
+      console.log(`\n\n Received ${signal}. Cancelling current operation...`);
+      return;
+    }
+    console.log(`\n\n Received ${signal}. Shutting down gracefully...`);
     dashboard.shutdown();
     process.exit(0);
-  });
+  };
 
-  process.on('SIGTERM', () => {
-    console.log('\n\n Received SIGTERM. Shutting down gracefully...');
-    dashboard.shutdown();
-    process.exit(0);
-  });
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
 
   try {
     await dashboard.start();
@@ -0,0 +1,162 @@
+/**
+ * Live update hub: periodically refreshes the weather for subscribed cities
+ * and the news for subscribed tags, pushing typed events to every subscriber
+ */
+
+import { Geocoder } from './utils/geocoder';
+import { Logger } from './utils/logger';
+import { ApiError } from './utils/errors';
+import AsyncAwaitDashboard from './asyncAwaitVersion';
+import { DashboardEvent, DashboardOptions, LiveSource } from './types';
+
+export type LiveListener = (event: DashboardEvent) => void;
+
+export interface LiveSubscription {
+  topic: string;
+  unsubscribe: () => void;
+}
+
+interface Topic {
+  source: LiveSource;
+  options: DashboardOptions;
+  listeners: Set<LiveListener>;
+  timer: NodeJS.Timeout;
+  /** Cancels the refresh in flight, if any */
+  controller?: AbortController;
+  /** Last weather or news event, replayed to late subscribers */
+  latest?: DashboardEvent;
+}
+
+export class LiveUpdates {
+  private static readonly DEFAULT_REFRESH_INTERVAL = 60000;
+
+  private readonly refreshInterval: number;
+  private readonly topics = new Map<string, Topic>();
+
+  constructor(refreshInterval: number = LiveUpdates.DEFAULT_REFRESH_INTERVAL) {
+    this.refreshInterval = refreshInterval;
+  }
+
+  /**
+   * Topic name for a city's weather or a news tag, e.g. "weather:paris" or
+   * "news:love". Without a value the default location or latest news is used.
+   */
+  public static topicName(source: LiveSource, value?: string): string {
+    const key = value?.trim().toLowerCase();
+    return `${source}:${key || (source === 'weather' ? 'default' : 'latest')}`;
+  }
+
+  public get topicCount(): number {
+    return this.topics.size;
+  }
+
+  /**
+   * Subscribe to weather for a city or news for a tag. The first subscriber
+   * of a topic starts its refresh timer, the last one to leave stops it.
+   */
+  public subscribe(
+    source: LiveSource,
+    value: string | undefined,
+    listener: LiveListener
+  ): LiveSubscription {
+    const name = LiveUpdates.topicName(source, value);
+    let topic = this.topics.get(name);
+
+    listener({ type: 'subscribed', topic: name, timestamp: new Date().toISOString() });
+
+    if (topic) {
+      topic.listeners.add(listener);
+      if (topic.latest) {
+        listener(topic.latest);
+      }
+    } else {
+      topic = {
+        source,
+        options: this.topicOptions(source, value),
+        listeners: new Set([listener]),
+        timer: setInterval(() => void this.refresh(name), this.refreshInterval),
+      };
+      this.topics.set(name, topic);
+      void this.refresh(name);
+    }
+
+    return {
+      topic: name,
+      unsubscribe: () => this.unsubscribe(name, listener),
+    };
+  }
+
+  /**
+   * Stop every refresh timer, cancel the refreshes in flight and drop all
+   * subscribers
+   */
+  public close(): void {
+    for (const topic of this.topics.values()) {
+      this.stop(topic);
+    }
+    this.topics.clear();
+  }
+
+  private unsubscribe(name: string, listener: LiveListener): void {
+    const topic = this.topics.get(name);
+    if (!topic || !topic.listeners.delete(listener)) {
+      return;
+    }
+
+    listener({ type: 'unsubscribed', topic: name, timestamp: new Date().toISOString() });
+
+    if (topic.listeners.size === 0) {
+      this.stop(topic);
+      this.topics.delete(name);
+    }
+  }
+
+  private stop(topic: Topic): void {
+    clearInterval(topic.timer);
+    topic.controller?.abort();
+  }
+
+  /**
+   * Fetch the topic once, forwarding progress, data and error events. A
+   * listener that throws ends this refresh; the next tick tries again.
+   */
+  private async refresh(name: string): Promise<void> {
+    const topic = this.topics.get(name);
+    // Skip a tick rather than stacking requests when the upstream API is slow
+    if (!topic || topic.controller) {
+      return;
+    }
+
+    const controller = new AbortController();
+    topic.controller = controller;
+    const options = { ...topic.options, signal: controller.signal };
+    try {
+      for await (const update of AsyncAwaitDashboard.streamUpdates(options, [topic.source])) {
+        // The topic was closed or lost its last subscriber
+        if (controller.signal.aborted) {
+          break;
+        }
+        const event: DashboardEvent = { ...update, topic: name };
+        if (event.type === 'weather' || event.type === 'news') {
+          topic.latest = event;
+        }
+        for (const listener of topic.listeners) {
+          listener(event);
+        }
+      }
+    } catch (error) {
+      Logger.warn(`Live refresh of ${name} failed: ${ApiError.describe(error)}`);
+    } finally {
+      delete topic.controller;
+    }
+  }
+
+  private topicOptions(source: LiveSource, value?: string): DashboardOptions {
+    if (!value?.trim()) {
+      return {};
+    }
+    return source === 'weather'
+      ? { location: Geocoder.parseQuery(value) }
+      : { newsTag: value.trim().toLowerCase() };
+  }
+}
@@ -0,0 +1,651 @@
+/**
+ * Local stand-in for the upstream APIs: Open-Meteo forecast and geocoding
+ * and DummyJSON posts, answering with generated data. Latency and faults
+ * (server errors, 429s, timeouts, malformed JSON, slow-drip bodies) are
+ * injected at configurable rates, so failure paths can be exercised on demand
+ * and benchmarks do not depend on the public internet.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import { Units } from './utils/units';
+import { Geocoder } from './utils/geocoder';
+import { OpenMeteo } from './utils/openMeteo';
+import { DummyJson } from './utils/dummyJson';
+import { Providers } from './utils/providers';
+import { NewsQuery } from './utils/newsQuery';
+import {
+  DashboardOptions,
+  NewsArticle,
+  PrecipitationUnit,
+  TemperatureUnit,
+  WindSpeedUnit,
+} from './types';
+
+/**
+ * How long the server waits before answering, in milliseconds
+ */
+export type LatencySpec =
+  | { type: 'fixed'; ms: number }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'normal'; mean: number; stdDev: number }
+  | { type: 'exponential'; mean: number };
+
+/**
+ * Rates are probabilities from 0 to 1, drawn independently per request in
+ * the order rate limit, error, timeout, malformed, slow drip
+ */
+export interface MockFaults {
+  latency?: LatencySpec;
+  /** Answer this many requests to the endpoint normally before injecting faults */
+  afterRequests?: number;
+  /** Inject at most this many faults at the endpoint, then answer normally */
+  maxFaults?: number;
+  /** Answer 429 Too Many Requests with a Retry-After header */
+  rateLimitRate?: number;
+  /** Answer 500 Internal Server Error */
+  errorRate?: number;
+  /** Never answer; the connection stays open until the client gives up */
+  timeoutRate?: number;
+  /** Answer 200 with a truncated JSON body */
+  malformedRate?: number;
+  /** Send the body in small pieces spread over dripDuration */
+  slowDripRate?: number;
+  /** Milliseconds a slow-drip body takes, default 2000 */
+  dripDuration?: number;
+  /** Seconds sent in Retry-After with 429s, default 1 */
+  retryAfter?: number;
+}
+
+export type MockEndpoint = 'forecast' | 'geocoding' | 'posts';
+export type MockFault = 'rateLimit' | 'error' | 'timeout' | 'malformed' | 'slowDrip';
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  /** Faults for every endpoint */
+  faults?: MockFaults;
+  /** Faults for single endpoints, replacing the common ones */
+  endpoints?: Partial<Record<MockEndpoint, MockFaults>>;
+  /** Seed for the random draws, making a sequence of faults repeatable */
+  seed?: number;
+}
+
+export interface MockStats {
+  requests: Record<MockEndpoint, number>;
+  faults: Record<MockFault, number>;
+}
+
+interface Place {
+  name: string;
+  country: string;
+  country_code: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+export class MockUpstreamServer {
+  public static readonly ENDPOINTS: MockEndpoint[] = ['forecast', 'geocoding', 'posts'];
+  public static readonly PATHS: Record<MockEndpoint, string> = {
+    forecast: '/v1/forecast',
+    geocoding: '/v1/search',
+    posts: '/posts',
+  };
+
+  private static readonly DEFAULT_PORT = 4000;
+  private static readonly DEFAULT_HOST = '127.0.0.1';
+  private static readonly DEFAULT_DRIP_DURATION = 2000;
+  private static readonly DRIP_CHUNKS = 10;
+  private static readonly DEFAULT_POSTS_LIMIT = 30;
+  private static readonly PLACES: Place[] = [
+    {
+      name: 'Berlin',
+      country: 'Germany',
+      country_code: 'DE',
+      latitude: 52.52,
+      longitude: 13.41,
+      timezone: 'Europe/Berlin',
+    },
+    {
+      name: 'Paris',
+      country: 'France',
+      country_code: 'FR',
+      latitude: 48.85,
+      longitude: 2.35,
+      timezone: 'Europe/Paris',
+    },
+    {
+      name: 'Paris',
+      country: 'United States',
+      country_code: 'US',
+      latitude: 33.66,
+      longitude: -95.56,
+      timezone: 'America/Chicago',
+    },
+    {
+      name: 'London',
+      country: 'United Kingdom',
+      country_code: 'GB',
+      latitude: 51.51,
+      longitude: -0.13,
+      timezone: 'Europe/London',
+    },
+    {
+      name: 'New York',
+      country: 'United States',
+      country_code: 'US',
+      latitude: 40.71,
+      longitude: -74.01,
+      timezone: 'America/New_York',
+    },
+    {
+      name: 'Tokyo',
+      country: 'Japan',
+      country_code: 'JP',
+      latitude: 35.69,
+      longitude: 139.69,
+      timezone: 'Asia/Tokyo',
+    },
+    {
+      name: 'Sydney',
+      country: 'Australia',
+      country_code: 'AU',
+      latitude: -33.87,
+      longitude: 151.21,
+      timezone: 'Australia/Sydney',
+    },
+  ];
+  private static readonly TAGS = [
+    'history',
+    'love',
+    'crime',
+    'fiction',
+    'mystery',
+    'french',
+    'english',
+    'magical',
+  ];
+  private static readonly WEATHER_CODES = [0, 1, 2, 3, 45, 61, 63, 71, 80, 95];
+  private static readonly POSTS = MockUpstreamServer.generatePosts(60);
+
+  private readonly server: http.Server;
+  private readonly port: number;
+  private readonly host: string;
+  private faults: MockFaults;
+  private endpointFaults: Partial<Record<MockEndpoint, MockFaults>>;
+  private random: () => number;
+  private counters: MockStats = MockUpstreamServer.emptyStats();
+  /** Faults injected per endpoint, for maxFaults */
+  private injected: Record<MockEndpoint, number> = { forecast: 0, geocoding: 0, posts: 0 };
+  /** Timers of delayed and dripping responses, cleared by stop() */
+  private readonly timers = new Set<NodeJS.Timeout>();
+
+  constructor(options: MockServerOptions = {}) {
+    this.port = options.port ?? MockUpstreamServer.DEFAULT_PORT;
+    this.host = options.host ?? MockUpstreamServer.DEFAULT_HOST;
+    this.faults = options.faults ?? {};
+    this.endpointFaults = options.endpoints ?? {};
+    this.random =
+      options.seed !== undefined ? MockUpstreamServer.seeded(options.seed) : Math.random;
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  /**
+   * Point the forecast, geocoding and news clients at a mock server. Only
+   * the mocked providers are used from then on, so nothing reaches the
+   * internet.
+   */
+  public static useUpstream(baseUrl: string): void {
+    const base = baseUrl.replace(/\/+$/, '');
+    OpenMeteo.setBaseUrl(base + this.PATHS.forecast);
+    Geocoder.setBaseUrl(base + this.PATHS.geocoding);
+    DummyJson.setBaseUrl(base + this.PATHS.posts);
+    Providers.configure({ weather: [OpenMeteo.id], news: [DummyJson.id] });
+  }
+
+  /**
+   * Parse "100", "fixed:100", "uniform:50-300", "normal:200,50" or
+   * "exponential:150". Returns undefined for anything else.
+   */
+  public static parseLatency(value: string): LatencySpec | undefined {
+    const [type, args = ''] = value.includes(':') ? value.split(':', 2) : ['fixed', value];
+    const numbers = args.split(/[-,]/).map(Number);
+    if (numbers.some((number) => !Number.isFinite(number) || number < 0)) {
+      return undefined;
+    }
+
+    const [first = 0, second] = numbers;
+    switch (type) {
+      case 'fixed':
+        return numbers.length === 1 ? { type, ms: first } : undefined;
+      case 'uniform':
+        return second !== undefined && second >= first
+          ? { type, min: first, max: second }
+          : undefined;
+      case 'normal':
+        return second !== undefined ? { type, mean: first, stdDev: second } : undefined;
+      case 'exponential':
+        return numbers.length === 1 ? { type, mean: first } : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Start listening, resolving with the bound address
+   */
+  public start(): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off('error', reject);
+        resolve(this.server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /**
+   * Stop listening and drop every open connection, including the ones held
+   * open by injected timeouts
+   */
+  public stop(): Promise<void> {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Base URL of the running server, e.g. http://127.0.0.1:4000
+   */
+  public url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock server is not running');
+    }
+    return `http://${address.address}:${address.port}`;
+  }
+
+  /**
+   * Point the dashboards at this server, see useUpstream
+   */
+  public useAsUpstream(): void {
+    MockUpstreamServer.useUpstream(this.url());
+  }
+
+  /**
+   * Change the faults while running, for every endpoint or for one
+   */
+  public configure(faults: MockFaults, endpoint?: MockEndpoint): void {
+    if (endpoint) {
+      this.endpointFaults = { ...this.endpointFaults, [endpoint]: faults };
+    } else {
+      this.faults = faults;
+      this.endpointFaults = {};
+    }
+  }
+
+  /**
+   * Requests received per endpoint and faults injected so far
+   */
+  public stats(): MockStats {
+    return {
+      requests: { ...this.counters.requests },
+      faults: { ...this.counters.faults },
+    };
+  }
+
+  /**
+   * Zero the counters, which afterRequests and maxFaults count from as well
+   */
+  public resetStats(): void {
+    this.counters = MockUpstreamServer.emptyStats();
+    this.injected = { forecast: 0, geocoding: 0, posts: 0 };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    const endpoint = this.endpoint(url.pathname);
+    if (!endpoint) {
+      this.send(res, 404, { message: `Not found: ${url.pathname}` });
+      return;
+    }
+
+    const count = ++this.counters.requests[endpoint];
+    const faults = this.endpointFaults[endpoint] ?? this.faults;
+    const eligible =
+      count > (faults.afterRequests ?? 0) &&
+      this.injected[endpoint] < (faults.maxFaults ?? Infinity);
+    const fault = eligible ? this.drawFault(faults) : undefined;
+    if (fault) {
+      this.counters.faults[fault]++;
+      this.injected[endpoint]++;
+    }
+
+    this.later(this.delay(faults.latency), () => {
+      switch (fault) {
+        case 'rateLimit':
+          res.setHeader('Retry-After', String(faults.retryAfter ?? 1));
+          this.send(res, 429, { message: 'Too many requests' });
+          return;
+        case 'error':
+          this.send(res, 500, { message: 'Internal server error' });
+          return;
+        case 'timeout':
+          // Leave the request hanging
+          return;
+      }
+
+      const { status, body } = this.respond(endpoint, url);
+      const text = JSON.stringify(body);
+      if (fault === 'malformed') {
+        this.send(res, status, text.slice(0, Math.floor(text.length / 2)));
+      } else if (fault === 'slowDrip') {
+        this.drip(
+          res,
+          status,
+          text,
+          faults.dripDuration ?? MockUpstreamServer.DEFAULT_DRIP_DURATION
+        );
+      } else {
+        this.send(res, status, text);
+      }
+    });
+  }
+
+  private endpoint(pathname: string): MockEndpoint | undefined {
+    return MockUpstreamServer.ENDPOINTS.find((endpoint) => {
+      const path = MockUpstreamServer.PATHS[endpoint];
+      return pathname === path || (endpoint === 'posts' && pathname.startsWith(`${path}/`));
+    });
+  }
+
+  private drawFault(faults: MockFaults): MockFault | undefined {
+    const rates: [MockFault, number | undefined][] = [
+      ['rateLimit', faults.rateLimitRate],
+      ['error', faults.errorRate],
+      ['timeout', faults.timeoutRate],
+      ['malformed', faults.malformedRate],
+      ['slowDrip', faults.slowDripRate],
+    ];
+    return rates.find(([, rate]) => rate !== undefined && this.random() < rate)?.[0];
+  }
+
+  private delay(latency: LatencySpec | undefined): number {
+    if (!latency) {
+      return 0;
+    }
+    switch (latency.type) {
+      case 'fixed':
+        return latency.ms;
+      case 'uniform':
+        return latency.min + this.random() * (latency.max - latency.min);
+      case 'normal': {
+        // Box-Muller transform
+        const u = 1 - this.random();
+        const v = this.random();
+        const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+        return Math.max(0, latency.mean + z * latency.stdDev);
+      }
+      case 'exponential':
+        return -Math.log(1 - this.random()) * latency.mean;
+    }
+  }
+
+  private later(ms: number, action: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      action();
+    }, Math.round(ms));
+    this.timers.add(timer);
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    res.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(text),
+    });
+    res.end(text);
+  }
+
+  /**
+   * Write the body in DRIP_CHUNKS pieces spread evenly over duration
+   */
+  private drip(res: http.ServerResponse, status: number, text: string, duration: number): void {
+    const body = Buffer.from(text);
+    const size = Math.ceil(body.length / MockUpstreamServer.DRIP_CHUNKS);
+    const interval = duration / MockUpstreamServer.DRIP_CHUNKS;
+    res.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': body.length,
+    });
+
+    const writeChunk = (offset: number): void => {
+      if (res.destroyed) {
+        return;
+      }
+      if (offset >= body.length) {
+        res.end();
+        return;
+      }
+      res.write(body.subarray(offset, offset + size));
+      this.later(interval, () => writeChunk(offset + size));
+    };
+    writeChunk(0);
+  }
+
+  private respond(endpoint: MockEndpoint, url: URL): MockResponse {
+    switch (endpoint) {
+      case 'forecast':
+        return this.forecast(url.searchParams);
+      case 'geocoding':
+        return this.geocoding(url.searchParams);
+      case 'posts':
+        return this.posts(url.pathname, url.searchParams);
+    }
+  }
+
+  /**
+   * Open-Meteo style forecast. Values follow from the coordinates and the
+   * hour, so the same request always gets the same weather.
+   */
+  private forecast(query: URLSearchParams): MockResponse {
+    const latitude = Number(query.get('latitude'));
+    const longitude = Number(query.get('longitude'));
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      return { status: 400, body: { error: true, reason: 'latitude and longitude are required' } };
+    }
+
+    const temperatureUnit = (query.get('temperature_unit') ?? 'celsius') as TemperatureUnit;
+    const windSpeedUnit = (query.get('wind_speed_unit') ?? 'kmh') as WindSpeedUnit;
+    const precipitationUnit = (query.get('precipitation_unit') ?? 'mm') as PrecipitationUnit;
+    const temperature = (celsius: number): number =>
+      this.round(Units.convertTemperature(celsius, 'celsius', temperatureUnit));
+    const windSpeed = (kmh: number): number =>
+      this.round(Units.convertWindSpeed(kmh, 'kmh', windSpeedUnit));
+    const precipitation = (mm: number): number =>
+      this.round(Units.convertPrecipitation(mm, 'mm', precipitationUnit));
+
+    // Warmer towards the equator, a daily cycle peaking mid-afternoon
+    const base = 28 - Math.abs(latitude) * 0.4;
+    const now = new Date();
+    now.setUTCMinutes(0, 0, 0);
+    const at = (hour: number): { celsius: number; code: number; isDay: number } => {
+      const time = now.getTime() + hour * 3600000;
+      const localHour = (new Date(time).getUTCHours() + Math.round(longitude / 15) + 24) % 24;
+      const seed = Math.abs(Math.round(latitude * 7 + longitude * 3 + time / 3600000));
+      return {
+        celsius: base + 6 * Math.sin(((localHour - 9) / 24) * 2 * Math.PI),
+        code: MockUpstreamServer.WEATHER_CODES[seed % MockUpstreamServer.WEATHER_CODES.length] ?? 0,
+        isDay: localHour >= 6 && localHour < 20 ? 1 : 0,
+      };
+    };
+
+    const current = at(0);
+    const body: Record<string, unknown> = {
+      latitude,
+      longitude,
+      timezone: 'GMT',
+      current: {
+        time: now.toISOString().slice(0, 16),
+        temperature_2m: temperature(current.celsius),
+        apparent_temperature: temperature(current.celsius - 1.5),
+        relative_humidity_2m: 60 + (current.code % 30),
+        wind_speed_10m: windSpeed(8 + (current.code % 12)),
+        precipitation: precipitation(current.code >= 61 ? 0.4 : 0),
+        cloud_cover: Math.min(100, current.code * 10),
+        weather_code: current.code,
+        is_day: current.isDay,
+      },
+    };
+
+    const hours = Number(query.get('forecast_hours') ?? 0);
+    if (query.has('hourly') && hours > 0) {
+      const steps = Array.from({ length: hours }, (_, hour) => at(hour));
+      body.hourly = {
+        time: steps.map((_, hour) =>
+          new Date(now.getTime() + hour * 3600000).toISOString().slice(0, 16)
+        ),
+        temperature_2m: steps.map((step) => temperature(step.celsius)),
+        relative_humidity_2m: steps.map((step) => 60 + (step.code % 30)),
+        precipitation_probability: steps.map((step) => (step.code >= 61 ? 70 : 10)),
+        wind_speed_10m: steps.map((step) => windSpeed(8 + (step.code % 12))),
+        weather_code: steps.map((step) => step.code),
+        is_day: steps.map((step) => step.isDay),
+      };
+    }
+
+    const days = Number(query.get('forecast_days') ?? 0);
+    if (query.has('daily') && days > 0) {
+      const daily = Array.from({ length: days }, (_, day) => at(day * 24 + 12));
+      body.daily = {
+        time: daily.map((_, day) =>
+          new Date(now.getTime() + day * 86400000).toISOString().slice(0, 10)
+        ),
+        weather_code: daily.map((step) => step.code),
+        temperature_2m_max: daily.map((step) => temperature(step.celsius + 4)),
+        temperature_2m_min: daily.map((step) => temperature(step.celsius - 6)),
+        precipitation_sum: daily.map((step) => precipitation(step.code >= 61 ? 3.2 : 0)),
+      };
+    }
+
+    return { status: 200, body };
+  }
+
+  /**
+   * Open-Meteo style geocoding over a handful of known places
+   */
+  private geocoding(query: URLSearchParams): MockResponse {
+    const name = (query.get('name') ?? '').trim().toLowerCase();
+    const count = Number(query.get('count') ?? 10);
+    const results = MockUpstreamServer.PLACES.filter((place) =>
+      place.name.toLowerCase().startsWith(name)
+    ).slice(0, count);
+
+    return { status: 200, body: results.length > 0 ? { results } : {} };
+  }
+
+  /**
+   * DummyJSON style posts: /posts, /posts/search?q=, /posts/tag/{tag} and
+   * /posts/user/{id}, with limit (0 for all), skip, sortBy and order
+   */
+  private posts(pathname: string, query: URLSearchParams): MockResponse {
+    const [, , kind, value] = pathname.split('/');
+    const options: DashboardOptions = {};
+    if (kind === 'search') {
+      options.newsSearch = query.get('q') ?? '';
+    } else if (kind === 'tag' && value) {
+      options.newsTag = decodeURIComponent(value);
+    } else if (kind === 'user' && value) {
+      options.newsUserId = Number(value);
+    } else if (kind !== undefined) {
+      return { status: 404, body: { message: `Not found: ${pathname}` } };
+    }
+
+    const sortBy = query.get('sortBy');
+    if (sortBy === 'views' || sortBy === 'id') {
+      options.newsSortBy = sortBy === 'id' ? 'recent' : 'views';
+      options.newsOrder = query.get('order') === 'asc' ? 'asc' : 'desc';
+    }
+
+    const matches = NewsQuery.apply(MockUpstreamServer.POSTS, { ...options, newsLimit: Infinity });
+    const limit = Number(query.get('limit') ?? MockUpstreamServer.DEFAULT_POSTS_LIMIT);
+    const skip = Number(query.get('skip') ?? 0);
+    const posts = matches.posts.slice(skip, limit === 0 ? undefined : skip + limit);
+
+    return { status: 200, body: { posts, total: matches.total, skip, limit: posts.length } };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
+  private static generatePosts(count: number): NewsArticle[] {
+    const subjects = [
+      'The lighthouse keeper',
+      'A quiet village',
+      'The old library',
+      'Midnight train',
+      'The lost letter',
+      'A summer in Lyon',
+    ];
+    const twists = [
+      'keeps a secret',
+      'changes everything',
+      'returns home',
+      'meets a stranger',
+      'remembers the war',
+      'falls in love',
+    ];
+
+    return Array.from({ length: count }, (_, index) => {
+      const id = index + 1;
+      const subject = subjects[index % subjects.length] ?? '';
+      const twist = twists[Math.floor(index / subjects.length) % twists.length] ?? '';
+      return {
+        id,
+        title: `${subject} ${twist}`,
+        body: `Story ${id}: ${subject.toLowerCase()} ${twist}, told in ${(id % 4) + 2} short chapters.`,
+        tags: [
+          this.TAGS[index % this.TAGS.length] ?? 'history',
+          this.TAGS[(index * 3 + 1) % this.TAGS.length] ?? 'love',
+        ],
+        reactions: { likes: (id * 37) % 1000, dislikes: (id * 11) % 60 },
+        views: (id * 263) % 5000,
+        userId: (index % 20) + 1,
+      };
+    });
+  }
+
+  private static emptyStats(): MockStats {
+    return {
+      requests: { forecast: 0, geocoding: 0, posts: 0 },
+      faults: { rateLimit: 0, error: 0, timeout: 0, malformed: 0, slowDrip: 0 },
+    };
+  }
+
+  /**
+   * A small seeded random generator (mulberry32)
+   */
+  private static seeded(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -5,77 +5,79 @@
 
 import { HttpClient } from './utils/httpClient';
 import { Logger } from './utils/logger';
-import { WeatherData, NewsData, AsyncMethod, DashboardData } from './types';
+import { Geocoder, DEFAULT_LOCATION } from './utils/geocoder';
+import { DashboardArgs } from './utils/dashboardArgs';
+import { Providers } from './utils/providers';
+import { DummyJson } from './utils/dummyJson';
+import { NewsAggregator } from './utils/newsAggregator';
+import { DashboardDisplay } from './utils/dashboardDisplay';
+import { RunReport } from './utils/runReport';
+import { AbortError, ApiError, ValidationError } from './utils/errors';
+import {
+  WeatherData,
+  NewsData,
+  AsyncMethod,
+  DashboardData,
+  DashboardOptions,
+  DashboardRunResult,
+} from './types';
 
 class PromiseDashboard {
-  private static readonly WEATHER_API_URL =
-    'https://api.open-meteo.com/v1/forecast?latitude=52.52&longitude=13.41&current=temperature_2m,relative_humidity_2m,wind_speed_10m&timezone=auto';
-  private static readonly NEWS_API_URL = 'https://dummyjson.com/posts?limit=5';
-  private static readonly BACKUP_NEWS_API_URL = 'https://dummyjson.com/posts?limit=3&skip=5';
-
   /**
    * Fetch weather data using Promises
    */
-  private static fetchWeather(): Promise<WeatherData> {
+  public static fetchWeather(options: DashboardOptions): Promise<WeatherData> {
     Logger.info('Fetching weather data...');
 
-    return HttpClient.makeRequestPromise<any>(this.WEATHER_API_URL)
-      .then((data) => {
-        const weatherData: WeatherData = {
-          location: {
-            name: 'Berlin',
-            country: 'Germany',
-            lat: 52.52,
-            lon: 13.41,
-          },
-          current: {
-            temperature: data.current.temperature_2m,
-            humidity: data.current.relative_humidity_2m,
-            windSpeed: data.current.wind_speed_10m,
-            description: this.getWeatherDescription(data.current.temperature_2m),
-          },
-          timestamp: new Date().toISOString(),
-        };
-
-        Logger.success('Weather data transformed successfully');
+    return Geocoder.resolvePromise(options.location ?? DEFAULT_LOCATION, {
+      signal: options.signal,
+    })
+      .then((place) => Providers.fetchWeatherPromise(place, options))
+      .then((weatherData) => {
+        Logger.success(`Weather data from ${weatherData.source} transformed successfully`);
         return weatherData;
       })
       .catch((error) => {
-        Logger.error(`Weather fetch failed: ${error.message}`);
-        throw new Error(`Weather API Error: ${error.message}`);
+        Logger.error(`Weather fetch failed: ${ApiError.describe(error)}`);
+        throw error;
       });
   }
 
   /**
    * Fetch news data using Promises
    */
-  private static fetchNews(): Promise<NewsData> {
+  public static fetchNews(options: DashboardOptions): Promise<NewsData> {
     Logger.info('Fetching news data...');
 
-    return HttpClient.makeRequestPromise<NewsData>(this.NEWS_API_URL)
+    return Providers.fetchNewsPromise(options)
       .then((data) => {
-        if (!data || !data.posts || data.posts.length === 0) {
-          throw new Error('Invalid news data structure');
+        if (data.posts.length === 0) {
+          throw new ValidationError(`${data.source ?? 'news'} posts`, [
+            { path: 'posts', message: 'expected at least one post' },
+          ]);
         }
 
-        Logger.success('News data fetched successfully');
+        Logger.success(`News data from ${data.source} fetched successfully`);
         return data;
       })
       .catch((error) => {
-        Logger.error(`News fetch failed: ${error.message}`);
-        throw new Error(`News API Error: ${error.message}`);
+        Logger.error(`News fetch failed: ${ApiError.describe(error)}`);
+        throw error;
       });
   }
 
   /**
    * Demonstrate Promise chaining (sequential operations)
    */
-  private static demonstratePromiseChaining(): Promise<DashboardData> {
+  private static demonstratePromiseChaining(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<DashboardData> {
     Logger.section('Demonstrating Promise Chaining (Sequential)');
 
     const startTime = Date.now();
 
-    return this.fetchWeather()
+    return this.fetchWeather(options)
       .then((weatherData) => {
         Logger.success('Weather data received');
         Logger.info('Processing weather data...');
@@ -88,14 +90,14 @@ class PromiseDashboard {
       .then((weatherData) => {
         Logger.info('Weather processing complete, fetching news...');
 
-        return this.fetchNews().then((newsData) => ({
+        return this.fetchNews(options).then((newsData) => ({
           weather: weatherData,
           news: newsData,
         }));
       })
       .then((dashboardData) => {
         const totalTime = Date.now() - startTime;
-        Logger.timing('Promise chaining execution time', totalTime);
+        report.timing('Promise chaining execution time', totalTime);
         Logger.success('Sequential Promise chain completed');
 
         return dashboardData;
@@ -106,38 +108,51 @@ class PromiseDashboard {
       });
   }
 
+  /**
+   * Fetch weather and news in parallel with Promise.all(), rejecting with
+   * the first failure
+   */
+  public static fetchDashboard(options: DashboardOptions): Promise<DashboardData> {
+    return Promise.all([this.fetchWeather(options), this.fetchNews(options)]).then(
+      ([weatherData, newsData]) => ({
+        weather: weatherData,
+        news: newsData,
+      })
+    );
+  }
+
   /**
    * Demonstrate Promise.all() for parallel execution
    */
-  private static demonstratePromiseAll(): Promise<DashboardData> {
+  private static demonstratePromiseAll(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<DashboardData> {
     Logger.section('Demonstrating Promise.all() (Parallel)');
 
     const startTime = Date.now();
 
-    const weatherPromise = this.fetchWeather();
-    const newsPromise = this.fetchNews();
-
-    return Promise.all([weatherPromise, newsPromise])
-      .then(([weatherData, newsData]) => {
+    return this.fetchDashboard(options)
+      .then((dashboardData) => {
         const totalTime = Date.now() - startTime;
-        Logger.timing('Promise.all() execution time', totalTime);
+        report.timing('Promise.all() execution time', totalTime);
         Logger.success('All promises resolved in parallel!');
 
-        return {
-          weather: weatherData,
-          news: newsData,
-        };
+        return dashboardData;
       })
       .catch((error) => {
         Logger.error(`Promise.all() failed: ${error.message}`);
-        throw new Error(`Parallel execution failed: ${error.message}`);
+        throw error;
       });
   }
 
   /**
    * Demonstrate Promise.race() for fastest response
    */
-  private static demonstratePromiseRace(): Promise<string> {
+  private static demonstratePromiseRace(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<string> {
     Logger.section('Demonstrating Promise.race() (Fastest Response)');
 
     const startTime = Date.now();
@@ -146,21 +161,21 @@ class PromiseDashboard {
     const fastPromise = new Promise<string>((resolve) => {
       setTimeout(() => {
         const duration = Date.now() - startTime;
-        Logger.timing('Fast promise', duration);
+        report.timing('Fast promise', duration);
         resolve('Fast response completed');
       }, 800);
     });
 
-    const mediumPromise = HttpClient.makeRequestPromise<NewsData>(this.NEWS_API_URL).then(() => {
+    const mediumPromise = Providers.fetchNewsPromise(options).then(() => {
       const duration = Date.now() - startTime;
-      Logger.timing('News API promise', duration);
+      report.timing('News API promise', duration);
       return 'News API response completed';
     });
 
     const slowPromise = new Promise<string>((resolve) => {
       setTimeout(() => {
         const duration = Date.now() - startTime;
-        Logger.timing('Slow promise', duration);
+        report.timing('Slow promise', duration);
         resolve('Slow response completed');
       }, 2000);
     });
@@ -168,7 +183,7 @@ class PromiseDashboard {
     return Promise.race([fastPromise, mediumPromise, slowPromise])
       .then((result) => {
         const totalTime = Date.now() - startTime;
-        Logger.timing('Promise.race() winner time', totalTime);
+        report.timing('Promise.race() winner time', totalTime);
         Logger.success(`Promise.race() winner: ${result}`);
         return result;
       })
@@ -181,19 +196,25 @@ class PromiseDashboard {
   /**
    * Demonstrate Promise.allSettled() for handling mixed results
    */
-  private static demonstratePromiseAllSettled(): Promise<void> {
+  private static demonstratePromiseAllSettled(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<void> {
     Logger.section('Demonstrating Promise.allSettled() (Mixed Results)');
 
     const startTime = Date.now();
 
-    const successPromise = this.fetchWeather();
-    const failPromise = HttpClient.makeRequestPromise('https://invalid-url.example.com/api');
-    const anotherSuccessPromise = this.fetchNews();
+    const successPromise = this.fetchWeather(options);
+    // There is no post 0, so the posts API (or its mock) rejects with a 404
+    const failPromise = HttpClient.makeRequestPromise(DummyJson.buildPostUrl(0), {
+      signal: options.signal,
+    });
+    const anotherSuccessPromise = this.fetchNews(options);
 
     return Promise.allSettled([successPromise, failPromise, anotherSuccessPromise]).then(
       (results) => {
         const totalTime = Date.now() - startTime;
-        Logger.timing('Promise.allSettled() execution time', totalTime);
+        report.timing('Promise.allSettled() execution time', totalTime);
 
         results.forEach((result, index) => {
           if (result.status === 'fulfilled') {
@@ -210,67 +231,82 @@ class PromiseDashboard {
   }
 
   /**
-   * Display dashboard data
+   * Demonstrate merging news from every provider: all are asked in parallel,
+   * then their articles are deduplicated and ranked. Failing providers are
+   * left out, so only all of them failing fails the merge.
    */
-  private static displayDashboard(dashboardData: DashboardData): void {
-    Logger.section('Dashboard Data');
-
-    Logger.data('Weather', {
-      location: `${dashboardData.weather.location.name}, ${dashboardData.weather.location.country}`,
-      temperature: `${dashboardData.weather.current.temperature}°C`,
-      humidity: `${dashboardData.weather.current.humidity}%`,
-      windSpeed: `${dashboardData.weather.current.windSpeed} km/h`,
-      description: dashboardData.weather.current.description,
-    });
+  private static demonstrateNewsMerge(
+    options: DashboardOptions,
+    report: RunReport
+  ): Promise<NewsData> {
+    Logger.section('Demonstrating News Merging (Deduplicate and Rank)');
 
-    Logger.data(
-      'Latest News Headlines',
-      dashboardData.news.posts.slice(0, 3).map((post) => ({
-        title: post.title.substring(0, 60) + '...',
-        likes: post.reactions.likes,
-        views: post.views,
-      }))
-    );
-  }
+    const startTime = Date.now();
 
-  private static getWeatherDescription(temperature: number): string {
-    if (temperature < 0) return 'Very Cold ';
-    if (temperature < 10) return 'Cold ';
-    if (temperature < 20) return 'Cool ';
-    if (temperature < 30) return 'Warm ';
-    return 'Hot ';
+    return Providers.fetchAllNewsPromise(options).then((merged) => {
+      report.timing('News merge execution time', Date.now() - startTime);
+      Logger.success(
+        `Merged news from ${merged.source ?? 'no provider'} into ${merged.total} articles`
+      );
+      Logger.data(
+        'Top Ranked News',
+        merged.posts.slice(0, 3).map((post) => ({
+          title: post.title.length > 60 ? post.title.substring(0, 60) + '...' : post.title,
+          score: Math.round(NewsAggregator.score(post)),
+          source: post.source,
+        }))
+      );
+
+      return merged;
+    });
   }
 
   /**
    * Main execution method
    */
-  public static async run(): Promise<void> {
+  public static async run(options: DashboardOptions = {}): Promise<DashboardRunResult> {
     Logger.header(AsyncMethod.PROMISE);
     Logger.info('Starting Promise-based weather and news dashboard...');
 
+    const report = new RunReport(AsyncMethod.PROMISE);
+
     try {
       // Demonstrate different Promise patterns
-      const chainedData = await this.demonstratePromiseChaining();
-      this.displayDashboard(chainedData);
+      const chainedData = await this.demonstratePromiseChaining(options, report);
+      DashboardDisplay.show(chainedData);
+      report.setData(chainedData);
+
+      Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
+
+      const parallelData = await this.demonstratePromiseAll(options, report);
+      DashboardDisplay.show(parallelData);
+      report.setData(parallelData);
 
       Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
 
-      const parallelData = await this.demonstratePromiseAll();
-      this.displayDashboard(parallelData);
+      await this.demonstratePromiseRace(options, report);
 
       Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
 
-      await this.demonstratePromiseRace();
+      await this.demonstratePromiseAllSettled(options, report);
 
       Logger.separator();
+      AbortError.throwIfAborted(options.signal, 'Run cancelled');
 
-      await this.demonstratePromiseAllSettled();
+      const mergedNews = await this.demonstrateNewsMerge(options, report);
+      report.setData({ ...parallelData, news: mergedNews });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       Logger.error(`Promise dashboard failed: ${errorMessage}`);
+      report.error(error);
     } finally {
       Logger.footer(AsyncMethod.PROMISE);
     }
+
+    return report.finish();
   }
 }
 
@@ -279,8 +315,14 @@ export default PromiseDashboard;
 
 // Execute if this file is run directly
 if (require.main === module) {
-  PromiseDashboard.run().catch((error) => {
-    Logger.error(`Unhandled promise rejection: ${error.message}`);
-    process.exit(1);
-  });
+  PromiseDashboard.run(DashboardArgs.parseOrExit(process.argv.slice(2)))
+    .then((result) => {
+      if (!result.success) {
+        process.exitCode = 1;
+      }
+    })
+    .catch((error) => {
+      Logger.error(`Unhandled promise rejection: ${error.message}`);
+      process.exit(1);
+    });
 }
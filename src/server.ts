@@ -0,0 +1,457 @@
+/**
+ * Local HTTP API exposing the dashboard data through the async/await fetchers
+ * All JSON responses use the ApiResponse<T> envelope; live updates are pushed
+ * as DashboardEvent payloads over Server-Sent Events and WebSocket
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Duplex } from 'stream';
+import { URL } from 'url';
+import { Logger } from './utils/logger';
+import { CircuitBreaker } from './utils/circuitBreaker';
+import { Geocoder, DEFAULT_LOCATION } from './utils/geocoder';
+import { Units } from './utils/units';
+import {
+  ApiError,
+  CircuitOpenError,
+  HttpStatusError,
+  NotFoundError,
+  TimeoutError,
+} from './utils/errors';
+import { NewsQuery } from './utils/newsQuery';
+import { WebSocketConnection } from './utils/webSocket';
+import { LiveUpdates, LiveSubscription } from './liveUpdates';
+import AsyncAwaitDashboard from './asyncAwaitVersion';
+import {
+  ApiResponse,
+  CircuitStatus,
+  DashboardData,
+  DashboardEvent,
+  DashboardOptions,
+  LiveClientMessage,
+  LiveSource,
+  LocationQuery,
+  NewsData,
+  WeatherData,
+} from './types';
+
+export interface ServerOptions {
+  port?: number;
+  host?: string;
+  /** How often live subscriptions are refreshed, in milliseconds */
+  refreshInterval?: number;
+}
+
+/**
+ * An error with the HTTP status it should be answered with
+ */
+class RequestError extends Error {
+  public readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+type RouteHandler = (query: URLSearchParams) => Promise<unknown>;
+
+export class DashboardServer {
+  private static readonly DEFAULT_PORT = 3000;
+  private static readonly DEFAULT_HOST = '127.0.0.1';
+  private static readonly MAX_NEWS_LIMIT = 100;
+  private static readonly HEARTBEAT_INTERVAL = 15000;
+
+  private readonly server: http.Server;
+  private readonly port: number;
+  private readonly host: string;
+  private readonly startedAt = Date.now();
+  private readonly routes: Record<string, RouteHandler>;
+  private readonly live: LiveUpdates;
+  /** Closes each open SSE stream and WebSocket, so stop() does not hang */
+  private readonly connections = new Set<() => void>();
+
+  constructor(options: ServerOptions = {}) {
+    this.port = options.port ?? DashboardServer.DEFAULT_PORT;
+    this.host = options.host ?? DashboardServer.DEFAULT_HOST;
+    this.routes = {
+      '/health': () => this.health(),
+      '/weather': (query) => this.weather(query),
+      '/news': (query) => this.news(query),
+      '/dashboard': (query) => this.dashboard(query),
+    };
+    this.live = new LiveUpdates(options.refreshInterval);
+    this.server = http.createServer((req, res) => {
+      if (req.method === 'GET' && req.url?.split('?')[0] === '/events') {
+        this.handleEvents(req, res);
+      } else {
+        void this.handle(req, res);
+      }
+    });
+    this.server.on('upgrade', (req: http.IncomingMessage, socket: Duplex) =>
+      this.handleUpgrade(req, socket)
+    );
+  }
+
+  /**
+   * Start listening, resolving with the bound address
+   */
+  public start(): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off('error', reject);
+        resolve(this.server.address() as AddressInfo);
+      });
+    });
+  }
+
+  public stop(): Promise<void> {
+    for (const close of this.connections) {
+      close();
+    }
+    this.live.close();
+
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const startTime = Date.now();
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    let status = 200;
+    let body: ApiResponse<unknown>;
+
+    try {
+      const handler = this.routes[url.pathname];
+      if (!handler) {
+        throw new RequestError(404, `Not found: ${url.pathname}`);
+      }
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        throw new RequestError(405, `Method not allowed: ${req.method ?? ''}`);
+      }
+
+      body = this.envelope(true, await handler(url.searchParams));
+    } catch (error) {
+      const failure = this.failure(error);
+      status = failure.status;
+      body = this.envelope(false, undefined, failure.message);
+      if (failure.retryAfter !== undefined) {
+        res.setHeader('Retry-After', String(failure.retryAfter));
+      }
+      if (!(error instanceof RequestError || error instanceof NotFoundError)) {
+        Logger.warn(`${url.pathname} failed: ${ApiError.describe(error)}`);
+      }
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+
+    Logger.info(`${req.method ?? ''} ${url.pathname} ${status} (${Date.now() - startTime}ms)`);
+  }
+
+  /**
+   * The status and message a failed request is answered with. Upstream
+   * failures are described without their URLs, which stay in the log.
+   */
+  private failure(error: unknown): { status: number; message: string; retryAfter?: number } {
+    if (error instanceof RequestError || error instanceof NotFoundError) {
+      return { status: error.status, message: error.message };
+    }
+    if (error instanceof TimeoutError) {
+      return { status: 504, message: 'Upstream API did not answer in time' };
+    }
+    if (error instanceof CircuitOpenError) {
+      const retryAfter = Math.ceil(error.retryAfter / 1000);
+      return {
+        status: 503,
+        message: `Upstream API unavailable, retry in ${retryAfter}s`,
+        retryAfter,
+      };
+    }
+    if (error instanceof HttpStatusError) {
+      return { status: 502, message: `Upstream API answered ${error.message}` };
+    }
+    if (error instanceof ApiError) {
+      return { status: 502, message: `Upstream API request failed (${error.name})` };
+    }
+    return { status: 502, message: 'Upstream API request failed' };
+  }
+
+  /**
+   * Server-Sent Events stream for ?city= and/or ?tag=, both defaults without either
+   */
+  private handleEvents(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    const city = url.searchParams.get('city') ?? undefined;
+    const tag = url.searchParams.get('tag') ?? undefined;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (event: DashboardEvent): void => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    };
+
+    const subscriptions: LiveSubscription[] = [];
+    if (city !== undefined || tag === undefined) {
+      subscriptions.push(this.live.subscribe('weather', city, send));
+    }
+    if (tag !== undefined || city === undefined) {
+      subscriptions.push(this.live.subscribe('news', tag, send));
+    }
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(
+      () => res.write(': heartbeat\n\n'),
+      DashboardServer.HEARTBEAT_INTERVAL
+    );
+
+    const close = (): void => {
+      clearInterval(heartbeat);
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+      this.connections.delete(close);
+      res.end();
+    };
+    this.connections.add(close);
+    req.on('close', close);
+
+    Logger.info(
+      `SSE client connected: ${subscriptions.map((subscription) => subscription.topic).join(', ')}`
+    );
+  }
+
+  /**
+   * WebSocket endpoint where clients send LiveClientMessage subscribe and
+   * unsubscribe requests for cities and news tags
+   */
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex): void {
+    if (req.url?.split('?')[0] !== '/ws') {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const connection = WebSocketConnection.accept(req, socket);
+    if (!connection) {
+      return;
+    }
+
+    const subscriptions = new Map<string, LiveSubscription>();
+    const send = (event: DashboardEvent): void => connection.send(JSON.stringify(event));
+
+    connection.onMessage((text) => {
+      try {
+        const message = this.parseClientMessage(text);
+        const source: LiveSource = message.city !== undefined ? 'weather' : 'news';
+        const value = message.city ?? message.tag;
+        const topic = LiveUpdates.topicName(source, value);
+
+        if (message.action === 'subscribe') {
+          if (!subscriptions.has(topic)) {
+            subscriptions.set(topic, this.live.subscribe(source, value, send));
+          }
+        } else {
+          subscriptions.get(topic)?.unsubscribe();
+          subscriptions.delete(topic);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Invalid message';
+        send({ type: 'error', error: errorMessage, timestamp: new Date().toISOString() });
+      }
+    });
+
+    const close = (): void => connection.close(1001);
+    this.connections.add(close);
+    connection.onClose(() => {
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+      subscriptions.clear();
+      this.connections.delete(close);
+      Logger.info('WebSocket client disconnected');
+    });
+
+    Logger.info('WebSocket client connected');
+  }
+
+  private parseClientMessage(text: string): LiveClientMessage {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      throw new Error('Messages must be JSON');
+    }
+
+    const { action, city, tag } = (message ?? {}) as Record<string, unknown>;
+    if (action !== 'subscribe' && action !== 'unsubscribe') {
+      throw new Error('action must be "subscribe" or "unsubscribe"');
+    }
+    if (typeof city === 'string' && city.trim() !== '' && tag === undefined) {
+      return { action, city };
+    }
+    if (typeof tag === 'string' && tag.trim() !== '' && city === undefined) {
+      return { action, tag };
+    }
+    throw new Error('Exactly one of city or tag must be given');
+  }
+
+  private envelope<T>(success: boolean, data?: T, error?: string): ApiResponse<T> {
+    return {
+      success,
+      ...(data !== undefined ? { data } : {}),
+      ...(error !== undefined ? { error } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Reports "degraded" while any upstream host's circuit breaker is not closed
+   */
+  private health(): Promise<{
+    status: string;
+    uptime: number;
+    liveTopics: number;
+    circuits: CircuitStatus[];
+  }> {
+    const circuits = CircuitBreaker.status();
+    return Promise.resolve({
+      status: circuits.some((circuit) => circuit.state !== 'closed') ? 'degraded' : 'ok',
+      uptime: Math.round((Date.now() - this.startedAt) / 1000),
+      liveTopics: this.live.topicCount,
+      circuits,
+    });
+  }
+
+  private async weather(query: URLSearchParams): Promise<WeatherData> {
+    const options = await this.weatherOptions(query);
+    return AsyncAwaitDashboard.fetchWeather(options);
+  }
+
+  private async news(query: URLSearchParams): Promise<NewsData> {
+    return AsyncAwaitDashboard.fetchNews(this.newsOptions(query));
+  }
+
+  private async dashboard(query: URLSearchParams): Promise<DashboardData> {
+    // Invalid news parameters fail before the location is looked up
+    const newsOptions = this.newsOptions(query);
+    const options = { ...(await this.weatherOptions(query)), ...newsOptions };
+    const [weather, news] = await Promise.all([
+      AsyncAwaitDashboard.fetchWeather(options),
+      AsyncAwaitDashboard.fetchNews(options),
+    ]);
+
+    return { weather, news };
+  }
+
+  /**
+   * Validate weather query parameters and resolve the location up front, so
+   * an unknown city is reported as 404 rather than an upstream failure
+   */
+  private async weatherOptions(query: URLSearchParams): Promise<DashboardOptions> {
+    const options: DashboardOptions = {};
+    const city = query.get('city');
+    const lat = query.get('lat');
+    const lon = query.get('lon');
+
+    if (city !== null && city.trim() === '') {
+      throw new RequestError(400, 'city must not be empty');
+    }
+    if ((lat === null) !== (lon === null)) {
+      throw new RequestError(400, 'lat and lon must be given together');
+    }
+
+    let location: LocationQuery = DEFAULT_LOCATION;
+    if (city !== null) {
+      location = Geocoder.parseQuery(city);
+    } else if (lat !== null && lon !== null) {
+      location = {
+        lat: this.number('lat', lat, -90, 90),
+        lon: this.number('lon', lon, -180, 180),
+      };
+    }
+
+    const forecast = query.get('forecast');
+    if (forecast !== null) {
+      options.forecastDays = this.number('forecast', forecast, 1, 16);
+    }
+
+    const units = query.get('units');
+    if (units !== null) {
+      if (!Units.isUnitSystem(units)) {
+        throw new RequestError(400, `Unknown unit system: ${units}`);
+      }
+      options.units = units;
+    }
+
+    options.location = await Geocoder.resolvePromise(location);
+
+    return options;
+  }
+
+  private newsOptions(query: URLSearchParams): DashboardOptions {
+    const options: DashboardOptions = {};
+    const limit = query.get('limit');
+    const skip = query.get('skip');
+
+    if (limit !== null) {
+      options.newsLimit = this.integer('limit', limit, 1, DashboardServer.MAX_NEWS_LIMIT);
+    }
+    if (skip !== null) {
+      options.newsSkip = this.integer('skip', skip, 0, Number.MAX_SAFE_INTEGER);
+    }
+
+    const search = query.get('q');
+    if (search !== null && search.trim() !== '') {
+      options.newsSearch = search;
+    }
+    const tag = query.get('tag');
+    if (tag !== null && tag.trim() !== '') {
+      options.newsTag = tag;
+    }
+    const user = query.get('user');
+    if (user !== null) {
+      options.newsUserId = this.integer('user', user, 1, Number.MAX_SAFE_INTEGER);
+    }
+
+    const sort = query.get('sort');
+    if (sort !== null) {
+      if (!NewsQuery.isSortField(sort)) {
+        throw new RequestError(400, 'sort must be views, likes or recent');
+      }
+      options.newsSortBy = sort;
+    }
+    const order = query.get('order');
+    if (order !== null) {
+      if (order !== 'asc' && order !== 'desc') {
+        throw new RequestError(400, 'order must be asc or desc');
+      }
+      options.newsOrder = order;
+    }
+
+    return options;
+  }
+
+  private number(name: string, value: string, min: number, max: number): number {
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+      throw new RequestError(400, `${name} must be a number between ${min} and ${max}`);
+    }
+    return parsed;
+  }
+
+  private integer(name: string, value: string, min: number, max: number): number {
+    const parsed = this.number(name, value, min, max);
+    if (!Number.isInteger(parsed)) {
+      throw new RequestError(400, `${name} must be an integer`);
+    }
+    return parsed;
+  }
+}
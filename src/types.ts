@@ -2,20 +2,97 @@
  * Type definitions for Weather and News APIs
  */
 
+export interface GeoLocation {
+  name: string;
+  country: string;
+  lat: number;
+  lon: number;
+  timezone?: string;
+}
+
+/**
+ * A place to fetch weather for, either by name (resolved through geocoding)
+ * or by explicit coordinates
+ */
+export type LocationQuery =
+  | { city: string; country?: string }
+  | { lat: number; lon: number; name?: string; country?: string };
+
+/**
+ * Weather condition derived from a WMO weather interpretation code
+ */
+export interface WeatherCondition {
+  code: number | null;
+  description: string;
+  icon: string;
+}
+
+export interface CurrentWeather {
+  temperature: number;
+  apparentTemperature: number;
+  humidity: number;
+  windSpeed: number;
+  /** null when the source has no value */
+  precipitation: number | null;
+  /** null when the source has no value */
+  cloudCover: number | null;
+  isDay: boolean;
+  condition: WeatherCondition;
+  description: string;
+}
+
+export type TemperatureUnit = "celsius" | "fahrenheit" | "kelvin";
+export type WindSpeedUnit = "kmh" | "ms" | "mph" | "kn";
+export type PrecipitationUnit = "mm" | "inch";
+
+export interface WeatherUnits {
+  temperature: TemperatureUnit;
+  windSpeed: WindSpeedUnit;
+  precipitation: PrecipitationUnit;
+}
+
+/**
+ * Named unit presets, or individual units for finer control (e.g. knots)
+ */
+export type UnitSystem = "metric" | "imperial" | "si";
+export type UnitPreference = UnitSystem | Partial<WeatherUnits>;
+
 export interface WeatherData {
-  location: {
-    name: string;
-    country: string;
-    lat: number;
-    lon: number;
-  };
-  current: {
-    temperature: number;
-    humidity: number;
-    windSpeed: number;
-    description: string;
-  };
+  location: GeoLocation;
+  current: CurrentWeather;
+  forecast?: WeatherForecast;
+  units: WeatherUnits;
   timestamp: string;
+  /** Id of the provider that supplied the data */
+  source?: string;
+}
+
+/**
+ * Values are null where the weather model has none for that hour
+ */
+export interface HourlyForecast {
+  time: string;
+  temperature: number | null;
+  humidity: number | null;
+  precipitationProbability: number | null;
+  windSpeed: number | null;
+  condition: WeatherCondition;
+}
+
+/**
+ * Values are null where the weather model has none for that day
+ */
+export interface DailyForecast {
+  date: string;
+  temperatureMin: number | null;
+  temperatureMax: number | null;
+  precipitationSum: number | null;
+  condition: WeatherCondition;
+}
+
+export interface WeatherForecast {
+  hourly: HourlyForecast[];
+  daily: DailyForecast[];
 }
 
 export interface NewsArticle {
@@ -29,13 +106,45 @@ export interface NewsArticle {
   };
   views: number;
   userId: number;
+  /** When the article was published, for sources that say */
+  publishedAt?: string;
+  /** Id of the provider the article came from, set when results are merged */
+  source?: string;
 }
 
+export type NewsSortField = "views" | "likes" | "recent";
+export type SortOrder = "asc" | "desc";
+
 export interface NewsData {
   posts: NewsArticle[];
   total: number;
   skip: number;
   limit: number;
+  /** Id of the provider that supplied the articles */
+  source?: string;
+}
+
+/**
+ * Weights of the ranking score: likes, dislikes and views are each
+ * multiplied by their weight and summed
+ */
+export interface NewsScoreWeights {
+  likes: number;
+  dislikes: number;
+  views: number;
+}
+
+export interface NewsMergeOptions {
+  /** Score weights, defaults to likes 1, dislikes -1, views 0.1 */
+  weights?: Partial<NewsScoreWeights>;
+  /** Title similarity (0-1) from which two articles count as the same, defaults to 0.8 */
+  similarity?: number;
+  /** Keep only the best ranked articles */
+  limit?: number;
+  /** Order by views, likes or recency instead of the score */
+  sortBy?: NewsSortField;
+  /** Direction for sortBy, defaults to "desc" */
+  order?: SortOrder;
 }
 
 export interface ApiResponse<T> {
@@ -52,14 +161,363 @@ export interface DashboardData {
   news: NewsData;
 }
 
+export interface DashboardOptions {
+  location?: LocationQuery;
+  /** Include hourly (next 48h) and daily forecasts for this many days (1-16) */
+  forecastDays?: number;
+  units?: UnitPreference;
+  /** Number of news articles to request */
+  newsLimit?: number;
+  /** Number of news articles to skip, for paging */
+  newsSkip?: number;
+  /** Only request news articles with this tag */
+  newsTag?: string;
+  /** Only request news articles containing all of these words */
+  newsSearch?: string;
+  /** Only request news articles by this user */
+  newsUserId?: number;
+  /** Order news articles by views, likes or recency, otherwise as the source lists them */
+  newsSortBy?: NewsSortField;
+  /** Sort direction, defaults to "desc" (most viewed, liked or recent first) */
+  newsOrder?: SortOrder;
+  /** Cancels every request made for this run */
+  signal?: AbortSignal;
+  /** Check upstream responses against their schemas, defaults to true */
+  validate?: boolean;
+  /** Weather provider ids to try in order, defaults to the configured order */
+  weatherProviders?: string[];
+  /** News provider ids to try in order, defaults to the configured order */
+  newsProviders?: string[];
+}
+
+/**
+ * What a provider needs fetched: the URL plus any request options it
+ * requires, such as headers or a text response type
+ */
+export interface ProviderRequest {
+  url: string;
+  options?: FetchOptions;
+}
+
+/**
+ * A weather data source, e.g. Open-Meteo. Builds the request for a location
+ * and normalises the response body into WeatherData.
+ */
+export interface WeatherProvider {
+  /** Name the provider is selected by, e.g. "open-meteo" */
+  readonly id: string;
+  request(location: GeoLocation, options: DashboardOptions): ProviderRequest;
+  parse(body: unknown, location: GeoLocation, options: DashboardOptions): WeatherData;
+}
+
+/**
+ * A news data source, e.g. DummyJSON. Builds the request for the wanted
+ * page of articles and normalises the response body into NewsData.
+ */
+export interface NewsProvider {
+  /** Name the provider is selected by, e.g. "dummyjson" */
+  readonly id: string;
+  request(options: DashboardOptions): ProviderRequest;
+  parse(body: unknown, options: DashboardOptions): NewsData;
+}
+
+/**
+ * Provider ids to try in order, the first being the primary
+ */
+export interface ProviderOptions {
+  weather?: string[];
+  news?: string[];
+}
+
 export enum AsyncMethod {
   CALLBACK = "callback",
   PROMISE = "promise",
   ASYNC_AWAIT = "async/await",
 }
 
+/**
+ * Response cache activity: fresh hits, stale entries served while
+ * revalidating, network misses and requests that joined one already in flight
+ */
+export interface CacheStats {
+  hits: number;
+  stale: number;
+  misses: number;
+  coalesced: number;
+}
+
+export interface TimingEntry {
+  operation: string;
+  duration: number;
+  /** Cache activity since the previous timing of the run */
+  cache?: CacheStats;
+}
+
+export interface FallbackEntry {
+  source: "weather" | "news";
+  reason: string;
+}
+
+/**
+ * Outcome of a full dashboard demonstration run, also the document
+ * emitted per run in JSON output mode
+ */
+export interface DashboardRunResult {
+  method: AsyncMethod;
+  success: boolean;
+  startedAt: string;
+  finishedAt: string;
+  duration: number;
+  data: DashboardData | null;
+  timings: TimingEntry[];
+  fallbacks: FallbackEntry[];
+  errors: ErrorDetails[];
+  cache: CacheStats;
+  connections: ConnectionStats;
+}
+
+export type LiveSource = "weather" | "news";
+
+interface DashboardEventBase {
+  /** Subscription the event belongs to, e.g. "weather:paris" or "news:love" */
+  topic?: string;
+  timestamp: string;
+}
+
+export interface ProgressEvent extends DashboardEventBase {
+  type: "progress";
+  source?: LiveSource;
+  message: string;
+}
+
+export interface WeatherEvent extends DashboardEventBase {
+  type: "weather";
+  data: WeatherData;
+}
+
+export interface NewsEvent extends DashboardEventBase {
+  type: "news";
+  data: NewsData;
+}
+
+export interface ErrorEvent extends DashboardEventBase {
+  type: "error";
+  source?: LiveSource;
+  error: string;
+}
+
+export interface SubscriptionEvent extends DashboardEventBase {
+  type: "subscribed" | "unsubscribed";
+  topic: string;
+}
+
+/**
+ * Typed payloads pushed to live update clients over SSE and WebSocket
+ */
+export type DashboardEvent =
+  | ProgressEvent
+  | WeatherEvent
+  | NewsEvent
+  | ErrorEvent
+  | SubscriptionEvent;
+
+/**
+ * Messages a WebSocket client sends to manage its subscriptions
+ */
+export interface LiveClientMessage {
+  action: "subscribe" | "unsubscribe";
+  city?: string;
+  tag?: string;
+}
+
+/**
+ * One mismatch found while validating a value, e.g.
+ * { path: "posts[3].reactions.likes", message: "expected number, got string" }
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * An error as rendered in JSON output: its class name and message, plus
+ * structured fields such as status, url, attempts and cause
+ */
+export interface ErrorDetails {
+  name: string;
+  message: string;
+  [field: string]: unknown;
+}
+
+export type RetryJitter = "none" | "full" | "decorrelated";
+
+export interface RetryPolicyOptions {
+  /** Retries after the first attempt */
+  retries?: number;
+  /** Delay before the first retry, doubled for every further retry */
+  baseDelay?: number;
+  /** Upper bound for a single delay, also the longest Retry-After honoured */
+  maxDelay?: number;
+  jitter?: RetryJitter;
+  /** Decides whether an error is worth retrying */
+  retryable?: (error: Error) => boolean;
+}
+
+export type HttpMethod = "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * How the response body is handed back: parsed JSON (empty bodies become
+ * null), a UTF-8 string or the raw bytes
+ */
+export type ResponseType = "json" | "text" | "buffer";
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+/**
+ * Query string parameters; arrays repeat the key, null/undefined are left out
+ */
+export type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
 export interface FetchOptions {
+  /** Defaults to GET */
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  /** Appended to the URL's existing query string */
+  query?: QueryParams;
+  /** Sent as JSON */
+  json?: unknown;
+  /** Sent as application/x-www-form-urlencoded */
+  form?: Record<string, string | number | boolean>;
+  /** Sent as is; set Content-Type through headers */
+  body?: string | Buffer;
+  /** Defaults to json */
+  responseType?: ResponseType;
+  /** Ask for and decode gzip, deflate and brotli responses, defaults to true */
+  decompress?: boolean;
+  /** Largest response body accepted, in bytes after decompression (10 MB by default) */
+  maxBodySize?: number;
+  /** Redirects followed before giving up, defaults to 5 */
+  maxRedirects?: number;
+  timeout?: number;
+  /**
+   * Shorthand for retryPolicy retries, ignored when retryPolicy is given.
+   * POST and PATCH are not retried unless asked to.
+   */
+  retries?: number;
+  /** Shorthand for retryPolicy baseDelay, ignored when retryPolicy is given */
+  retryDelay?: number;
+  retryPolicy?: RetryPolicyOptions;
+  /** Aborting destroys the request and cancels pending retries */
+  signal?: AbortSignal | undefined;
+  /** Set to false to always go to the network. Only GET JSON requests are cached. */
+  cache?: boolean;
+}
+
+/**
+ * Defaults for requests that do not set their own, see HttpClient.configure
+ */
+export interface HttpClientOptions {
+  /** Milliseconds an attempt may take, defaults to 10000 */
   timeout?: number;
+  /** Retries of idempotent requests, defaults to 3 */
   retries?: number;
+  /** Base delay between retries in milliseconds, defaults to 1000 */
   retryDelay?: number;
 }
+
+/**
+ * A response with its metadata, as returned by HttpClient.request
+ */
+export interface HttpResponse<T> {
+  /** The URL finally answered, after any redirects */
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string | string[] | undefined>;
+  data: T;
+  /** Answered from the response cache, possibly after a 304 revalidation */
+  cached: boolean;
+}
+
+export interface ConnectionOptions {
+  /** Proxy URL for every request, null for none; by default HTTP_PROXY/HTTPS_PROXY */
+  proxy?: string | null;
+  /** Hosts reached without the proxy; by default NO_PROXY */
+  noProxy?: string[];
+  /** Keep sockets open for reuse, defaults to true */
+  keepAlive?: boolean;
+  /** Sockets per host and agent, defaults to 10 */
+  maxSockets?: number;
+}
+
+/**
+ * Sockets opened for requests and requests sent over an already open one
+ */
+export interface ConnectionStats {
+  created: number;
+  reused: number;
+}
+
+export interface RateLimit {
+  /** Tokens added to the host's bucket per second */
+  requestsPerSecond?: number;
+  /** Bucket size: requests that may start at once after a quiet spell */
+  burst?: number;
+  /** Requests to the host in flight at the same time */
+  maxConcurrent?: number;
+}
+
+export interface RateLimiterOptions {
+  enabled?: boolean;
+  /** Limits for hosts without their own entry */
+  defaults?: RateLimit;
+  /** Limits per host name, e.g. { "dummyjson.com": { requestsPerSecond: 2 } } */
+  hosts?: Record<string, RateLimit>;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  enabled?: boolean;
+  /** Consecutive failures that open a host's circuit */
+  failureThreshold?: number;
+  /** How long an open circuit fails fast before a trial request, in milliseconds */
+  cooldown?: number;
+}
+
+export interface CircuitStatus {
+  host: string;
+  state: CircuitState;
+  /** Consecutive failures counted so far */
+  failures: number;
+  /** When the circuit last opened, ISO timestamp */
+  openedAt?: string;
+  /** Milliseconds until an open circuit lets a trial request through */
+  retryAfter?: number;
+}
+
+/**
+ * off: use the network, record: use the network and save every exchange,
+ * replay: answer from saved exchanges only
+ */
+export type RecordMode = "off" | "record" | "replay";
+
+export interface RecorderOptions {
+  mode?: RecordMode;
+  /** Directory holding the fixture files */
+  directory?: string;
+  /** Wait as long as the recorded response took before replaying it */
+  replayLatency?: boolean;
+}
+
+export interface CacheOptions {
+  enabled?: boolean;
+  /** Time to live in milliseconds per host, e.g. { "dummyjson.com": 300000 } */
+  ttl?: Record<string, number>;
+  /** Time to live for hosts without their own entry */
+  defaultTtl?: number;
+  /** How long past its TTL an entry may be served while it is refreshed */
+  staleWhileRevalidate?: number;
+  /** Directory to persist entries in, null to keep them in memory only */
+  directory?: string | null;
+}
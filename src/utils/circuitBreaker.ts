@@ -0,0 +1,150 @@
+/**
+ * Circuit breaker used by HttpClient, tracked per upstream host
+ * After too many consecutive failures a host's circuit opens and requests
+ * to it fail fast with a CircuitOpenError. Once the cool-down has passed a
+ * single trial request is let through (half-open): success closes the
+ * circuit again, failure re-opens it for another cool-down.
+ */
+
+import { Logger } from './logger';
+import { RetryPolicy } from './retryPolicy';
+import { CircuitOpenError } from './errors';
+import { CircuitBreakerOptions, CircuitState, CircuitStatus } from '../types';
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  /** Token of the half-open trial request still running, 0 when there is none */
+  trial: number;
+}
+
+export class CircuitBreaker {
+  private static enabled = true;
+  private static failureThreshold = 5;
+  private static cooldown = 30 * 1000;
+
+  private static readonly circuits = new Map<string, Circuit>();
+  private static lastTrial = 0;
+
+  public static configure(options: CircuitBreakerOptions): void {
+    if (options.enabled !== undefined) {
+      this.enabled = options.enabled;
+    }
+    if (options.failureThreshold !== undefined) {
+      this.failureThreshold = options.failureThreshold;
+    }
+    if (options.cooldown !== undefined) {
+      this.cooldown = options.cooldown;
+    }
+  }
+
+  /**
+   * Ask to send a request to a host. Throws a CircuitOpenError while the
+   * host's circuit is open or its half-open trial is still running; url is
+   * the request's, for the error. Returns a token identifying the half-open
+   * trial, or 0 for any other request, to hand back to record().
+   */
+  public static acquire(host: string, url?: string): number {
+    const circuit = this.circuits.get(host);
+    if (!this.enabled || !circuit || circuit.state === 'closed') {
+      return 0;
+    }
+
+    const retryAfter = circuit.openedAt + this.cooldown - Date.now();
+    if (circuit.state === 'open' && retryAfter <= 0) {
+      this.transition(host, circuit, 'half-open');
+    }
+
+    if (circuit.state === 'half-open' && circuit.trial === 0) {
+      circuit.trial = ++this.lastTrial;
+      return circuit.trial;
+    }
+
+    throw new CircuitOpenError(host, Math.max(retryAfter, 0), { url });
+  }
+
+  /**
+   * Record how a request acquired for a host ended. Only failures a retry
+   * could fix count against the host: a 404 still proves it is up, and a
+   * cancelled request proves nothing either way. Only the request holding
+   * the trial token frees the half-open trial.
+   */
+  public static record(host: string, error: Error | null, trial: number = 0): void {
+    const cancelled = error?.name === 'AbortError';
+    const failed = error !== null && !cancelled && RetryPolicy.isRetryable(error);
+
+    // Hosts are only tracked once they fail, so healthy ones cost nothing
+    let circuit = this.circuits.get(host);
+    if (!circuit) {
+      if (!failed) {
+        return;
+      }
+      circuit = { state: 'closed', failures: 0, openedAt: 0, trial: 0 };
+      this.circuits.set(host, circuit);
+    }
+
+    if (trial !== 0 && circuit.trial === trial) {
+      circuit.trial = 0;
+    }
+    if (cancelled) {
+      return;
+    }
+
+    if (!failed) {
+      circuit.failures = 0;
+      if (circuit.state !== 'closed') {
+        this.transition(host, circuit, 'closed');
+      }
+      return;
+    }
+
+    circuit.failures++;
+    if (circuit.state === 'half-open' || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = Date.now();
+      this.transition(host, circuit, 'open');
+    }
+  }
+
+  /**
+   * State of every host seen failing, for health checks and status views
+   */
+  public static status(): CircuitStatus[] {
+    const now = Date.now();
+    return [...this.circuits.entries()].map(([host, circuit]) => ({
+      host,
+      state: circuit.state,
+      failures: circuit.failures,
+      ...(circuit.openedAt ? { openedAt: new Date(circuit.openedAt).toISOString() } : {}),
+      ...(circuit.state === 'open'
+        ? { retryAfter: Math.max(circuit.openedAt + this.cooldown - now, 0) }
+        : {}),
+    }));
+  }
+
+  /**
+   * Close every circuit and forget all failures
+   */
+  public static reset(): void {
+    this.circuits.clear();
+  }
+
+  private static transition(host: string, circuit: Circuit, state: CircuitState): void {
+    circuit.state = state;
+
+    switch (state) {
+      case 'open':
+        Logger.warn(
+          `Circuit for ${host} opened after ${circuit.failures} failures, ` +
+            `failing fast for ${Math.ceil(this.cooldown / 1000)}s`
+        );
+        break;
+      case 'half-open':
+        Logger.info(`Circuit for ${host} half-open, sending a trial request`);
+        break;
+      case 'closed':
+        Logger.success(`Circuit for ${host} closed, requests resume`);
+        break;
+    }
+  }
+}
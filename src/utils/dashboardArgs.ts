@@ -0,0 +1,90 @@
+/**
+ * Parses the arguments accepted when a dashboard version is run directly,
+ * e.g. `npm run async -- "Paris, France" --forecast=10 --units=imperial`
+ */
+
+import { Geocoder } from './geocoder';
+import { Logger } from './logger';
+import { Units } from './units';
+import { DashboardOptions } from '../types';
+
+/**
+ * Thrown for arguments the dashboards cannot use
+ */
+export class DashboardArgsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DashboardArgsError';
+  }
+}
+
+export class DashboardArgs {
+  private static readonly DEFAULT_FORECAST_DAYS = 7;
+  private static readonly MAX_FORECAST_DAYS = 16;
+  private static readonly EXIT_USAGE = 2;
+
+  public static parse(argv: string[]): DashboardOptions {
+    const options: DashboardOptions = {};
+
+    for (let index = 0; index < argv.length; index++) {
+      const arg = argv[index] ?? '';
+      const [flag, inlineValue] = arg.split(/=(.*)/s);
+
+      if (flag === '--forecast') {
+        // The number of days is optional, only take the next argument if it is numeric
+        const next = argv[index + 1];
+        if (inlineValue !== undefined) {
+          options.forecastDays = this.parseForecastDays(inlineValue);
+        } else if (next !== undefined && /^\d+$/.test(next)) {
+          options.forecastDays = this.parseForecastDays(next);
+          index++;
+        } else {
+          options.forecastDays = this.DEFAULT_FORECAST_DAYS;
+        }
+      } else if (flag === '--units') {
+        const units = inlineValue ?? argv[++index];
+        if (units === undefined || units.startsWith('--')) {
+          throw new DashboardArgsError('Missing value for --units');
+        }
+        if (!Units.isUnitSystem(units)) {
+          throw new DashboardArgsError(`Unknown unit system: ${units} (metric, imperial or si)`);
+        }
+        options.units = units;
+      } else if (!arg.startsWith('--')) {
+        options.location = Geocoder.parseQuery(arg);
+      }
+    }
+
+    return options;
+  }
+
+  /**
+   * Parse the process arguments, or report why they cannot be used and exit
+   */
+  public static parseOrExit(argv: string[]): DashboardOptions {
+    try {
+      return this.parse(argv);
+    } catch (error) {
+      if (error instanceof DashboardArgsError) {
+        Logger.error(error.message);
+        process.exit(this.EXIT_USAGE);
+      }
+      throw error;
+    }
+  }
+
+  private static parseForecastDays(value: string): number {
+    const days = Number(value);
+    if (
+      value.trim() === '' ||
+      !Number.isInteger(days) ||
+      days < 1 ||
+      days > this.MAX_FORECAST_DAYS
+    ) {
+      throw new DashboardArgsError(
+        `--forecast must be a whole number of days from 1 to ${this.MAX_FORECAST_DAYS}, got ${value}`
+      );
+    }
+    return days;
+  }
+}
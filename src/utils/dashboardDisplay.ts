@@ -0,0 +1,74 @@
+/**
+ * Console output for dashboard data, shared by the three implementations
+ * and the CLI so they all show the same fields
+ */
+
+import { Logger } from './logger';
+import { ForecastTable } from './forecastTable';
+import { Units } from './units';
+import { DashboardData, NewsData, WeatherData } from '../types';
+
+export class DashboardDisplay {
+  private static readonly HEADLINES = 3;
+  private static readonly TITLE_LENGTH = 60;
+
+  /**
+   * Display the weather and the first few headlines
+   */
+  public static show(data: DashboardData): void {
+    Logger.section('Dashboard Data');
+
+    this.weather(data.weather);
+    this.news(data.news);
+  }
+
+  /**
+   * Display current conditions and, when requested, the forecast tables
+   */
+  public static weather(weather: WeatherData): void {
+    Logger.data('Weather', {
+      location: `${weather.location.name}, ${weather.location.country}`,
+      temperature: Units.formatTemperature(weather.current.temperature, weather.units),
+      feelsLike: Units.formatTemperature(weather.current.apparentTemperature, weather.units),
+      humidity: Units.formatPercent(weather.current.humidity),
+      windSpeed: Units.formatWindSpeed(weather.current.windSpeed, weather.units),
+      precipitation: Units.formatPrecipitation(weather.current.precipitation, weather.units),
+      cloudCover: Units.formatPercent(weather.current.cloudCover),
+      description: weather.current.description,
+      icon: weather.current.condition.icon,
+    });
+
+    if (weather.forecast) {
+      ForecastTable.display(weather.forecast, weather.units);
+    }
+  }
+
+  /**
+   * Display the first `count` headlines
+   */
+  public static news(news: NewsData, count: number = this.HEADLINES): void {
+    Logger.data('Latest News Headlines', this.headlines(news, count));
+  }
+
+  /**
+   * The rows shown for the first `count` posts, with the source they came
+   * from when the news was merged from several providers
+   */
+  public static headlines(
+    news: NewsData,
+    count: number = this.HEADLINES
+  ): Array<Record<string, string | number>> {
+    return news.posts.slice(0, count).map((post) => {
+      const source = post.source ?? news.source;
+      return {
+        title:
+          post.title.length > this.TITLE_LENGTH
+            ? post.title.substring(0, this.TITLE_LENGTH) + '...'
+            : post.title,
+        likes: post.reactions.likes,
+        views: post.views,
+        ...(source ? { source } : {}),
+      };
+    });
+  }
+}
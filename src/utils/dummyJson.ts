@@ -0,0 +1,126 @@
+/**
+ * Helpers for building DummyJSON posts requests and validating the
+ * posts response. The class is also the "dummyjson" news provider.
+ */
+
+import { Schema } from './schema';
+import { NewsQuery } from './newsQuery';
+import { DashboardOptions, NewsData, ProviderRequest } from '../types';
+
+const postsSchema = Schema.object({
+  posts: Schema.array(
+    Schema.object({
+      id: Schema.number(),
+      title: Schema.string(),
+      body: Schema.string(),
+      tags: Schema.array(Schema.string()),
+      reactions: Schema.object({
+        likes: Schema.number(),
+        dislikes: Schema.number(),
+      }),
+      views: Schema.number(),
+      userId: Schema.number(),
+    })
+  ),
+  total: Schema.number(),
+  skip: Schema.number(),
+  limit: Schema.number(),
+});
+
+/**
+ * The envelope alone, still checked when validation is turned off
+ */
+const postsShapeSchema = Schema.object({
+  posts: Schema.array(Schema.object({})),
+  total: Schema.number(),
+  skip: Schema.number(),
+  limit: Schema.number(),
+});
+
+export class DummyJson {
+  public static readonly id = 'dummyjson';
+
+  private static readonly DEFAULT_POSTS_API_URL = 'https://dummyjson.com/posts';
+
+  private static baseUrl = process.env.DUMMYJSON_API_URL ?? DummyJson.DEFAULT_POSTS_API_URL;
+
+  /**
+   * Point the provider at a different DummyJSON compatible posts endpoint
+   */
+  public static setBaseUrl(url: string): void {
+    this.baseUrl = url;
+  }
+
+  /**
+   * Build the posts URL for the requested articles. DummyJSON filters by
+   * one of search, tag or user at a time and sorts by plain fields only, so
+   * other queries fetch every match and leave the rest to NewsQuery.
+   */
+  public static buildPostsUrl(options: DashboardOptions = {}): string {
+    const serverSide = this.isServerSide(options);
+    const params = new URLSearchParams({
+      // 0 asks for every matching post
+      limit: serverSide ? String(options.newsLimit ?? NewsQuery.DEFAULT_LIMIT) : '0',
+    });
+
+    if (serverSide && options.newsSkip) {
+      params.set('skip', String(options.newsSkip));
+    }
+    if (serverSide && options.newsSortBy) {
+      // Posts carry no dates, newer ones have higher ids
+      params.set('sortBy', options.newsSortBy === 'recent' ? 'id' : options.newsSortBy);
+      params.set('order', options.newsOrder ?? 'desc');
+    }
+
+    let base = this.baseUrl;
+    if (options.newsSearch) {
+      base += '/search';
+      params.set('q', options.newsSearch);
+    } else if (options.newsTag) {
+      base += `/tag/${encodeURIComponent(options.newsTag)}`;
+    } else if (options.newsUserId !== undefined) {
+      base += `/user/${options.newsUserId}`;
+    }
+
+    return `${base}?${params}`;
+  }
+
+  /**
+   * URL of a single post on the configured posts endpoint
+   */
+  public static buildPostUrl(id: number): string {
+    return `${this.baseUrl}/${id}`;
+  }
+
+  public static request(options: DashboardOptions = {}): ProviderRequest {
+    return { url: this.buildPostsUrl(options) };
+  }
+
+  /**
+   * Check a posts response and apply whatever part of the query the API
+   * did not handle
+   */
+  public static parse(data: unknown, options: DashboardOptions = {}): NewsData {
+    const posts = this.parsePosts(data, options);
+    return this.isServerSide(options) ? posts : NewsQuery.apply(posts.posts, options);
+  }
+
+  /**
+   * Check a raw posts response. With validation turned off only its shape
+   * is checked, and the posts are taken as they are.
+   */
+  public static parsePosts(data: unknown, options: DashboardOptions = {}): NewsData {
+    return options.validate === false
+      ? (Schema.validate(postsShapeSchema, data, 'DummyJSON posts') as NewsData)
+      : Schema.validate(postsSchema, data, 'DummyJSON posts');
+  }
+
+  /**
+   * Whether DummyJSON can answer the query by itself: one filter without
+   * sorting, or sorting the full list by views or recency
+   */
+  private static isServerSide(options: DashboardOptions): boolean {
+    const filters = NewsQuery.filterCount(options);
+    return filters === 0 ? options.newsSortBy !== 'likes' : filters === 1 && !options.newsSortBy;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Errors raised by HttpClient, its circuit breaker, response validation
+ * and cancelled operations. Upstream failures are ApiErrors, which keep
+ * the URL, the number of attempts and the underlying cause.
+ */
+
+import { ErrorDetails, ValidationIssue } from '../types';
+
+/**
+ * Where an ApiError happened and what caused it
+ */
+export interface ErrorContext {
+  url?: string | undefined;
+  cause?: Error | undefined;
+}
+
+/**
+ * Talking to an upstream API failed
+ */
+export class ApiError extends Error {
+  /** The URL requested, after any redirects */
+  public readonly url: string | undefined;
+  public readonly cause: Error | undefined;
+  /** Requests sent before giving up, filled in by HttpClient */
+  public attempts: number | undefined;
+
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.url = context.url;
+    this.cause = context.cause;
+    this.attempts = undefined;
+  }
+
+  /**
+   * Name, message and every structured field, for JSON output
+   */
+  public toJSON(): ErrorDetails {
+    const { cause, ...fields } = this as Record<string, unknown>;
+    return {
+      name: this.name,
+      message: this.message,
+      ...fields,
+      ...(cause instanceof Error ? { cause: ApiError.details(cause) } : {}),
+    };
+  }
+
+  /**
+   * Any thrown value as JSON output, structured fields included for ApiErrors
+   */
+  public static details(error: unknown): ErrorDetails {
+    if (error instanceof ApiError) {
+      return error.toJSON();
+    }
+    if (error instanceof Error) {
+      return { name: error.name, message: error.message };
+    }
+    return { name: 'Error', message: String(error) };
+  }
+
+  /**
+   * Any thrown value as one line of text, e.g.
+   * "HttpStatusError: HTTP 503: Service Unavailable (https://..., 4 attempts)"
+   */
+  public static describe(error: unknown): string {
+    if (!(error instanceof ApiError)) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    const context = [
+      ...(error.url ? [error.url] : []),
+      ...(error.attempts ? [`${error.attempts} attempt${error.attempts === 1 ? '' : 's'}`] : []),
+    ];
+    return `${error.name}: ${error.message}${context.length > 0 ? ` (${context.join(', ')})` : ''}`;
+  }
+}
+
+/**
+ * The server answered with a status outside 2xx
+ */
+export class HttpStatusError extends ApiError {
+  public readonly status: number;
+  public readonly statusText: string;
+  /** Milliseconds the server asked us to wait, from a Retry-After header */
+  public readonly retryAfter: number | undefined;
+
+  constructor(status: number, statusText: string, retryAfter?: number, context?: ErrorContext) {
+    super(`HTTP ${status}: ${statusText}`, context);
+    this.name = 'HttpStatusError';
+    this.status = status;
+    this.statusText = statusText;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * No response arrived within the request timeout
+ */
+export class TimeoutError extends ApiError {
+  public readonly timeout: number;
+
+  constructor(timeout: number, context?: ErrorContext) {
+    super(`Request timeout after ${timeout}ms`, context);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The connection failed or broke off, e.g. ECONNREFUSED or ECONNRESET
+ */
+export class NetworkError extends ApiError {
+  /** The system error code, when there is one */
+  public readonly code: string | undefined;
+
+  constructor(cause: Error, context: ErrorContext = {}) {
+    super(cause.message, { ...context, cause });
+    this.name = 'NetworkError';
+    this.code = (cause as NodeJS.ErrnoException).code;
+  }
+}
+
+/**
+ * The response body could not be decoded, e.g. invalid JSON
+ */
+export class ParseError extends ApiError {
+  constructor(message: string, context?: ErrorContext) {
+    super(message, context);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * A response did not have the expected shape
+ */
+export class ValidationError extends ApiError {
+  /** What was validated, e.g. "DummyJSON posts" */
+  public readonly source: string;
+  public readonly issues: ValidationIssue[];
+
+  constructor(source: string, issues: ValidationIssue[], context?: ErrorContext) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(
+      `Invalid ${source}: ${first ? `${first.path}: ${first.message}` : 'unknown issue'}${more}`,
+      context
+    );
+    this.name = 'ValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/**
+ * The API answered, but had nothing matching the query
+ */
+export class NotFoundError extends ApiError {
+  public readonly status = 404;
+  /** What was not found, e.g. "LOCATION_NOT_FOUND" */
+  public readonly code: string;
+
+  constructor(message: string, code: string, context?: ErrorContext) {
+    super(message, context);
+    this.name = 'NotFoundError';
+    this.code = code;
+  }
+}
+
+/**
+ * The response body grew past the allowed size and the download was aborted
+ */
+export class ResponseTooLargeError extends ApiError {
+  public readonly limit: number;
+
+  constructor(limit: number, context?: ErrorContext) {
+    super(`Response body exceeds the limit of ${limit} bytes`, context);
+    this.name = 'ResponseTooLargeError';
+    this.limit = limit;
+  }
+}
+
+/**
+ * The server kept redirecting past the allowed number of redirects
+ */
+export class TooManyRedirectsError extends ApiError {
+  public readonly maxRedirects: number;
+
+  constructor(maxRedirects: number, context?: ErrorContext) {
+    super(`Too many redirects (more than ${maxRedirects})`, context);
+    this.name = 'TooManyRedirectsError';
+    this.maxRedirects = maxRedirects;
+  }
+}
+
+/**
+ * The host's circuit breaker is open, so the request was not sent
+ */
+export class CircuitOpenError extends ApiError {
+  public readonly host: string;
+  /** Milliseconds until the breaker lets a trial request through */
+  public readonly retryAfter: number;
+
+  constructor(host: string, retryAfter: number, context?: ErrorContext) {
+    super(`Circuit open for ${host}, retry in ${Math.ceil(retryAfter / 1000)}s`, context);
+    this.name = 'CircuitOpenError';
+    this.host = host;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Replay mode found no recorded response for the request
+ */
+export class FixtureNotFoundError extends ApiError {
+  public readonly method: string;
+  /** The fixture file that was looked for */
+  public readonly fixture: string;
+
+  constructor(method: string, url: string, fixture: string) {
+    super(`No recorded response for ${method} ${url} (expected in ${fixture})`, { url });
+    this.name = 'FixtureNotFoundError';
+    this.method = method;
+    this.fixture = fixture;
+  }
+}
+
+/**
+ * The operation was cancelled through its AbortSignal
+ */
+export class AbortError extends Error {
+  /** Requests sent before the cancellation, when it stopped a retrying request */
+  public attempts: number | undefined;
+
+  constructor(message: string = 'Request aborted') {
+    super(message);
+    this.name = 'AbortError';
+    this.attempts = undefined;
+  }
+
+  public static throwIfAborted(signal: AbortSignal | undefined, message?: string): void {
+    if (signal?.aborted) {
+      throw new AbortError(message);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Compact table rendering for hourly and daily forecasts
+ */
+
+import { Logger } from './logger';
+import { Units } from './units';
+import { WeatherForecast, WeatherUnits } from '../types';
+
+export class ForecastTable {
+  // 48 hourly rows are too much for a console dashboard, sample every few hours
+  private static readonly HOURLY_STEP = 6;
+
+  public static display(forecast: WeatherForecast, units: WeatherUnits): void {
+    const hourlyRows = forecast.hourly
+      .filter((_, index) => index % this.HOURLY_STEP === 0)
+      .map((hour) => [
+        hour.time.replace('T', ' '),
+        Units.formatTemperature(hour.temperature, units),
+        Units.formatPercent(hour.humidity),
+        Units.formatPercent(hour.precipitationProbability),
+        Units.formatWindSpeed(hour.windSpeed, units),
+        hour.condition.description,
+      ]);
+
+    if (hourlyRows.length > 0) {
+      Logger.table(
+        `Hourly Forecast (next ${forecast.hourly.length}h)`,
+        ['Time', 'Temp', 'Humidity', 'Precip', 'Wind', 'Conditions'],
+        hourlyRows
+      );
+    }
+
+    const dailyRows = forecast.daily.map((day) => [
+      day.date,
+      Units.formatTemperature(day.temperatureMin, units),
+      Units.formatTemperature(day.temperatureMax, units),
+      Units.formatPrecipitation(day.precipitationSum, units),
+      day.condition.description,
+    ]);
+
+    if (dailyRows.length > 0) {
+      Logger.table(
+        `Daily Forecast (${forecast.daily.length} days)`,
+        ['Date', 'Min', 'Max', 'Precip', 'Conditions'],
+        dailyRows
+      );
+    }
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Geocoding utility for resolving place names to coordinates
+ * Uses an Open-Meteo style geocoding endpoint and caches resolved places
+ */
+
+import { HttpClient } from './httpClient';
+import { ErrorContext, NotFoundError } from './errors';
+import { CallbackFunction, FetchOptions, GeoLocation, LocationQuery } from '../types';
+
+interface GeocodingResult {
+  name: string;
+  latitude: number;
+  longitude: number;
+  country?: string;
+  country_code?: string;
+  timezone?: string;
+}
+
+interface GeocodingResponse {
+  results?: GeocodingResult[];
+}
+
+/**
+ * The geocoding API answered, but had no place matching the query
+ */
+export class LocationNotFoundError extends NotFoundError {
+  /** The city that was looked up */
+  public readonly query: string;
+
+  constructor(query: string, context?: ErrorContext) {
+    super(`Location not found: ${query}`, 'LOCATION_NOT_FOUND', context);
+    this.name = 'LocationNotFoundError';
+    this.query = query;
+  }
+}
+
+export const DEFAULT_LOCATION: LocationQuery = {
+  name: 'Berlin',
+  country: 'Germany',
+  lat: 52.52,
+  lon: 13.41,
+};
+
+export class Geocoder {
+  private static readonly DEFAULT_GEOCODING_API_URL =
+    'https://geocoding-api.open-meteo.com/v1/search';
+
+  private static baseUrl = process.env.GEOCODING_API_URL ?? Geocoder.DEFAULT_GEOCODING_API_URL;
+  private static readonly cache = new Map<string, GeoLocation>();
+
+  /**
+   * Point the geocoder at a different Open-Meteo compatible endpoint
+   */
+  public static setBaseUrl(url: string): void {
+    this.baseUrl = url;
+    this.cache.clear();
+  }
+
+  public static clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Parse a command line style location: "lat,lon" or a city name,
+   * optionally followed by ", country"
+   */
+  public static parseQuery(input: string): LocationQuery {
+    const coordinates = input.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+    if (coordinates) {
+      return { lat: Number(coordinates[1]), lon: Number(coordinates[2]) };
+    }
+
+    const [city = '', country] = input.split(',').map((part) => part.trim());
+    return country ? { city, country } : { city };
+  }
+
+  /**
+   * The place a query stands for without asking the API: coordinates as
+   * given, or a city resolved earlier
+   */
+  public static lookup(query: LocationQuery): GeoLocation | undefined {
+    return 'lat' in query
+      ? this.fromCoordinates(query)
+      : this.cache.get(this.cacheKey(query.city, query.country));
+  }
+
+  /**
+   * Resolve a location query to coordinates using callbacks
+   */
+  public static resolve(
+    query: LocationQuery,
+    callback: CallbackFunction<GeoLocation>,
+    options: FetchOptions = {}
+  ): void {
+    if ('lat' in query) {
+      const location = this.fromCoordinates(query);
+      process.nextTick(() => callback(null, location));
+      return;
+    }
+
+    const cacheKey = this.cacheKey(query.city, query.country);
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      process.nextTick(() => callback(null, cached));
+      return;
+    }
+
+    const params = new URLSearchParams({
+      name: query.city,
+      count: query.country ? '10' : '1',
+      language: 'en',
+      format: 'json',
+    });
+
+    const url = `${this.baseUrl}?${params}`;
+    HttpClient.makeRequest<GeocodingResponse>(
+      url,
+      (error, data) => {
+        if (error) {
+          callback(error);
+          return;
+        }
+
+        const match = this.pickResult(data?.results ?? [], query.country);
+        if (!match) {
+          callback(new LocationNotFoundError(query.city, { url }));
+          return;
+        }
+
+        const location: GeoLocation = {
+          name: match.name,
+          country: match.country ?? match.country_code ?? '',
+          lat: match.latitude,
+          lon: match.longitude,
+          ...(match.timezone ? { timezone: match.timezone } : {}),
+        };
+
+        this.cache.set(cacheKey, location);
+        callback(null, location);
+      },
+      options
+    );
+  }
+
+  /**
+   * Resolve a location query to coordinates using Promises
+   */
+  public static resolvePromise(
+    query: LocationQuery,
+    options: FetchOptions = {}
+  ): Promise<GeoLocation> {
+    return new Promise((resolve, reject) => {
+      this.resolve(
+        query,
+        (error, location) => {
+          if (error) {
+            reject(error);
+          } else if (location) {
+            resolve(location);
+          } else {
+            reject(new Error('No location resolved'));
+          }
+        },
+        options
+      );
+    });
+  }
+
+  private static fromCoordinates(query: Extract<LocationQuery, { lat: number }>): GeoLocation {
+    return {
+      name: query.name ?? `${query.lat}, ${query.lon}`,
+      country: query.country ?? '',
+      lat: query.lat,
+      lon: query.lon,
+    };
+  }
+
+  private static pickResult(
+    results: GeocodingResult[],
+    country?: string
+  ): GeocodingResult | undefined {
+    if (!country) {
+      return results[0];
+    }
+
+    const wanted = country.toLowerCase();
+    return results.find(
+      (result) =>
+        result.country?.toLowerCase() === wanted || result.country_code?.toLowerCase() === wanted
+    );
+  }
+
+  private static cacheKey(city: string, country?: string): string {
+    return `${city.trim().toLowerCase()}|${country?.trim().toLowerCase() ?? ''}`;
+  }
+}
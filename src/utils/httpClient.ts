@@ -1,17 +1,117 @@
 /**
  * HTTP Client utility for making requests
- * Supports both callback and promise-based approaches
+ * Supports both callback and promise-based approaches, any method with JSON,
+ * form or raw bodies, and JSON, text or binary responses. Compressed
+ * responses are decompressed and redirects followed. Traffic can be
+ * recorded to, or replayed from, fixture files (see HttpRecorder).
  */
 
-import * as https from "https";
 import * as http from "http";
+import * as zlib from "zlib";
+import { Readable } from "stream";
 import { URL } from "url";
-import { CallbackFunction, FetchOptions } from "../types";
+import { TextDecoder } from "util";
+import { CacheEntry, ResponseCache } from "./responseCache";
+import { RetryPolicy } from "./retryPolicy";
+import { CircuitBreaker } from "./circuitBreaker";
+import { RateLimiter } from "./rateLimiter";
+import { ConnectionPool } from "./connectionPool";
+import { HttpRecorder } from "./httpRecorder";
+import { Logger } from "./logger";
+import {
+  AbortError,
+  ApiError,
+  HttpStatusError,
+  NetworkError,
+  ParseError,
+  ResponseTooLargeError,
+  TimeoutError,
+  TooManyRedirectsError,
+} from "./errors";
+import {
+  CacheStats,
+  CallbackFunction,
+  FetchOptions,
+  HttpClientOptions,
+  HttpMethod,
+  HttpResponse,
+  QueryParams,
+  ResponseType,
+} from "../types";
+
+interface RequestSpec {
+  url: string;
+  method: HttpMethod;
+  headers: http.OutgoingHttpHeaders;
+  body: Buffer | undefined;
+  timeout: number;
+  policy: RetryPolicy;
+  signal: AbortSignal | undefined;
+  decompress: boolean;
+  maxBodySize: number;
+  maxRedirects: number;
+  /** Redirects followed so far */
+  redirects: number;
+}
+
+/**
+ * A request shared by everyone who asked for the same URL while it runs.
+ * It is aborted once every caller has aborted.
+ */
+interface InFlightRequest {
+  callbacks: CallbackFunction<RawResponse>[];
+  controller: AbortController;
+}
+
+interface RawResponse {
+  /** Where the response came from, after any redirects */
+  url: string;
+  status: number;
+  statusText: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+  cached?: boolean;
+}
 
 export class HttpClient {
   private static readonly DEFAULT_TIMEOUT = 10000;
   private static readonly DEFAULT_RETRIES = 3;
   private static readonly DEFAULT_RETRY_DELAY = 1000;
+  private static readonly DEFAULT_MAX_REDIRECTS = 5;
+  private static readonly DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+  private static readonly REDIRECT_STATUSES = new Set([
+    301, 302, 303, 307, 308,
+  ]);
+  /** Methods that may be repeated safely, and so are retried by default */
+  private static readonly IDEMPOTENT_METHODS = new Set<HttpMethod>([
+    "GET",
+    "HEAD",
+    "PUT",
+    "DELETE",
+  ]);
+
+  private static timeout = HttpClient.DEFAULT_TIMEOUT;
+  private static retries = HttpClient.DEFAULT_RETRIES;
+  private static retryDelay = HttpClient.DEFAULT_RETRY_DELAY;
+
+  /** Requests in flight for the response cache, by cache key */
+  private static readonly inFlight = new Map<string, InFlightRequest>();
+
+  /**
+   * Change the defaults used by requests that do not set their own, e.g.
+   * shorter timeouts and retry delays in tests
+   */
+  public static configure(options: HttpClientOptions): void {
+    if (options.timeout !== undefined) {
+      this.timeout = options.timeout;
+    }
+    if (options.retries !== undefined) {
+      this.retries = options.retries;
+    }
+    if (options.retryDelay !== undefined) {
+      this.retryDelay = options.retryDelay;
+    }
+  }
 
   /**
    * Make HTTP request using callbacks (demonstrating callback hell)
@@ -21,83 +121,729 @@ export class HttpClient {
     callback: CallbackFunction<T>,
     options: FetchOptions = {}
   ): void {
-    const { timeout = this.DEFAULT_TIMEOUT, retries = this.DEFAULT_RETRIES } =
-      options;
-
-    this.attemptRequest(url, callback, timeout, retries);
+    this.request<T>(
+      url,
+      (error, response) => {
+        if (error || !response) {
+          callback(error ?? new Error("No data received"));
+        } else {
+          callback(null, response.data);
+        }
+      },
+      options
+    );
   }
 
-  private static attemptRequest<T>(
+  /**
+   * Make HTTP request using callbacks, answering with the parsed body
+   * together with the status and headers
+   */
+  public static request<T>(
     url: string,
-    callback: CallbackFunction<T>,
-    timeout: number,
-    retriesLeft: number
+    callback: CallbackFunction<HttpResponse<T>>,
+    options: FetchOptions = {}
   ): void {
+    const {
+      method = "GET",
+      responseType = "json",
+      timeout = this.timeout,
+      cache = true,
+      signal,
+      decompress = true,
+      maxBodySize = this.DEFAULT_MAX_BODY_SIZE,
+      maxRedirects = this.DEFAULT_MAX_REDIRECTS,
+    } = options;
+
+    let request: RequestSpec;
+    try {
+      const { headers, body } = this.encodeBody(options);
+      if (decompress && !this.hasHeader(headers, "accept-encoding")) {
+        headers["Accept-Encoding"] = "gzip, deflate, br";
+      }
+      request = {
+        url: this.buildUrl(url, options.query),
+        method,
+        headers,
+        body,
+        timeout,
+        policy: this.retryPolicy(options),
+        signal,
+        decompress,
+        maxBodySize,
+        maxRedirects,
+        redirects: 0,
+      };
+    } catch (error) {
+      process.nextTick(() =>
+        callback(error instanceof Error ? error : new Error("Invalid request"))
+      );
+      return;
+    }
+
+    const parse: CallbackFunction<RawResponse> = (error, response) => {
+      if (error || !response) {
+        callback(error ?? new Error("No data received"));
+        return;
+      }
+      try {
+        callback(null, {
+          url: response.url,
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+          data: this.decode<T>(response, responseType),
+          cached: response.cached ?? false,
+        });
+      } catch (parseError) {
+        const cause = parseError instanceof Error ? parseError : undefined;
+        callback(
+          new ParseError(
+            `Response is not valid JSON${cause ? `: ${cause.message}` : ""}`,
+            { url: response.url, cause }
+          )
+        );
+      }
+    };
+
+    if (signal?.aborted) {
+      process.nextTick(() => callback(new AbortError()));
+      return;
+    }
+
+    // Only plain GETs of JSON go through the response cache, and recordings
+    // should capture every request
+    const cacheable =
+      cache &&
+      ResponseCache.isEnabled() &&
+      !HttpRecorder.isRecording() &&
+      method === "GET" &&
+      responseType === "json" &&
+      request.body === undefined;
+
+    if (!cacheable) {
+      this.attemptRequest(request, parse);
+      return;
+    }
+
+    // Entries persisted by an earlier run are read from disk first
+    void ResponseCache.load(request).then(() => {
+      if (request.signal?.aborted) {
+        parse(new AbortError());
+        return;
+      }
+
+      const key = ResponseCache.key(request);
+      const cached = ResponseCache.lookup(key);
+      if (cached && cached.state !== "expired") {
+        ResponseCache.record(cached.state === "fresh" ? "hits" : "stale");
+        parse(null, this.fromCache(cached.entry));
+
+        // Stale-while-revalidate: answer from the cache, refresh in the background
+        if (cached.state === "stale") {
+          this.fetchShared(
+            { ...request, signal: undefined },
+            () => undefined,
+            false
+          );
+        }
+        return;
+      }
+
+      if (this.inFlight.has(key)) {
+        ResponseCache.record("coalesced");
+      }
+      this.fetchShared(request, parse, true);
+    });
+  }
+
+  /**
+   * Append query parameters to a URL. Arrays repeat the key, null and
+   * undefined values are left out.
+   */
+  public static buildUrl(url: string, query?: QueryParams): string {
+    if (!query) {
+      return url;
+    }
     const parsedUrl = new URL(url);
-    const client = parsedUrl.protocol === "https:" ? https : http;
+    for (const [key, value] of Object.entries(query)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== null && item !== undefined) {
+          parsedUrl.searchParams.append(key, String(item));
+        }
+      }
+    }
+    return parsedUrl.toString();
+  }
+
+  /**
+   * Request headers and body bytes for the json, form or raw body option
+   */
+  private static encodeBody(options: FetchOptions): {
+    headers: http.OutgoingHttpHeaders;
+    body: Buffer | undefined;
+  } {
+    const headers: http.OutgoingHttpHeaders = { ...options.headers };
+
+    let body: Buffer | undefined;
+    let contentType: string | undefined;
+    if (options.json !== undefined) {
+      body = Buffer.from(JSON.stringify(options.json), "utf8");
+      contentType = "application/json; charset=utf-8";
+    } else if (options.form !== undefined) {
+      const form = new URLSearchParams();
+      for (const [key, value] of Object.entries(options.form)) {
+        form.append(key, String(value));
+      }
+      body = Buffer.from(form.toString(), "utf8");
+      contentType = "application/x-www-form-urlencoded";
+    } else if (options.body !== undefined) {
+      body = Buffer.isBuffer(options.body)
+        ? options.body
+        : Buffer.from(options.body, "utf8");
+    }
+
+    if (contentType && !this.hasHeader(headers, "content-type")) {
+      headers["Content-Type"] = contentType;
+    }
+    if (body) {
+      headers["Content-Length"] = body.length;
+    }
+    return { headers, body };
+  }
+
+  private static hasHeader(
+    headers: http.OutgoingHttpHeaders,
+    name: string
+  ): boolean {
+    return Object.keys(headers).some((key) => key.toLowerCase() === name);
+  }
+
+  /**
+   * Turn a response body into the requested response type
+   */
+  private static decode<T>(
+    response: RawResponse,
+    responseType: ResponseType
+  ): T {
+    switch (responseType) {
+      case "buffer":
+        return response.body as T;
+      case "text":
+        return this.text(response) as T;
+      case "json": {
+        const text = this.text(response);
+        return (text.trim() === "" ? null : JSON.parse(text)) as T;
+      }
+    }
+  }
+
+  /**
+   * Decode a body with the charset named in its Content-Type, UTF-8 when
+   * there is none or it is unknown. Cached bodies are stored decoded.
+   */
+  private static text(response: RawResponse): string {
+    const contentType = String(response.headers["content-type"] ?? "");
+    const charset = response.cached
+      ? undefined
+      : /charset="?([^;"\s]+)/i.exec(contentType)?.[1];
+
+    try {
+      return new TextDecoder(charset ?? "utf-8").decode(response.body);
+    } catch {
+      return new TextDecoder("utf-8").decode(response.body);
+    }
+  }
 
-    const req = client.get(url, { timeout }, (res) => {
-      let data = "";
+  private static fromCache(entry: CacheEntry): RawResponse {
+    return {
+      url: entry.url,
+      status: 200,
+      statusText: "OK",
+      headers: entry.headers ?? {},
+      body: Buffer.from(entry.body, "utf8"),
+      cached: true,
+    };
+  }
+
+  /**
+   * The retry policy for a request: an explicit policy, or one built from
+   * the retries/retryDelay shorthands. POST and PATCH are only retried when
+   * asked to, as repeating them may duplicate what they do.
+   */
+  private static retryPolicy(options: FetchOptions): RetryPolicy {
+    if (options.retryPolicy) {
+      return RetryPolicy.from(options.retryPolicy);
+    }
+    const idempotent = this.IDEMPOTENT_METHODS.has(options.method ?? "GET");
+    return new RetryPolicy({
+      retries: options.retries ?? (idempotent ? this.retries : 0),
+      baseDelay: options.retryDelay ?? this.retryDelay,
+    });
+  }
+
+  /**
+   * Fetch a URL once for every caller asking for it while the request is in
+   * flight. Revalidates a cached entry with If-None-Match/If-Modified-Since,
+   * answering a 304 from the cache, and stores successful JSON responses.
+   */
+  private static fetchShared(
+    request: RequestSpec,
+    callback: CallbackFunction<RawResponse>,
+    recordOutcome: boolean
+  ): void {
+    const key = ResponseCache.key(request);
+    const waiting = this.inFlight.get(key);
+    if (waiting) {
+      this.join(waiting, callback, request.signal);
+      return;
+    }
+
+    const cached = ResponseCache.lookup(key)?.entry;
+    const headers = cached ? ResponseCache.validators(cached) : {};
+    const shared: InFlightRequest = {
+      callbacks: [],
+      controller: new AbortController(),
+    };
+
+    this.inFlight.set(key, shared);
+    this.join(shared, callback, request.signal);
+
+    const sharedRequest = {
+      ...request,
+      headers: { ...request.headers, ...headers },
+      signal: shared.controller.signal,
+    };
+    this.attemptRequest(sharedRequest, (error, response) => {
+      const callbacks = shared.callbacks;
+      this.inFlight.delete(key);
+
+      let result = response;
+      if (response?.status === 304 && cached) {
+        ResponseCache.revalidate(cached, response.headers);
+        result = this.fromCache(
+          ResponseCache.lookup(ResponseCache.key(request))?.entry ?? cached
+        );
+      } else if (response && this.isJson(response)) {
+        ResponseCache.store(request, this.text(response), response.headers);
+      }
+
+      if (recordOutcome) {
+        ResponseCache.record(response?.status === 304 ? "hits" : "misses");
+      }
+      callbacks.forEach((waitingCallback) => waitingCallback(error, result));
+    });
+  }
+
+  /**
+   * Add a caller to a shared request. An aborting caller is answered with an
+   * AbortError straight away; the request itself only stops without callers.
+   */
+  private static join(
+    shared: InFlightRequest,
+    callback: CallbackFunction<RawResponse>,
+    signal: AbortSignal | undefined
+  ): void {
+    if (!signal) {
+      shared.callbacks.push(callback);
+      return;
+    }
+
+    const onAbort = (): void => {
+      shared.callbacks = shared.callbacks.filter(
+        (waiting) => waiting !== waitingCallback
+      );
+      if (shared.callbacks.length === 0) {
+        shared.controller.abort();
+      }
+      callback(new AbortError());
+    };
+    const waitingCallback: CallbackFunction<RawResponse> = (
+      error,
+      response
+    ) => {
+      signal.removeEventListener("abort", onAbort);
+      callback(error, response);
+    };
+
+    shared.callbacks.push(waitingCallback);
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
 
-      res.on("data", (chunk) => {
-        data += chunk;
+  private static isJson(response: RawResponse): boolean {
+    try {
+      JSON.parse(this.text(response));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Make one attempt once the host's circuit breaker and rate limiter allow
+   * it, retrying failures as the request's policy allows
+   */
+  private static attemptRequest(
+    request: RequestSpec,
+    callback: CallbackFunction<RawResponse>,
+    retriesDone: number = 0,
+    previousDelay: number = 0
+  ): void {
+    const { url, signal } = request;
+    if (signal?.aborted) {
+      callback(new AbortError());
+      return;
+    }
+
+    const { host, hostname } = new URL(url);
+
+    // Fail fast, without retrying, while the host's circuit is open
+    let trial: number;
+    try {
+      trial = CircuitBreaker.acquire(host, url);
+    } catch (error) {
+      callback(
+        error instanceof Error
+          ? this.withAttempts(error, retriesDone)
+          : new Error("Circuit open")
+      );
+      return;
+    }
+
+    RateLimiter.acquire(hostname, signal, (error, release) => {
+      if (error || !release) {
+        // Only a cancelled wait ends up here, which frees a half-open trial
+        CircuitBreaker.record(host, error ?? null, trial);
+        callback(error ?? new Error("Rate limiter gave no slot"));
+        return;
+      }
+      this.sendAttempt(
+        request,
+        callback,
+        retriesDone,
+        previousDelay,
+        release,
+        trial
+      );
+    });
+  }
+
+  /**
+   * Send one attempt. release frees the rate limiter slot once it settles,
+   * trial is the circuit breaker's token for a half-open trial.
+   */
+  private static sendAttempt(
+    request: RequestSpec,
+    callback: CallbackFunction<RawResponse>,
+    retriesDone: number,
+    previousDelay: number,
+    release: () => void,
+    trial: number
+  ): void {
+    const { url, method, headers, body, timeout, policy, signal } = request;
+    const parsedUrl = new URL(url);
+    // A 304 only answers a conditional request, anything else is an error
+    const conditional =
+      "If-None-Match" in headers || "If-Modified-Since" in headers;
+    const recorded = { method, url, body };
+    const startedAt = Date.now();
+    let settled = false;
+    // The request on the wire; there is none when replaying
+    let req: http.ClientRequest | undefined;
+
+    // Destroying the request emits "error" with the given error, which fail() handles
+    const abortRequest = (): void => {
+      req?.destroy(new AbortError());
+    };
+
+    const settle = (error: Error | null): boolean => {
+      if (settled) {
+        return false;
+      }
+      settled = true;
+      signal?.removeEventListener("abort", abortRequest);
+      release();
+      CircuitBreaker.record(parsedUrl.host, error, trial);
+      return true;
+    };
+
+    const fail = (error: Error): void => {
+      if (!settle(error)) {
+        return;
+      }
+      if (HttpRecorder.isRecording()) {
+        HttpRecorder.recordError(recorded, error, Date.now() - startedAt);
+      }
+
+      if (!policy.shouldRetry(error, retriesDone)) {
+        callback(this.withAttempts(error, retriesDone + 1));
+        return;
+      }
+
+      const delay = policy.nextDelay(error, retriesDone, previousDelay);
+      const retriesLeft = policy.retries - retriesDone;
+      Logger.warn(
+        `${error.message}, retrying in ${delay}ms... (${retriesLeft} attempts left)`
+      );
+
+      // Aborting while waiting cancels the retry instead of leaving a timer behind
+      const cancelRetry = (): void => {
+        clearTimeout(retryTimer);
+        callback(this.withAttempts(new AbortError(), retriesDone + 1));
+      };
+      const retryTimer = setTimeout(() => {
+        signal?.removeEventListener("abort", cancelRetry);
+        this.attemptRequest(request, callback, retriesDone + 1, delay);
+      }, delay);
+      signal?.addEventListener("abort", cancelRetry, { once: true });
+    };
+
+    const onResponse = (res: http.IncomingMessage): void => {
+      const status = res.statusCode ?? 0;
+      const location = res.headers.location;
+      const record = (responseBody: Buffer, decoded: boolean): void => {
+        if (HttpRecorder.isRecording()) {
+          HttpRecorder.recordResponse(
+            recorded,
+            {
+              status,
+              statusText: res.statusMessage ?? "",
+              headers: res.headers,
+              body: responseBody,
+            },
+            Date.now() - startedAt,
+            decoded
+          );
+        }
+      };
+
+      res.on("error", (error) => fail(this.networkError(error, url)));
+
+      if (this.REDIRECT_STATUSES.has(status) && location) {
+        record(Buffer.alloc(0), false);
+        res.resume();
+        if (request.redirects >= request.maxRedirects) {
+          fail(new TooManyRedirectsError(request.maxRedirects, { url }));
+        } else if (settle(null)) {
+          this.attemptRequest(
+            this.redirect(request, status, location),
+            callback,
+            retriesDone,
+            previousDelay
+          );
+        }
+        return;
+      }
+
+      // Refuse oversized bodies up front when the server announces the size
+      const declaredSize = Number(res.headers["content-length"]);
+      if (declaredSize > request.maxBodySize) {
+        fail(new ResponseTooLargeError(request.maxBodySize, { url }));
+        req?.destroy();
+        return;
+      }
+
+      const stream = this.decompressed(request, res);
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      // Errors from a decompressor mean a corrupt body rather than a broken connection
+      stream.on("error", (error) =>
+        fail(
+          stream === res
+            ? this.networkError(error, url)
+            : new ParseError(
+                `Could not decompress response: ${error.message}`,
+                {
+                  url,
+                  cause: error,
+                }
+              )
+        )
+      );
+
+      // Counted after decompression, so a small compressed bomb is caught too
+      stream.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > request.maxBodySize) {
+          fail(new ResponseTooLargeError(request.maxBodySize, { url }));
+          req?.destroy();
+          return;
+        }
+        chunks.push(chunk);
       });
 
-      res.on("end", () => {
-        try {
-          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-            const parsedData = JSON.parse(data);
-            callback(null, parsedData);
-          } else {
-            const error = new Error(
-              `HTTP ${res.statusCode}: ${res.statusMessage}`
-            );
-            if (retriesLeft > 0) {
-              console.warn(
-                `Request failed, retrying... (${retriesLeft} attempts left)`
-              );
-              setTimeout(() => {
-                this.attemptRequest(url, callback, timeout, retriesLeft - 1);
-              }, this.DEFAULT_RETRY_DELAY);
-            } else {
-              callback(error);
-            }
+      stream.on("end", () => {
+        record(Buffer.concat(chunks), stream !== res);
+        if (
+          (status >= 200 && status < 300) ||
+          (status === 304 && conditional)
+        ) {
+          if (settle(null)) {
+            callback(null, {
+              url,
+              status,
+              statusText: res.statusMessage ?? "",
+              headers: res.headers,
+              body: Buffer.concat(chunks),
+            });
           }
-        } catch (parseError) {
-          const error =
-            parseError instanceof Error ? parseError : new Error("Parse error");
-          callback(error);
+        } else {
+          const retryAfter = res.headers["retry-after"];
+          fail(
+            new HttpStatusError(
+              status,
+              res.statusMessage ?? "",
+              status === 429 || status === 503
+                ? RetryPolicy.parseRetryAfter(retryAfter)
+                : undefined,
+              { url }
+            )
+          );
         }
       });
+    };
+
+    if (HttpRecorder.isReplaying()) {
+      HttpRecorder.replay(recorded, timeout, signal, (error, res) => {
+        if (error || !res) {
+          fail(error ?? new Error("No recorded response"));
+        } else {
+          onResponse(res);
+        }
+      });
+      return;
+    }
+
+    let route: ReturnType<typeof ConnectionPool.route>;
+    try {
+      route = ConnectionPool.route(parsedUrl);
+    } catch (error) {
+      fail(error instanceof Error ? error : new Error("Invalid proxy"));
+      return;
+    }
+
+    const requestOptions = {
+      ...route.options,
+      method,
+      timeout,
+      headers: { ...headers, ...route.options.headers },
+    };
+    req = route.transport.request(requestOptions, onResponse);
+    signal?.addEventListener("abort", abortRequest, { once: true });
+
+    req.on("error", (error) => fail(this.networkError(error, url)));
+
+    req.on("socket", (socket) => ConnectionPool.track(socket));
+
+    req.on("timeout", () => {
+      req.destroy(new TimeoutError(timeout, { url }));
     });
 
-    req.on("error", (error) => {
-      if (retriesLeft > 0) {
-        console.warn(
-          `Request failed, retrying... (${retriesLeft} attempts left)`
-        );
-        setTimeout(() => {
-          this.attemptRequest(url, callback, timeout, retriesLeft - 1);
-        }, this.DEFAULT_RETRY_DELAY);
-      } else {
-        callback(error);
+    req.end(body);
+  }
+
+  /**
+   * A socket or stream error as a NetworkError. Errors the request was
+   * destroyed with, such as timeouts and cancellation, are kept as they are.
+   */
+  private static networkError(error: Error, url: string): Error {
+    return error instanceof ApiError || error instanceof AbortError
+      ? error
+      : new NetworkError(error, { url });
+  }
+
+  /**
+   * Record on an upstream error, or a cancellation, how many requests were
+   * sent before giving up
+   */
+  private static withAttempts(error: Error, attempts: number): Error {
+    if (
+      (error instanceof ApiError || error instanceof AbortError) &&
+      attempts > 0
+    ) {
+      error.attempts = attempts;
+    }
+    return error;
+  }
+
+  /**
+   * The request to make for a redirect. 303, and 301/302 after a POST, turn
+   * into a GET without body; 307/308 repeat the request as is. Credentials
+   * are only sent on to the same origin.
+   */
+  private static redirect(
+    request: RequestSpec,
+    status: number,
+    location: string
+  ): RequestSpec {
+    const target = new URL(location, request.url);
+    const headers = { ...request.headers };
+
+    if (target.origin !== new URL(request.url).origin) {
+      for (const name of Object.keys(headers)) {
+        if (["authorization", "cookie"].includes(name.toLowerCase())) {
+          delete headers[name];
+        }
       }
-    });
+    }
 
-    req.on("timeout", () => {
-      req.destroy();
-      const error = new Error(`Request timeout after ${timeout}ms`);
-      if (retriesLeft > 0) {
-        console.warn(
-          `Request timed out, retrying... (${retriesLeft} attempts left)`
-        );
-        setTimeout(() => {
-          this.attemptRequest(url, callback, timeout, retriesLeft - 1);
-        }, this.DEFAULT_RETRY_DELAY);
-      } else {
-        callback(error);
+    const asGet =
+      status === 303 ||
+      ((status === 301 || status === 302) && request.method === "POST");
+    if (asGet) {
+      for (const name of Object.keys(headers)) {
+        if (["content-type", "content-length"].includes(name.toLowerCase())) {
+          delete headers[name];
+        }
       }
-    });
+    }
+
+    return {
+      ...request,
+      url: target.toString(),
+      method: asGet && request.method !== "HEAD" ? "GET" : request.method,
+      headers,
+      body: asGet ? undefined : request.body,
+      redirects: request.redirects + 1,
+    };
+  }
+
+  /**
+   * The response body stream, decompressed per Content-Encoding. Bodiless
+   * responses are passed through as they are.
+   */
+  private static decompressed(
+    request: RequestSpec,
+    res: http.IncomingMessage
+  ): Readable {
+    const encoding = String(res.headers["content-encoding"] ?? "")
+      .trim()
+      .toLowerCase();
+    const bodiless =
+      request.method === "HEAD" ||
+      res.statusCode === 204 ||
+      res.statusCode === 304;
+    if (!request.decompress || bodiless) {
+      return res;
+    }
+
+    let decoder: zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress;
+    switch (encoding) {
+      case "gzip":
+      case "x-gzip":
+        decoder = zlib.createGunzip();
+        break;
+      case "deflate":
+        decoder = zlib.createInflate();
+        break;
+      case "br":
+        decoder = zlib.createBrotliDecompress();
+        break;
+      default:
+        return res;
+    }
+
+    return res.pipe(decoder);
   }
 
   /**
@@ -125,15 +871,49 @@ export class HttpClient {
   }
 
   /**
-   * Utility method for timing requests
+   * Make HTTP request using Promises, resolving with the parsed body
+   * together with the status and headers
+   */
+  public static requestPromise<T>(
+    url: string,
+    options: FetchOptions = {}
+  ): Promise<HttpResponse<T>> {
+    return new Promise((resolve, reject) => {
+      this.request<T>(
+        url,
+        (error, response) => {
+          if (error || !response) {
+            reject(error ?? new Error("No data received"));
+          } else {
+            resolve(response);
+          }
+        },
+        options
+      );
+    });
+  }
+
+  /**
+   * Utility method for timing requests, including the cache activity
+   * while the request ran. queueWait is the time spent waiting for the rate
+   * limiter, summed over requests made in parallel; duration includes it.
    */
   public static async measureRequestTime<T>(
     requestFn: () => Promise<T>
-  ): Promise<{ data: T; duration: number }> {
+  ): Promise<{
+    data: T;
+    duration: number;
+    queueWait: number;
+    cache: CacheStats;
+  }> {
     const startTime = Date.now();
+    const cacheBefore = ResponseCache.stats();
+    const waitBefore = RateLimiter.totalWaitTime();
     const data = await requestFn();
     const duration = Date.now() - startTime;
+    const queueWait = RateLimiter.totalWaitTime() - waitBefore;
+    const cache = ResponseCache.difference(ResponseCache.stats(), cacheBefore);
 
-    return { data, duration };
+    return { data, duration, queueWait, cache };
   }
 }
@@ -0,0 +1,294 @@
+/**
+ * Record and replay of HttpClient traffic, for deterministic and offline runs
+ * In record mode every attempt HttpClient sends is saved with its response
+ * (status, headers, body and latency) or network failure, one fixture file
+ * per method, URL and request body. Replay mode answers from those files
+ * without touching the network; requests that were never recorded fail with
+ * a FixtureNotFoundError naming the URL.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import { URL } from 'url';
+import { Logger } from './logger';
+import { AbortError, FixtureNotFoundError, NetworkError, TimeoutError } from './errors';
+import { CallbackFunction, RecordMode, RecorderOptions } from '../types';
+
+/**
+ * What identifies a request in the fixtures
+ */
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body: Buffer | undefined;
+}
+
+/**
+ * One attempt: a response, or the network failure or timeout it ended in
+ */
+export interface RecordedExchange {
+  status?: number;
+  statusText?: string;
+  headers?: http.IncomingHttpHeaders;
+  /** UTF-8 bodies are kept readable, anything else is base64 */
+  body?: string;
+  base64?: string;
+  error?: { name: 'NetworkError' | 'TimeoutError'; message: string; code?: string };
+  /** Milliseconds from sending the request to the end of the response */
+  latency: number;
+}
+
+export interface Fixture {
+  method: string;
+  url: string;
+  /** SHA-1 of the request body, for requests that have one */
+  bodyHash?: string;
+  /** In the order they were recorded, e.g. a 503 followed by its retry */
+  exchanges: RecordedExchange[];
+}
+
+export class HttpRecorder {
+  private static readonly DEFAULT_DIRECTORY = 'fixtures';
+  /** Headers describing the body as sent; recorded bodies are decompressed */
+  private static readonly ENCODING_HEADERS = [
+    'content-encoding',
+    'content-length',
+    'transfer-encoding',
+  ];
+
+  private static mode: RecordMode = HttpRecorder.parseMode(process.env.HTTP_RECORD_MODE);
+  private static directory = process.env.HTTP_FIXTURES_DIR || HttpRecorder.DEFAULT_DIRECTORY;
+  private static replayLatency = process.env.HTTP_REPLAY_LATENCY === '1';
+
+  /** Fixtures written or read during this run, by request key */
+  private static readonly fixtures = new Map<string, Fixture>();
+  /** Next exchange to replay, by request key */
+  private static readonly cursors = new Map<string, number>();
+
+  public static configure(options: RecorderOptions): void {
+    if (options.mode !== undefined) {
+      this.mode = options.mode;
+    }
+    if (options.directory !== undefined) {
+      this.directory = options.directory;
+    }
+    if (options.replayLatency !== undefined) {
+      this.replayLatency = options.replayLatency;
+    }
+    this.reset();
+  }
+
+  public static isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  public static isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * Forget what was recorded or replayed so far: the next recording of a
+   * request starts its fixture afresh, replays start from its first exchange
+   */
+  public static reset(): void {
+    this.fixtures.clear();
+    this.cursors.clear();
+  }
+
+  /**
+   * Save a response. decoded says whether the body was decompressed, in
+   * which case the headers describing the encoded body are left out.
+   */
+  public static recordResponse(
+    request: RecordedRequest,
+    response: {
+      status: number;
+      statusText: string;
+      headers: http.IncomingHttpHeaders;
+      body: Buffer;
+    },
+    latency: number,
+    decoded: boolean
+  ): void {
+    const headers = { ...response.headers };
+    if (decoded) {
+      for (const name of this.ENCODING_HEADERS) {
+        delete headers[name];
+      }
+    }
+
+    const text = response.body.toString('utf8');
+    const readable = Buffer.from(text, 'utf8').equals(response.body);
+    this.save(request, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      ...(readable ? { body: text } : { base64: response.body.toString('base64') }),
+      latency,
+    });
+  }
+
+  /**
+   * Save a network failure or timeout; other errors are not the network's
+   */
+  public static recordError(request: RecordedRequest, error: Error, latency: number): void {
+    if (error instanceof NetworkError) {
+      this.save(request, {
+        error: {
+          name: 'NetworkError',
+          message: error.message,
+          ...(error.code ? { code: error.code } : {}),
+        },
+        latency,
+      });
+    } else if (error instanceof TimeoutError) {
+      this.save(request, { error: { name: 'TimeoutError', message: error.message }, latency });
+    }
+  }
+
+  /**
+   * Answer a request with its next recorded exchange; once all have been
+   * used the last one is repeated. With replayLatency the answer takes as
+   * long as it did when recorded, and one slower than the request's timeout
+   * times out.
+   */
+  public static replay(
+    request: RecordedRequest,
+    timeout: number,
+    signal: AbortSignal | undefined,
+    callback: CallbackFunction<http.IncomingMessage>
+  ): void {
+    const key = this.key(request);
+    const fixture = this.load(request);
+    const cursor = this.cursors.get(key) ?? 0;
+    const exchange = fixture?.exchanges[Math.min(cursor, fixture.exchanges.length - 1)];
+
+    if (!exchange) {
+      const missing = new FixtureNotFoundError(request.method, request.url, this.filePath(request));
+      process.nextTick(() => callback(missing));
+      return;
+    }
+    this.cursors.set(key, cursor + 1);
+
+    const timedOut = exchange.error?.name === 'TimeoutError' || exchange.latency > timeout;
+    const delay = this.replayLatency ? Math.min(exchange.latency, timeout) : 0;
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      callback(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      if (this.replayLatency && timedOut) {
+        callback(new TimeoutError(timeout, { url: request.url }));
+      } else if (exchange.error) {
+        callback(this.toError(exchange.error, request.url, timeout));
+      } else {
+        callback(null, this.toResponse(exchange));
+      }
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  private static toError(
+    error: NonNullable<RecordedExchange['error']>,
+    url: string,
+    timeout: number
+  ): Error {
+    if (error.name === 'TimeoutError') {
+      return new TimeoutError(timeout, { url });
+    }
+    const cause: NodeJS.ErrnoException = new Error(error.message);
+    if (error.code) {
+      cause.code = error.code;
+    }
+    return new NetworkError(cause, { url });
+  }
+
+  /**
+   * A recorded response as the message HttpClient reads responses from
+   */
+  private static toResponse(exchange: RecordedExchange): http.IncomingMessage {
+    const response = new http.IncomingMessage(new net.Socket());
+    response.statusCode = exchange.status ?? 200;
+    response.statusMessage = exchange.statusText ?? '';
+    response.headers = { ...exchange.headers };
+    response.push(
+      exchange.base64 !== undefined
+        ? Buffer.from(exchange.base64, 'base64')
+        : Buffer.from(exchange.body ?? '', 'utf8')
+    );
+    response.push(null);
+    return response;
+  }
+
+  /**
+   * Add an exchange to the request's fixture. The first exchange recorded
+   * in a run replaces whatever an earlier recording left in the file.
+   */
+  private static save(request: RecordedRequest, exchange: RecordedExchange): void {
+    const key = this.key(request);
+    const fixture = this.fixtures.get(key) ?? {
+      method: request.method,
+      url: request.url,
+      ...(request.body ? { bodyHash: this.hash(request.body) } : {}),
+      exchanges: [],
+    };
+    fixture.exchanges.push(exchange);
+    this.fixtures.set(key, fixture);
+
+    const file = this.filePath(request);
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+    } catch (error) {
+      Logger.warn(
+        `Could not record ${request.method} ${request.url} to ${file}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  private static load(request: RecordedRequest): Fixture | undefined {
+    const key = this.key(request);
+    const loaded = this.fixtures.get(key);
+    if (loaded) {
+      return loaded;
+    }
+
+    try {
+      const fixture = JSON.parse(fs.readFileSync(this.filePath(request), 'utf8')) as Fixture;
+      this.fixtures.set(key, fixture);
+      return fixture;
+    } catch {
+      // Missing or unreadable fixtures are reported as not recorded
+      return undefined;
+    }
+  }
+
+  private static key(request: RecordedRequest): string {
+    return [request.method, request.url, ...(request.body ? [this.hash(request.body)] : [])].join(
+      ' '
+    );
+  }
+
+  /**
+   * fixtures/<host>/<SHA-1 of the key>.json
+   */
+  private static filePath(request: RecordedRequest): string {
+    const host = new URL(request.url).host.replace(/[^\w.-]/g, '_');
+    return path.join(this.directory, host, `${this.hash(this.key(request))}.json`);
+  }
+
+  private static hash(value: string | Buffer): string {
+    return crypto.createHash('sha1').update(value).digest('hex');
+  }
+
+  private static parseMode(value: string | undefined): RecordMode {
+    return value === 'record' || value === 'replay' ? value : 'off';
+  }
+}
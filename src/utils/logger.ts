@@ -3,58 +3,165 @@
  */
 
 import chalk from 'chalk';
-import { AsyncMethod } from '../types';
+import { CacheStats } from '../types';
+
+/**
+ * normal: everything, quiet: results, warnings and errors only, silent: nothing
+ */
+export type LogLevel = 'normal' | 'quiet' | 'silent';
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  color?: boolean;
+  /** Send all log output to stderr, keeping stdout free for machine-readable results */
+  stderr?: boolean;
+}
 
 export class Logger {
+  private static level: LogLevel = 'normal';
+  private static useStderr = false;
+
+  public static configure(options: LoggerOptions): void {
+    if (options.level) {
+      this.level = options.level;
+    }
+    if (options.color === false) {
+      chalk.level = 0;
+    }
+    if (options.stderr !== undefined) {
+      this.useStderr = options.stderr;
+    }
+  }
+
+  private static print(...args: unknown[]): void {
+    if (this.useStderr) {
+      console.error(...args);
+    } else {
+      console.log(...args);
+    }
+  }
+
+  private static get showProgress(): boolean {
+    return this.level === 'normal';
+  }
+
+  private static get showProblems(): boolean {
+    return this.level !== 'silent';
+  }
+
   private static formatTimestamp(): string {
     return new Date().toISOString();
   }
 
-  public static header(method: AsyncMethod): void {
-    console.log('\n' + '='.repeat(60));
-    console.log(chalk.cyan.bold(`ASYNC WEATHER & NEWS DASHBOARD - ${method.toUpperCase()}`));
-    console.log(chalk.gray(`Started at: ${this.formatTimestamp()}`));
-    console.log('='.repeat(60));
+  public static header(title: string): void {
+    if (!this.showProgress) {
+      return;
+    }
+
+    this.print('\n' + '='.repeat(60));
+    this.print(chalk.cyan.bold(`ASYNC WEATHER & NEWS DASHBOARD - ${title.toUpperCase()}`));
+    this.print(chalk.gray(`Started at: ${this.formatTimestamp()}`));
+    this.print('='.repeat(60));
   }
 
   public static section(title: string): void {
-    console.log(chalk.yellow.bold(`\n ${title}`));
-    console.log('-'.repeat(40));
+    if (!this.showProgress) {
+      return;
+    }
+
+    this.print(chalk.yellow.bold(`\n ${title}`));
+    this.print('-'.repeat(40));
   }
 
   public static success(message: string): void {
-    console.log(chalk.green(` ${message}`));
+    if (!this.showProgress) {
+      return;
+    }
+
+    this.print(chalk.green(` ${message}`));
   }
 
   public static error(message: string): void {
-    console.log(chalk.red(` ${message}`));
+    if (!this.showProblems) {
+      return;
+    }
+
+    this.print(chalk.red(` ${message}`));
   }
 
   public static info(message: string): void {
-    console.log(chalk.blue(`  ${message}`));
+    if (!this.showProgress) {
+      return;
+    }
+
+    this.print(chalk.blue(`  ${message}`));
   }
 
   public static warn(message: string): void {
-    console.log(chalk.yellow(`  ${message}`));
+    if (!this.showProblems) {
+      return;
+    }
+
+    this.print(chalk.yellow(`  ${message}`));
   }
 
   public static data(label: string, value: any): void {
-    console.log(chalk.magenta(` ${label}:`), value);
+    if (!this.showProblems) {
+      return;
+    }
+
+    this.print(chalk.magenta(` ${label}:`), value);
   }
 
-  public static timing(operation: string, duration: number): void {
+  public static table(title: string, headers: string[], rows: string[][]): void {
+    if (!this.showProblems) {
+      return;
+    }
+
+    const widths = headers.map((header, column) =>
+      Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length))
+    );
+    const formatRow = (cells: string[]): string =>
+      cells
+        .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+        .join('  ')
+        .trimEnd();
+
+    this.print(chalk.magenta(` ${title}:`));
+    this.print(chalk.gray(`  ${formatRow(headers)}`));
+    rows.forEach((row) => this.print(`  ${formatRow(row)}`));
+  }
+
+  public static timing(operation: string, duration: number, cache?: CacheStats): void {
+    if (!this.showProgress) {
+      return;
+    }
+
     const color = duration > 2000 ? chalk.red : duration > 1000 ? chalk.yellow : chalk.green;
-    console.log(color(`  ${operation}: ${duration}ms`));
+    const cacheSummary = cache
+      ? chalk.gray(
+          ` (cache: ${cache.hits} hit, ${cache.stale} stale, ${cache.misses} miss, ${cache.coalesced} shared)`
+        )
+      : '';
+    this.print(color(`  ${operation}: ${duration}ms`) + cacheSummary);
   }
 
   public static separator(): void {
-    console.log(chalk.gray('-'.repeat(40)));
+    if (!this.showProgress) {
+      return;
+    }
+
+    this.print(chalk.gray('-'.repeat(40)));
   }
 
-  public static footer(method: AsyncMethod): void {
-    console.log('\n' + '='.repeat(60));
-    console.log(chalk.cyan.bold(` ${method.toUpperCase()} DEMONSTRATION COMPLETED`));
-    console.log(chalk.gray(`Finished at: ${this.formatTimestamp()}`));
-    console.log('='.repeat(60) + '\n');
+  public static footer(title: string): void {
+    if (!this.showProgress) {
+      return;
+    }
+
+    this.print('\n' + '='.repeat(60));
+    this.print(chalk.cyan.bold(` ${title.toUpperCase()} DEMONSTRATION COMPLETED`));
+    this.print(chalk.gray(`Finished at: ${this.formatTimestamp()}`));
+    this.print('='.repeat(60) + '\n');
   }
 }
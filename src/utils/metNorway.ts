@@ -0,0 +1,285 @@
+/**
+ * The "met-norway" weather provider, backed by the Norwegian Meteorological
+ * Institute's Locationforecast API (api.met.no). Its GeoJSON time series is
+ * converted into our WeatherData, with symbol codes mapped onto WMO codes.
+ */
+
+import { WeatherConditions } from './weatherConditions';
+import { Units } from './units';
+import { Infer, Schema } from './schema';
+import { ValidationError } from './errors';
+import {
+  CurrentWeather,
+  DailyForecast,
+  DashboardOptions,
+  GeoLocation,
+  HourlyForecast,
+  ProviderRequest,
+  WeatherCondition,
+  WeatherData,
+  WeatherForecast,
+  WeatherUnits,
+} from '../types';
+
+const optionalNumber = Schema.optional(Schema.number());
+
+const periodSchema = Schema.optional(
+  Schema.object({
+    summary: Schema.object({ symbol_code: Schema.string() }),
+    details: Schema.optional(
+      Schema.object({
+        precipitation_amount: optionalNumber,
+        probability_of_precipitation: optionalNumber,
+      })
+    ),
+  })
+);
+
+/**
+ * The parts of the compact forecast we read. Only the instant values are
+ * always present; the period summaries thin out towards the end.
+ */
+const forecastSchema = Schema.object({
+  geometry: Schema.object({
+    coordinates: Schema.array(Schema.number()),
+  }),
+  properties: Schema.object({
+    timeseries: Schema.array(
+      Schema.object({
+        time: Schema.string(),
+        data: Schema.object({
+          instant: Schema.object({
+            details: Schema.object({
+              air_temperature: Schema.number(),
+              relative_humidity: Schema.number(),
+              wind_speed: Schema.number(),
+              cloud_area_fraction: optionalNumber,
+            }),
+          }),
+          next_1_hours: periodSchema,
+          next_6_hours: periodSchema,
+        }),
+      })
+    ),
+  }),
+});
+
+export type LocationforecastResponse = Infer<typeof forecastSchema>;
+type TimeStep = LocationforecastResponse['properties']['timeseries'][number];
+
+export class MetNorway {
+  public static readonly id = 'met-norway';
+
+  private static readonly DEFAULT_FORECAST_API_URL =
+    'https://api.met.no/weatherapi/locationforecast/2.0/compact';
+  /** api.met.no rejects requests that do not identify the application */
+  private static readonly USER_AGENT = 'async-weather-news-dashboard/1.0';
+  /** Values are always metric, wind in m/s */
+  private static readonly API_UNITS: WeatherUnits = {
+    temperature: 'celsius',
+    windSpeed: 'ms',
+    precipitation: 'mm',
+  };
+  private static readonly FORECAST_HOURS = 48;
+  private static readonly MAX_FORECAST_DAYS = 9;
+
+  /** Symbol codes without their _day/_night/_polartwilight suffix */
+  private static readonly SYMBOL_CODES: Record<string, number> = {
+    clearsky: 0,
+    fair: 1,
+    partlycloudy: 2,
+    cloudy: 3,
+    fog: 45,
+    lightrain: 61,
+    rain: 63,
+    heavyrain: 65,
+    lightsleet: 66,
+    sleet: 66,
+    heavysleet: 67,
+    lightsnow: 71,
+    snow: 73,
+    heavysnow: 75,
+    lightrainshowers: 80,
+    rainshowers: 81,
+    heavyrainshowers: 82,
+    lightsleetshowers: 66,
+    sleetshowers: 66,
+    heavysleetshowers: 67,
+    lightsnowshowers: 85,
+    snowshowers: 85,
+    heavysnowshowers: 86,
+  };
+
+  private static baseUrl = process.env.MET_NORWAY_API_URL ?? MetNorway.DEFAULT_FORECAST_API_URL;
+
+  /**
+   * Point the provider at a different Locationforecast compatible endpoint
+   */
+  public static setBaseUrl(url: string): void {
+    this.baseUrl = url;
+  }
+
+  public static request(location: GeoLocation): ProviderRequest {
+    // More than 4 decimals is refused, and would defeat caching anyway
+    const params = new URLSearchParams({
+      lat: location.lat.toFixed(4),
+      lon: location.lon.toFixed(4),
+    });
+    return {
+      url: `${this.baseUrl}?${params}`,
+      options: { headers: { 'User-Agent': this.USER_AGENT } },
+    };
+  }
+
+  /**
+   * Check and convert a raw Locationforecast response
+   */
+  public static parse(
+    data: unknown,
+    location: GeoLocation,
+    options: DashboardOptions = {}
+  ): WeatherData {
+    const forecast =
+      options.validate === false
+        ? (data as LocationforecastResponse)
+        : Schema.validate(forecastSchema, data, 'MET Norway forecast');
+    return this.toWeatherData(forecast, location, options);
+  }
+
+  /**
+   * Transform a forecast response into WeatherData in the requested units
+   */
+  public static toWeatherData(
+    data: LocationforecastResponse,
+    place: GeoLocation,
+    options: DashboardOptions = {}
+  ): WeatherData {
+    const timeseries = data.properties.timeseries;
+    const [now] = timeseries;
+    if (!now) {
+      throw new ValidationError('MET Norway forecast', [
+        { path: 'properties.timeseries', message: 'expected at least one entry' },
+      ]);
+    }
+
+    const [lon, lat] = data.geometry.coordinates;
+    const weatherData: WeatherData = {
+      location: {
+        name: place.name,
+        country: place.country,
+        lat: lat ?? place.lat,
+        lon: lon ?? place.lon,
+        ...(place.timezone ? { timezone: place.timezone } : {}),
+      },
+      current: this.toCurrent(now),
+      units: { ...this.API_UNITS },
+      timestamp: new Date().toISOString(),
+    };
+
+    if (options.forecastDays !== undefined) {
+      weatherData.forecast = this.toForecast(timeseries, options.forecastDays);
+    }
+
+    return Units.convertWeather(weatherData, Units.resolve(options.units));
+  }
+
+  /**
+   * The first time step as current conditions. There is no apparent
+   * temperature, so the air temperature stands in for it.
+   */
+  public static toCurrent(step: TimeStep): CurrentWeather {
+    const details = step.data.instant.details;
+    const period = step.data.next_1_hours ?? step.data.next_6_hours;
+    const condition = this.condition(period?.summary.symbol_code);
+
+    return {
+      temperature: details.air_temperature,
+      apparentTemperature: details.air_temperature,
+      humidity: details.relative_humidity,
+      windSpeed: details.wind_speed,
+      precipitation: step.data.next_1_hours?.details?.precipitation_amount ?? null,
+      cloudCover: details.cloud_area_fraction ?? null,
+      isDay: !this.isNight(period?.summary.symbol_code),
+      condition,
+      description: condition.description,
+    };
+  }
+
+  /**
+   * Hourly steps for the next 48 hours and one row per (UTC) day. Later
+   * days only have 6-hourly steps, which are summed the same way.
+   */
+  public static toForecast(timeseries: TimeStep[], forecastDays: number): WeatherForecast {
+    const hourly: HourlyForecast[] = timeseries
+      .filter((step) => step.data.next_1_hours)
+      .slice(0, this.FORECAST_HOURS)
+      .map((step) => ({
+        time: step.time,
+        temperature: step.data.instant.details.air_temperature,
+        humidity: step.data.instant.details.relative_humidity,
+        precipitationProbability:
+          step.data.next_1_hours?.details?.probability_of_precipitation ?? null,
+        windSpeed: step.data.instant.details.wind_speed,
+        condition: this.condition(step.data.next_1_hours?.summary.symbol_code),
+      }));
+
+    const days = new Map<string, TimeStep[]>();
+    for (const step of timeseries) {
+      const date = step.time.slice(0, 10);
+      days.set(date, [...(days.get(date) ?? []), step]);
+    }
+
+    const daily: DailyForecast[] = [...days.entries()]
+      .slice(0, Math.min(Math.max(Math.round(forecastDays), 1), this.MAX_FORECAST_DAYS))
+      .map(([date, steps]) => {
+        const temperatures = steps.map((step) => step.data.instant.details.air_temperature);
+        // The step closest to midday describes the day best
+        const midday = steps.reduce((best, step) =>
+          Math.abs(this.hour(step) - 12) < Math.abs(this.hour(best) - 12) ? step : best
+        );
+        const period = midday.data.next_6_hours ?? midday.data.next_1_hours;
+
+        return {
+          date,
+          temperatureMin: Math.min(...temperatures),
+          temperatureMax: Math.max(...temperatures),
+          precipitationSum: this.precipitationSum(steps),
+          condition: this.condition(period?.summary.symbol_code, true),
+        };
+      });
+
+    return { hourly, daily };
+  }
+
+  /**
+   * Describe a symbol code such as "lightrainshowers_night" as a WMO condition
+   */
+  public static condition(symbolCode: string | undefined, isDay?: boolean): WeatherCondition {
+    const [symbol = ''] = (symbolCode ?? '').split('_');
+    const code = symbol.includes('thunder') ? 95 : this.SYMBOL_CODES[symbol];
+    return WeatherConditions.describe(code, isDay ?? !this.isNight(symbolCode));
+  }
+
+  private static isNight(symbolCode: string | undefined): boolean {
+    return symbolCode?.endsWith('_night') ?? false;
+  }
+
+  private static hour(step: TimeStep): number {
+    return new Date(step.time).getUTCHours();
+  }
+
+  /**
+   * Hourly amounts where there are hourly steps, 6-hour amounts after that
+   */
+  private static precipitationSum(steps: TimeStep[]): number {
+    const sum = steps.reduce(
+      (total, step) =>
+        total +
+        (step.data.next_1_hours
+          ? (step.data.next_1_hours.details?.precipitation_amount ?? 0)
+          : (step.data.next_6_hours?.details?.precipitation_amount ?? 0)),
+      0
+    );
+    return Math.round(sum * 10) / 10;
+  }
+}
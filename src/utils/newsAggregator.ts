@@ -0,0 +1,114 @@
+/**
+ * Merges news from several sources into one ranked list. Articles are
+ * tagged with their source, duplicates (the same article from the same
+ * source, or a nearly identical title) are dropped and the rest are ordered
+ * by a weighted score, or by the requested sort.
+ */
+
+import { NewsQuery } from './newsQuery';
+import { NewsArticle, NewsData, NewsMergeOptions, NewsScoreWeights } from '../types';
+
+export class NewsAggregator {
+  public static readonly DEFAULT_WEIGHTS: NewsScoreWeights = { likes: 1, dislikes: -1, views: 0.1 };
+  public static readonly DEFAULT_SIMILARITY = 0.8;
+
+  /**
+   * Merge results given in order of preference: of two duplicates the one
+   * from the earlier result is kept, and ties keep that order too
+   */
+  public static merge(results: NewsData[], options: NewsMergeOptions = {}): NewsData {
+    const weights = { ...this.DEFAULT_WEIGHTS, ...options.weights };
+    const threshold = options.similarity ?? this.DEFAULT_SIMILARITY;
+    const kept: { article: NewsArticle; pairs: Map<string, number> }[] = [];
+    // Ids are only unique within one source
+    const keys = new Set<string>();
+
+    for (const result of results) {
+      for (const post of result.posts) {
+        const source = post.source ?? result.source;
+        const key = `${source ?? ''}:${post.id}`;
+        if (keys.has(key)) {
+          continue;
+        }
+        const pairs = this.pairs(post.title);
+        if (kept.some((other) => this.dice(pairs, other.pairs) >= threshold)) {
+          continue;
+        }
+
+        keys.add(key);
+        kept.push({ article: { ...post, ...(source ? { source } : {}) }, pairs });
+      }
+    }
+
+    // Array.prototype.sort is stable, so ties stay in order of preference
+    const articles = kept.map(({ article }) => article);
+    const ranked = options.sortBy
+      ? NewsQuery.sort(articles, {
+          newsSortBy: options.sortBy,
+          ...(options.order ? { newsOrder: options.order } : {}),
+        })
+      : articles.sort((a, b) => this.score(b, weights) - this.score(a, weights));
+    const posts = options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+    const sources = [...new Set(kept.map(({ article }) => article.source))].filter(Boolean);
+
+    return {
+      posts,
+      total: ranked.length,
+      skip: 0,
+      limit: options.limit ?? ranked.length,
+      ...(sources.length > 0 ? { source: sources.join(',') } : {}),
+    };
+  }
+
+  public static score(
+    article: NewsArticle,
+    weights: NewsScoreWeights = this.DEFAULT_WEIGHTS
+  ): number {
+    return (
+      article.reactions.likes * weights.likes +
+      article.reactions.dislikes * weights.dislikes +
+      article.views * weights.views
+    );
+  }
+
+  /**
+   * How alike two titles are, from 0 to 1, ignoring case and punctuation
+   */
+  public static titleSimilarity(a: string, b: string): number {
+    return this.dice(this.pairs(a), this.pairs(b));
+  }
+
+  /**
+   * Adjacent character pairs of the normalised title, with their counts
+   */
+  private static pairs(title: string): Map<string, number> {
+    const text = title
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+    const pairs = new Map<string, number>();
+    for (let index = 0; index < text.length - 1; index++) {
+      const pair = text.slice(index, index + 2);
+      pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+    }
+    return pairs;
+  }
+
+  /**
+   * Sørensen-Dice coefficient of two pair multisets. Titles too short to
+   * have pairs never match.
+   */
+  private static dice(a: Map<string, number>, b: Map<string, number>): number {
+    let sizeA = 0;
+    let sizeB = 0;
+    let shared = 0;
+    for (const count of b.values()) {
+      sizeB += count;
+    }
+    for (const [pair, count] of a) {
+      sizeA += count;
+      shared += Math.min(count, b.get(pair) ?? 0);
+    }
+    return sizeA === 0 || sizeB === 0 ? 0 : (2 * shared) / (sizeA + sizeB);
+  }
+}
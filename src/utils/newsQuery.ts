@@ -0,0 +1,109 @@
+/**
+ * News queries applied to a list of articles: full-text search, tag and
+ * user filters, sorting by views, likes or recency, and limit/skip paging.
+ * Providers use it for whatever their API cannot do server-side.
+ */
+
+import { DashboardOptions, NewsArticle, NewsData, NewsSortField } from '../types';
+
+export class NewsQuery {
+  public static readonly DEFAULT_LIMIT = 5;
+  private static readonly SORT_FIELDS: NewsSortField[] = ['views', 'likes', 'recent'];
+
+  public static isSortField(value: string): value is NewsSortField {
+    return (this.SORT_FIELDS as string[]).includes(value);
+  }
+
+  /**
+   * How many of the search, tag and user filters are set
+   */
+  public static filterCount(options: DashboardOptions): number {
+    return (
+      [options.newsSearch, options.newsTag].filter(Boolean).length +
+      (options.newsUserId !== undefined ? 1 : 0)
+    );
+  }
+
+  /**
+   * Filter, sort and page a complete list of articles. total counts every
+   * match, not just the returned page.
+   */
+  public static apply(articles: NewsArticle[], options: DashboardOptions = {}): NewsData {
+    const limit = options.newsLimit ?? this.DEFAULT_LIMIT;
+    const skip = options.newsSkip ?? 0;
+    const matches = this.sort(
+      articles.filter((article) => this.matches(article, options)),
+      options
+    );
+
+    return {
+      posts: matches.slice(skip, skip + limit),
+      total: matches.length,
+      skip,
+      limit,
+    };
+  }
+
+  /**
+   * Every search word must appear in the title, body or tags, ignoring case
+   */
+  public static matches(article: NewsArticle, options: DashboardOptions): boolean {
+    const tag = options.newsTag?.toLowerCase();
+    if (tag && !article.tags.some((articleTag) => articleTag.toLowerCase() === tag)) {
+      return false;
+    }
+    if (options.newsUserId !== undefined && article.userId !== options.newsUserId) {
+      return false;
+    }
+
+    const words = (options.newsSearch ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    const text = [article.title, article.body, ...article.tags].join(' ').toLowerCase();
+    return words.every((word) => text.includes(word));
+  }
+
+  /**
+   * Sort a copy of the articles. Recency uses publishedAt; articles without
+   * one, such as DummyJSON posts, follow the dated ones in either order and
+   * are sorted by id among themselves, as newer posts get higher ids.
+   */
+  public static sort(articles: NewsArticle[], options: DashboardOptions): NewsArticle[] {
+    const { newsSortBy: sortBy, newsOrder: order = 'desc' } = options;
+    if (!sortBy) {
+      return [...articles];
+    }
+
+    const direction = order === 'asc' ? 1 : -1;
+    if (sortBy === 'recent') {
+      return [...articles].sort((a, b) => this.compareRecency(a, b, direction));
+    }
+    return [...articles].sort((a, b) => direction * (this.key(a, sortBy) - this.key(b, sortBy)));
+  }
+
+  private static key(article: NewsArticle, sortBy: Exclude<NewsSortField, 'recent'>): number {
+    return sortBy === 'views' ? article.views : article.reactions.likes;
+  }
+
+  /**
+   * Timestamps are only compared with timestamps and ids with ids
+   */
+  private static compareRecency(a: NewsArticle, b: NewsArticle, direction: number): number {
+    const publishedA = this.publishedTime(a);
+    const publishedB = this.publishedTime(b);
+
+    if (publishedA !== undefined && publishedB !== undefined) {
+      return direction * (publishedA - publishedB);
+    }
+    if (publishedA !== undefined || publishedB !== undefined) {
+      return publishedA !== undefined ? -1 : 1;
+    }
+    return direction * (a.id - b.id);
+  }
+
+  /**
+   * publishedAt in milliseconds, undefined when missing or not a date
+   */
+  private static publishedTime(article: NewsArticle): number | undefined {
+    const time = article.publishedAt ? Date.parse(article.publishedAt) : NaN;
+    return Number.isNaN(time) ? undefined : time;
+  }
+}
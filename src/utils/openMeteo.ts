@@ -0,0 +1,259 @@
+/**
+ * Helpers for building Open-Meteo forecast requests, validating the raw
+ * forecast response and converting it into our WeatherData pieces. The
+ * class is also the "open-meteo" weather provider.
+ */
+
+import { WeatherConditions } from './weatherConditions';
+import { Units } from './units';
+import { Infer, Schema } from './schema';
+import {
+  CurrentWeather,
+  DashboardOptions,
+  DailyForecast,
+  GeoLocation,
+  HourlyForecast,
+  ProviderRequest,
+  WeatherData,
+  WeatherForecast,
+} from '../types';
+
+const optionalNumber = Schema.optional(Schema.nullable(Schema.number()));
+const optionalSeries = Schema.optional(Schema.array(Schema.nullable(Schema.number())));
+
+/**
+ * The parts of the forecast response we read. Models without a value for a
+ * field send null, so only the core current conditions are required.
+ */
+const forecastSchema = Schema.object({
+  latitude: Schema.number(),
+  longitude: Schema.number(),
+  timezone: Schema.optional(Schema.string()),
+  current: Schema.object({
+    temperature_2m: Schema.number(),
+    apparent_temperature: optionalNumber,
+    relative_humidity_2m: Schema.number(),
+    wind_speed_10m: Schema.number(),
+    precipitation: optionalNumber,
+    cloud_cover: optionalNumber,
+    weather_code: optionalNumber,
+    is_day: optionalNumber,
+  }),
+  hourly: Schema.optional(
+    Schema.object({
+      time: Schema.array(Schema.string()),
+      temperature_2m: optionalSeries,
+      relative_humidity_2m: optionalSeries,
+      precipitation_probability: optionalSeries,
+      wind_speed_10m: optionalSeries,
+      weather_code: optionalSeries,
+      is_day: optionalSeries,
+    })
+  ),
+  daily: Schema.optional(
+    Schema.object({
+      time: Schema.array(Schema.string()),
+      weather_code: optionalSeries,
+      temperature_2m_max: optionalSeries,
+      temperature_2m_min: optionalSeries,
+      precipitation_sum: optionalSeries,
+    })
+  ),
+});
+
+/**
+ * The envelope alone, still checked when validation is turned off
+ */
+const forecastShapeSchema = Schema.object({
+  current: Schema.object({}),
+  hourly: Schema.optional(Schema.object({ time: Schema.array(Schema.string()) })),
+  daily: Schema.optional(Schema.object({ time: Schema.array(Schema.string()) })),
+});
+
+export type ForecastResponse = Infer<typeof forecastSchema>;
+
+export class OpenMeteo {
+  public static readonly id = 'open-meteo';
+
+  private static readonly DEFAULT_FORECAST_API_URL = 'https://api.open-meteo.com/v1/forecast';
+  private static readonly CURRENT_FIELDS = [
+    'temperature_2m',
+    'apparent_temperature',
+    'relative_humidity_2m',
+    'wind_speed_10m',
+    'precipitation',
+    'cloud_cover',
+    'weather_code',
+    'is_day',
+  ];
+  private static readonly HOURLY_FIELDS = [
+    'temperature_2m',
+    'relative_humidity_2m',
+    'precipitation_probability',
+    'wind_speed_10m',
+    'weather_code',
+    'is_day',
+  ];
+  private static readonly DAILY_FIELDS = [
+    'weather_code',
+    'temperature_2m_max',
+    'temperature_2m_min',
+    'precipitation_sum',
+  ];
+  private static readonly FORECAST_HOURS = 48;
+  private static readonly MAX_FORECAST_DAYS = 16;
+
+  private static baseUrl = process.env.OPEN_METEO_API_URL ?? OpenMeteo.DEFAULT_FORECAST_API_URL;
+
+  /**
+   * Point the provider at a different Open-Meteo compatible forecast endpoint
+   */
+  public static setBaseUrl(url: string): void {
+    this.baseUrl = url;
+  }
+
+  /**
+   * Build the forecast URL for a resolved location
+   */
+  public static buildForecastUrl(location: GeoLocation, options: DashboardOptions = {}): string {
+    const params = new URLSearchParams({
+      latitude: String(location.lat),
+      longitude: String(location.lon),
+      current: this.CURRENT_FIELDS.join(','),
+      timezone: 'auto',
+      ...Units.toRequestParams(Units.resolve(options.units)),
+    });
+
+    if (options.forecastDays !== undefined) {
+      params.set('hourly', this.HOURLY_FIELDS.join(','));
+      params.set('forecast_hours', String(this.FORECAST_HOURS));
+      params.set('daily', this.DAILY_FIELDS.join(','));
+      params.set('forecast_days', String(this.clampForecastDays(options.forecastDays)));
+    }
+
+    return `${this.baseUrl}?${params}`;
+  }
+
+  public static request(location: GeoLocation, options: DashboardOptions = {}): ProviderRequest {
+    return { url: this.buildForecastUrl(location, options) };
+  }
+
+  /**
+   * Check and convert a raw forecast response
+   */
+  public static parse(
+    data: unknown,
+    location: GeoLocation,
+    options: DashboardOptions = {}
+  ): WeatherData {
+    return this.toWeatherData(this.parseForecast(data, options), location, options);
+  }
+
+  /**
+   * Check a raw forecast response, unless validation is turned off
+   */
+  public static parseForecast(data: unknown, options: DashboardOptions = {}): ForecastResponse {
+    return options.validate === false
+      ? (Schema.validate(forecastShapeSchema, data, 'Open-Meteo forecast') as ForecastResponse)
+      : Schema.validate(forecastSchema, data, 'Open-Meteo forecast');
+  }
+
+  /**
+   * Transform a forecast response into WeatherData in the requested units
+   */
+  public static toWeatherData(
+    data: ForecastResponse,
+    place: GeoLocation,
+    options: DashboardOptions = {}
+  ): WeatherData {
+    const units = Units.resolve(options.units);
+    const weatherData: WeatherData = {
+      location: this.toLocation(data, place),
+      current: this.toCurrent(data),
+      units: Units.requestedFromApi(units),
+      timestamp: new Date().toISOString(),
+    };
+
+    const forecast = this.toForecast(data);
+    if (forecast) {
+      weatherData.forecast = forecast;
+    }
+
+    return Units.convertWeather(weatherData, units);
+  }
+
+  /**
+   * Merge the geocoded place with the grid point and timezone the
+   * forecast API actually answered for
+   */
+  public static toLocation(data: ForecastResponse, requested: GeoLocation): GeoLocation {
+    const timezone: unknown = data?.timezone ?? requested.timezone;
+
+    return {
+      name: requested.name,
+      country: requested.country,
+      lat: typeof data?.latitude === 'number' ? data.latitude : requested.lat,
+      lon: typeof data?.longitude === 'number' ? data.longitude : requested.lon,
+      ...(typeof timezone === 'string' ? { timezone } : {}),
+    };
+  }
+
+  /**
+   * Convert the `current` block into our CurrentWeather shape
+   */
+  public static toCurrent(data: ForecastResponse): CurrentWeather {
+    const current = data.current;
+    const isDay = current.is_day !== 0;
+    const condition = WeatherConditions.describe(current.weather_code, isDay);
+
+    return {
+      temperature: current.temperature_2m,
+      apparentTemperature: current.apparent_temperature ?? current.temperature_2m,
+      humidity: current.relative_humidity_2m,
+      windSpeed: current.wind_speed_10m,
+      precipitation: current.precipitation ?? null,
+      cloudCover: current.cloud_cover ?? null,
+      isDay,
+      condition,
+      description: condition.description,
+    };
+  }
+
+  /**
+   * Convert the column-oriented hourly/daily blocks into row objects.
+   * Returns undefined when the response carries no forecast section.
+   */
+  public static toForecast(data: ForecastResponse): WeatherForecast | undefined {
+    const { hourly: hourlyData, daily: dailyData } = data;
+    if (!hourlyData && !dailyData) {
+      return undefined;
+    }
+
+    // Models without a value for a field send null, which is kept as such
+    const hourly: HourlyForecast[] = (hourlyData?.time ?? []).map((time, index) => ({
+      time,
+      temperature: hourlyData?.temperature_2m?.[index] ?? null,
+      humidity: hourlyData?.relative_humidity_2m?.[index] ?? null,
+      precipitationProbability: hourlyData?.precipitation_probability?.[index] ?? null,
+      windSpeed: hourlyData?.wind_speed_10m?.[index] ?? null,
+      condition: WeatherConditions.describe(
+        hourlyData?.weather_code?.[index],
+        hourlyData?.is_day?.[index] !== 0
+      ),
+    }));
+
+    const daily: DailyForecast[] = (dailyData?.time ?? []).map((date, index) => ({
+      date,
+      temperatureMin: dailyData?.temperature_2m_min?.[index] ?? null,
+      temperatureMax: dailyData?.temperature_2m_max?.[index] ?? null,
+      precipitationSum: dailyData?.precipitation_sum?.[index] ?? null,
+      condition: WeatherConditions.describe(dailyData?.weather_code?.[index]),
+    }));
+
+    return { hourly, daily };
+  }
+
+  private static clampForecastDays(days: number): number {
+    return Math.min(Math.max(Math.round(days), 1), this.MAX_FORECAST_DAYS);
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Registry of weather and news providers, selected by id
+ * Each fetch tries the providers in the configured order: when the primary
+ * fails (network, HTTP status, invalid response...) the next one is asked,
+ * and only when all have failed does the fetch fail, with the primary's error.
+ */
+
+import { HttpClient } from './httpClient';
+import { Logger } from './logger';
+import { OpenMeteo } from './openMeteo';
+import { MetNorway } from './metNorway';
+import { DummyJson } from './dummyJson';
+import { RssFeed } from './rssFeed';
+import { NewsQuery } from './newsQuery';
+import { NewsAggregator } from './newsAggregator';
+import { AbortError, ApiError } from './errors';
+import {
+  CallbackFunction,
+  DashboardOptions,
+  GeoLocation,
+  NewsData,
+  NewsMergeOptions,
+  NewsProvider,
+  ProviderOptions,
+  ProviderRequest,
+  WeatherData,
+  WeatherProvider,
+} from '../types';
+
+interface Provider {
+  readonly id: string;
+}
+
+export class Providers {
+  private static readonly weatherProviders = new Map<string, WeatherProvider>([
+    [OpenMeteo.id, OpenMeteo],
+    [MetNorway.id, MetNorway],
+  ]);
+  private static readonly newsProviders = new Map<string, NewsProvider>([
+    [DummyJson.id, DummyJson],
+    ['rss', new RssFeed('rss', process.env.NEWS_RSS_URL ?? RssFeed.DEFAULT_FEED_URL)],
+  ]);
+
+  private static weatherOrder = [OpenMeteo.id, MetNorway.id];
+  private static newsOrder = [DummyJson.id, 'rss'];
+
+  /**
+   * Choose the providers tried by default, first the primary. Throws for
+   * ids that are not registered.
+   */
+  public static configure(options: ProviderOptions): void {
+    if (options.weather) {
+      this.lookup(this.weatherProviders, options.weather, 'weather');
+      this.weatherOrder = [...options.weather];
+    }
+    if (options.news) {
+      this.lookup(this.newsProviders, options.news, 'news');
+      this.newsOrder = [...options.news];
+    }
+  }
+
+  /**
+   * Add a weather provider, or replace the one registered under its id
+   */
+  public static registerWeather(provider: WeatherProvider): void {
+    this.weatherProviders.set(provider.id, provider);
+  }
+
+  /**
+   * Add a news provider, or replace the one registered under its id
+   */
+  public static registerNews(provider: NewsProvider): void {
+    this.newsProviders.set(provider.id, provider);
+  }
+
+  public static weatherIds(): string[] {
+    return [...this.weatherProviders.keys()];
+  }
+
+  public static newsIds(): string[] {
+    return [...this.newsProviders.keys()];
+  }
+
+  /**
+   * Fetch weather for a resolved location using callbacks
+   */
+  public static fetchWeather(
+    location: GeoLocation,
+    options: DashboardOptions,
+    callback: CallbackFunction<WeatherData>
+  ): void {
+    let providers: WeatherProvider[];
+    try {
+      providers = this.lookup(
+        this.weatherProviders,
+        options.weatherProviders ?? this.weatherOrder,
+        'weather'
+      );
+    } catch (error) {
+      process.nextTick(() =>
+        callback(error instanceof Error ? error : new Error('Invalid provider'))
+      );
+      return;
+    }
+
+    this.failover(
+      providers,
+      'weather',
+      (provider, done) =>
+        this.fetchFrom(
+          provider.request(location, options),
+          options.signal,
+          (body) => ({ ...provider.parse(body, location, options), source: provider.id }),
+          done
+        ),
+      callback
+    );
+  }
+
+  /**
+   * Fetch weather for a resolved location using Promises
+   */
+  public static fetchWeatherPromise(
+    location: GeoLocation,
+    options: DashboardOptions
+  ): Promise<WeatherData> {
+    return new Promise((resolve, reject) => {
+      this.fetchWeather(location, options, (error, data) => {
+        if (error || !data) {
+          reject(error ?? new Error('No weather data received'));
+        } else {
+          resolve(data);
+        }
+      });
+    });
+  }
+
+  /**
+   * Fetch the requested page of news articles using callbacks
+   */
+  public static fetchNews(options: DashboardOptions, callback: CallbackFunction<NewsData>): void {
+    let providers: NewsProvider[];
+    try {
+      providers = this.lookup(this.newsProviders, options.newsProviders ?? this.newsOrder, 'news');
+    } catch (error) {
+      process.nextTick(() =>
+        callback(error instanceof Error ? error : new Error('Invalid provider'))
+      );
+      return;
+    }
+
+    this.failover(
+      providers,
+      'news',
+      (provider, done) =>
+        this.fetchFrom(
+          provider.request(options),
+          options.signal,
+          (body) => ({ ...provider.parse(body, options), source: provider.id }),
+          done
+        ),
+      callback
+    );
+  }
+
+  /**
+   * Fetch the requested page of news articles using Promises
+   */
+  public static fetchNewsPromise(options: DashboardOptions): Promise<NewsData> {
+    return new Promise((resolve, reject) => {
+      this.fetchNews(options, (error, data) => {
+        if (error || !data) {
+          reject(error ?? new Error('No news data received'));
+        } else {
+          resolve(data);
+        }
+      });
+    });
+  }
+
+  /**
+   * Walk every page of a news query lazily from newsSkip on; each page is
+   * only fetched once the previous one has been consumed. The provider that
+   * answers the first page serves the rest, so pages from different
+   * providers are never mixed: if it fails later on, the walk fails.
+   */
+  public static async *newsPages(options: DashboardOptions): AsyncGenerator<NewsData> {
+    let skip = options.newsSkip ?? 0;
+    let total = Infinity;
+    let source: string | undefined;
+
+    while (skip < total) {
+      const page = await this.fetchNewsPromise({
+        ...options,
+        newsSkip: skip,
+        ...(source ? { newsProviders: [source] } : {}),
+      });
+      if (page.posts.length === 0) {
+        return;
+      }
+      yield page;
+      source = page.source;
+      skip += page.posts.length;
+      total = page.total;
+    }
+  }
+
+  /**
+   * Ask every news provider at once and merge what they return, deduplicated
+   * and ranked by NewsAggregator, or ordered by newsSortBy when set.
+   * Providers that fail are left out; only when all fail is the primary's
+   * error raised.
+   */
+  public static async fetchAllNewsPromise(
+    options: DashboardOptions,
+    merge: NewsMergeOptions = {}
+  ): Promise<NewsData> {
+    const providers = this.lookup(
+      this.newsProviders,
+      options.newsProviders ?? this.newsOrder,
+      'news'
+    );
+    const results = await Promise.allSettled(
+      providers.map(
+        (provider) =>
+          new Promise<NewsData>((resolve, reject) =>
+            this.fetchFrom(
+              provider.request(options),
+              options.signal,
+              (body) => ({ ...provider.parse(body, options), source: provider.id }),
+              (error, data) =>
+                error || !data ? reject(error ?? new Error('No news data received')) : resolve(data)
+            )
+          )
+      )
+    );
+
+    const pages: NewsData[] = [];
+    let primaryError: unknown = null;
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        pages.push(result.value);
+        return;
+      }
+      primaryError = primaryError ?? result.reason;
+      Logger.warn(
+        `Provider ${providers[index]?.id} failed for news: ${ApiError.describe(result.reason)}`
+      );
+    });
+
+    AbortError.throwIfAborted(options.signal);
+    if (pages.length === 0) {
+      throw primaryError ?? new Error('No news provider configured');
+    }
+    return NewsAggregator.merge(pages, {
+      limit: options.newsLimit ?? NewsQuery.DEFAULT_LIMIT,
+      ...(options.newsSortBy ? { sortBy: options.newsSortBy } : {}),
+      ...(options.newsOrder ? { order: options.newsOrder } : {}),
+      ...merge,
+    });
+  }
+
+  /**
+   * The registered providers for a list of ids, in that order
+   */
+  private static lookup<P extends Provider>(
+    registry: Map<string, P>,
+    ids: string[],
+    kind: string
+  ): P[] {
+    return ids.map((id) => {
+      const provider = registry.get(id);
+      if (!provider) {
+        throw new Error(
+          `Unknown ${kind} provider: ${id} (available: ${[...registry.keys()].join(', ')})`
+        );
+      }
+      return provider;
+    });
+  }
+
+  /**
+   * Ask each provider in turn until one succeeds. A cancelled fetch is not
+   * failed over, and when all fail the primary's error is reported.
+   */
+  private static failover<P extends Provider, T>(
+    providers: P[],
+    kind: string,
+    fetch: (provider: P, done: CallbackFunction<T>) => void,
+    callback: CallbackFunction<T>,
+    index: number = 0,
+    primaryError: Error | null = null
+  ): void {
+    const provider = providers[index];
+    if (!provider) {
+      callback(primaryError ?? new Error(`No ${kind} provider configured`));
+      return;
+    }
+
+    fetch(provider, (error, data) => {
+      if (!error) {
+        if (index > 0) {
+          Logger.info(`Using ${kind} from ${provider.id} instead of ${providers[0]?.id}`);
+        }
+        callback(null, data);
+        return;
+      }
+      if (error instanceof AbortError) {
+        callback(error);
+        return;
+      }
+
+      const next = providers[index + 1];
+      if (next) {
+        Logger.warn(
+          `Provider ${provider.id} failed for ${kind}: ${ApiError.describe(error)}, trying ${next.id}`
+        );
+      }
+      this.failover(providers, kind, fetch, callback, index + 1, primaryError ?? error);
+    });
+  }
+
+  /**
+   * Send a provider's request and parse the body it answers with
+   */
+  private static fetchFrom<T>(
+    request: ProviderRequest,
+    signal: AbortSignal | undefined,
+    parse: (body: unknown) => T,
+    callback: CallbackFunction<T>
+  ): void {
+    HttpClient.makeRequest<unknown>(
+      request.url,
+      (error, body) => {
+        if (error) {
+          callback(error);
+          return;
+        }
+        let data: T;
+        try {
+          data = parse(body);
+        } catch (parseError) {
+          callback(parseError instanceof Error ? parseError : new Error('Invalid response'));
+          return;
+        }
+        callback(null, data);
+      },
+      { ...request.options, signal }
+    );
+  }
+}
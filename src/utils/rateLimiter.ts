@@ -0,0 +1,165 @@
+/**
+ * Client-side rate limiting used by HttpClient, per host
+ * Each host has a token bucket limiting how fast requests start and a cap on
+ * how many run at once. Requests over either limit wait in a FIFO queue
+ * instead of provoking 429 responses.
+ */
+
+import { AbortError } from './errors';
+import { CallbackFunction, RateLimit, RateLimiterOptions } from '../types';
+
+interface Waiter {
+  enqueuedAt: number;
+  grant: (release: () => void) => void;
+}
+
+interface HostBucket {
+  hostname: string;
+  tokens: number;
+  refilledAt: number;
+  active: number;
+  queue: Waiter[];
+  /** Wakes the queue up when the next token is due */
+  timer: NodeJS.Timeout | null;
+}
+
+export class RateLimiter {
+  private static readonly DEFAULT_LIMIT: Required<RateLimit> = {
+    requestsPerSecond: 5,
+    burst: 5,
+    maxConcurrent: 4,
+  };
+  private static readonly DEFAULT_HOST_LIMITS: Record<string, RateLimit> = {
+    // Open-Meteo's free tier allows 600 calls a minute
+    'api.open-meteo.com': { requestsPerSecond: 10, burst: 10 },
+    'geocoding-api.open-meteo.com': { requestsPerSecond: 10, burst: 10 },
+  };
+
+  private static enabled = true;
+  private static defaults: Required<RateLimit> = { ...RateLimiter.DEFAULT_LIMIT };
+  private static hosts: Record<string, RateLimit> = { ...RateLimiter.DEFAULT_HOST_LIMITS };
+
+  private static readonly buckets = new Map<string, HostBucket>();
+  private static waitTime = 0;
+
+  public static configure(options: RateLimiterOptions): void {
+    if (options.enabled !== undefined) {
+      this.enabled = options.enabled;
+    }
+    if (options.defaults) {
+      this.defaults = { ...this.defaults, ...options.defaults };
+    }
+    if (options.hosts) {
+      this.hosts = { ...this.hosts, ...options.hosts };
+    }
+  }
+
+  /**
+   * The limits applied to a host name
+   */
+  public static limitFor(hostname: string): Required<RateLimit> {
+    return { ...this.defaults, ...this.hosts[hostname] };
+  }
+
+  /**
+   * Wait for a slot to send a request to a host. The callback receives a
+   * release function to call once the request is done, or an AbortError
+   * when the signal fires while still queued.
+   */
+  public static acquire(
+    hostname: string,
+    signal: AbortSignal | undefined,
+    callback: CallbackFunction<() => void>
+  ): void {
+    if (!this.enabled) {
+      callback(null, () => undefined);
+      return;
+    }
+
+    const bucket = this.bucketFor(hostname);
+    const onAbort = (): void => {
+      bucket.queue = bucket.queue.filter((queued) => queued !== waiter);
+      callback(new AbortError());
+    };
+    const waiter: Waiter = {
+      enqueuedAt: Date.now(),
+      grant: (release) => {
+        signal?.removeEventListener('abort', onAbort);
+        this.waitTime += Date.now() - waiter.enqueuedAt;
+        callback(null, release);
+      },
+    };
+
+    bucket.queue.push(waiter);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.drain(bucket);
+  }
+
+  /**
+   * Milliseconds requests have spent queued since the process started
+   */
+  public static totalWaitTime(): number {
+    return this.waitTime;
+  }
+
+  private static bucketFor(hostname: string): HostBucket {
+    let bucket = this.buckets.get(hostname);
+    if (!bucket) {
+      bucket = {
+        hostname,
+        tokens: this.limitFor(hostname).burst,
+        refilledAt: Date.now(),
+        active: 0,
+        queue: [],
+        timer: null,
+      };
+      this.buckets.set(hostname, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Start as many queued requests as the bucket's tokens and concurrency
+   * allow, and schedule a wake-up for when the next token is due
+   */
+  private static drain(bucket: HostBucket): void {
+    const limit = this.limitFor(bucket.hostname);
+    const now = Date.now();
+    bucket.tokens = Math.min(
+      limit.burst,
+      bucket.tokens + ((now - bucket.refilledAt) / 1000) * limit.requestsPerSecond
+    );
+    bucket.refilledAt = now;
+
+    while (bucket.queue.length > 0 && bucket.active < limit.maxConcurrent && bucket.tokens >= 1) {
+      const waiter = bucket.queue.shift();
+      if (!waiter) {
+        break;
+      }
+      bucket.tokens--;
+      bucket.active++;
+      waiter.grant(this.releaser(bucket));
+    }
+
+    // A full concurrency cap drains again on release, missing tokens need a timer
+    if (bucket.queue.length > 0 && bucket.active < limit.maxConcurrent && !bucket.timer) {
+      const delay = Math.ceil(((1 - bucket.tokens) / limit.requestsPerSecond) * 1000);
+      bucket.timer = setTimeout(() => {
+        bucket.timer = null;
+        this.drain(bucket);
+      }, delay);
+    }
+  }
+
+  private static releaser(bucket: HostBucket): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      bucket.active--;
+      this.drain(bucket);
+    };
+  }
+}
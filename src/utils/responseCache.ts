@@ -0,0 +1,452 @@
+/**
+ * Response cache used by HttpClient, keyed by method, URL and the request
+ * headers the response varies on. Freshness follows Cache-Control/Expires when the server sends them and a
+ * per-host TTL otherwise. Entries may be served stale for a while longer,
+ * are revalidated with their ETag/Last-Modified and can be persisted to disk.
+ */
+
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { URL } from 'url';
+import { CacheOptions, CacheStats } from '../types';
+
+/**
+ * The parts of a request that select a cache entry
+ */
+export interface CacheRequest {
+  method: string;
+  url: string;
+  headers?: http.OutgoingHttpHeaders;
+}
+
+export interface CacheEntry {
+  method: string;
+  url: string;
+  /** Values of the request headers named by the response's Vary header */
+  vary?: Record<string, string>;
+  body: string;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+  etag?: string;
+  lastModified?: string;
+  /** Validator and content headers, handed back with cached responses */
+  headers?: http.IncomingHttpHeaders;
+}
+
+/**
+ * fresh: serve as is, stale: serve and refresh in the background,
+ * expired: revalidate with a conditional request before serving
+ */
+export type CacheState = 'fresh' | 'stale' | 'expired';
+
+export interface CacheLookup {
+  entry: CacheEntry;
+  state: CacheState;
+}
+
+interface Freshness {
+  expiresAt: number;
+  staleUntil: number;
+}
+
+export type CacheEvent = keyof CacheStats;
+
+export class ResponseCache {
+  private static readonly MAX_ENTRIES = 500;
+  /** Response headers kept with an entry; anything else, e.g. Set-Cookie, is dropped */
+  private static readonly KEPT_HEADERS = [
+    'cache-control',
+    'content-language',
+    'content-type',
+    'date',
+    'etag',
+    'expires',
+    'last-modified',
+    'vary',
+  ];
+  private static readonly DEFAULT_TTLS: Record<string, number> = {
+    // Open-Meteo models update about every 15 minutes
+    'api.open-meteo.com': 10 * 60 * 1000,
+    'geocoding-api.open-meteo.com': 24 * 60 * 60 * 1000,
+    'dummyjson.com': 5 * 60 * 1000,
+  };
+
+  private static enabled = true;
+  private static ttl: Record<string, number> = { ...ResponseCache.DEFAULT_TTLS };
+  private static defaultTtl = 60 * 1000;
+  private static staleWhileRevalidate = 5 * 60 * 1000;
+  private static directory: string | null = process.env.HTTP_CACHE_DIR || null;
+
+  private static readonly entries = new Map<string, CacheEntry>();
+  /** Request header names each method and URL varies on, from its last response */
+  private static readonly varyNames = new Map<string, string[]>();
+  /** Disk writes still running, see flush() */
+  private static readonly writes = new Set<Promise<void>>();
+  private static counters: CacheStats = ResponseCache.emptyStats();
+
+  public static configure(options: CacheOptions): void {
+    if (options.enabled !== undefined) {
+      this.enabled = options.enabled;
+    }
+    if (options.ttl) {
+      this.ttl = { ...this.ttl, ...options.ttl };
+    }
+    if (options.defaultTtl !== undefined) {
+      this.defaultTtl = options.defaultTtl;
+    }
+    if (options.staleWhileRevalidate !== undefined) {
+      this.staleWhileRevalidate = options.staleWhileRevalidate;
+    }
+    if (options.directory !== undefined) {
+      this.directory = options.directory;
+    }
+  }
+
+  /**
+   * The current settings, so a caller can change them temporarily and restore them
+   */
+  public static options(): CacheOptions {
+    return {
+      enabled: this.enabled,
+      ttl: { ...this.ttl },
+      defaultTtl: this.defaultTtl,
+      staleWhileRevalidate: this.staleWhileRevalidate,
+      directory: this.directory,
+    };
+  }
+
+  public static isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * The key of the entry answering a request: method, URL and the values
+   * of the request headers the last response for it varied on
+   */
+  public static key(request: CacheRequest): string {
+    const base = this.baseKey(request.method, request.url);
+    const names = this.varyNames.get(base) ?? [];
+    return this.variantKey(base, this.varyValues(names, request.headers ?? {}));
+  }
+
+  /**
+   * Find an entry held in memory. Entries past their stale window are
+   * dropped unless they carry a validator to revalidate them with.
+   */
+  public static lookup(key: string): CacheLookup | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (now >= entry.staleUntil && !entry.etag && !entry.lastModified) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.remember(entry);
+    const state: CacheState =
+      now < entry.expiresAt ? 'fresh' : now < entry.staleUntil ? 'stale' : 'expired';
+    return { entry, state };
+  }
+
+  /**
+   * Bring the disk entry for a request into memory, unless memory already
+   * answers it. Never rejects: missing or unreadable files are misses.
+   */
+  public static async load(request: CacheRequest): Promise<void> {
+    const file = this.filePath(this.baseKey(request.method, request.url));
+    if (!file || this.entries.has(this.key(request))) {
+      return;
+    }
+
+    try {
+      const entry = JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry;
+      if (entry.method === request.method && entry.url === request.url) {
+        this.remember(entry);
+      }
+    } catch {
+      // Missing or unreadable files are plain misses
+    }
+  }
+
+  /**
+   * Store a response body. Cache-Control: no-store and Vary: * responses
+   * are not kept.
+   */
+  public static store(
+    request: CacheRequest,
+    body: string,
+    headers: http.IncomingHttpHeaders = {}
+  ): void {
+    const names = this.parseVary(headers);
+    const freshness = names ? this.freshness(request.url, headers) : null;
+    if (!names || !freshness) {
+      this.entries.delete(this.key(request));
+      return;
+    }
+
+    const etag = this.header(headers, 'etag');
+    const lastModified = this.header(headers, 'last-modified');
+    const vary = this.varyValues(names, request.headers ?? {});
+    const entry: CacheEntry = {
+      method: request.method,
+      url: request.url,
+      ...(names.length > 0 ? { vary } : {}),
+      body,
+      storedAt: Date.now(),
+      headers: this.keptHeaders(headers),
+      ...freshness,
+      ...(etag ? { etag } : {}),
+      ...(lastModified ? { lastModified } : {}),
+    };
+
+    this.remember(entry);
+    this.writeToDisk(entry);
+  }
+
+  /**
+   * Renew an entry after the server answered 304 Not Modified. Headers sent
+   * with the 304 replace the stored ones.
+   */
+  public static revalidate(entry: CacheEntry, headers: http.IncomingHttpHeaders): void {
+    this.store({ method: entry.method, url: entry.url, headers: entry.vary ?? {} }, entry.body, {
+      ...entry.headers,
+      ...(entry.etag ? { etag: entry.etag } : {}),
+      ...(entry.lastModified ? { 'last-modified': entry.lastModified } : {}),
+      ...headers,
+    });
+  }
+
+  /**
+   * Conditional request headers for revalidating an entry
+   */
+  public static validators(entry: CacheEntry): Record<string, string> {
+    return {
+      ...(entry.etag ? { 'If-None-Match': entry.etag } : {}),
+      ...(entry.lastModified ? { 'If-Modified-Since': entry.lastModified } : {}),
+    };
+  }
+
+  /**
+   * Time to live for a URL, looked up by its host
+   */
+  public static ttlFor(url: string): number {
+    return this.ttl[new URL(url).hostname] ?? this.defaultTtl;
+  }
+
+  public static record(event: CacheEvent): void {
+    this.counters[event]++;
+  }
+
+  /**
+   * Totals since the process started
+   */
+  public static stats(): CacheStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Activity between two stats() snapshots
+   */
+  public static difference(later: CacheStats, earlier: CacheStats): CacheStats {
+    return {
+      hits: later.hits - earlier.hits,
+      stale: later.stale - earlier.stale,
+      misses: later.misses - earlier.misses,
+      coalesced: later.coalesced - earlier.coalesced,
+    };
+  }
+
+  public static isEmpty(stats: CacheStats): boolean {
+    return stats.hits + stats.stale + stats.misses + stats.coalesced === 0;
+  }
+
+  /**
+   * Forget all entries held in memory. Entries on disk are kept.
+   */
+  public static clear(): void {
+    this.entries.clear();
+    this.varyNames.clear();
+  }
+
+  /**
+   * Wait for the entries stored so far to be written to disk
+   */
+  public static async flush(): Promise<void> {
+    await Promise.all([...this.writes]);
+  }
+
+  /**
+   * Work out how long a response stays fresh: Cache-Control max-age, then
+   * Expires, then the per-host TTL. Returns null for no-store.
+   */
+  private static freshness(url: string, headers: http.IncomingHttpHeaders): Freshness | null {
+    const directives = this.cacheControl(headers);
+    if (directives.has('no-store')) {
+      return null;
+    }
+
+    const now = Date.now();
+    const maxAge = this.seconds(directives.get('max-age'));
+    const expires = this.header(headers, 'expires');
+    const age = this.seconds(this.header(headers, 'age')) ?? 0;
+
+    let ttl: number;
+    if (maxAge !== undefined) {
+      ttl = (maxAge - age) * 1000;
+    } else if (expires !== undefined) {
+      // Measure against the server's clock; an invalid Expires means already expired
+      const serverNow = Date.parse(this.header(headers, 'date') ?? '') || now;
+      ttl = (Date.parse(expires) || 0) - serverNow;
+    } else {
+      ttl = this.ttlFor(url);
+    }
+
+    if (directives.has('no-cache')) {
+      ttl = 0;
+    }
+
+    const staleWhileRevalidate =
+      directives.has('no-cache') || directives.has('must-revalidate')
+        ? 0
+        : (this.seconds(directives.get('stale-while-revalidate')) ??
+            this.staleWhileRevalidate / 1000) * 1000;
+
+    const expiresAt = now + Math.max(ttl, 0);
+    return { expiresAt, staleUntil: expiresAt + staleWhileRevalidate };
+  }
+
+  /**
+   * Cache-Control directives by lowercase name, with their value if any
+   */
+  private static cacheControl(headers: http.IncomingHttpHeaders): Map<string, string | undefined> {
+    const directives = new Map<string, string | undefined>();
+    for (const part of (this.header(headers, 'cache-control') ?? '').split(',')) {
+      const [name = '', value] = part.split('=').map((piece) => piece.trim());
+      if (name) {
+        directives.set(name.toLowerCase(), value?.replace(/^"|"$/g, ''));
+      }
+    }
+    return directives;
+  }
+
+  private static header(headers: http.IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value.join(', ') : value;
+  }
+
+  /**
+   * Lowercase, sorted request header names from a Vary header; null for
+   * Vary: *, which no later request can be known to match
+   */
+  private static parseVary(headers: http.IncomingHttpHeaders): string[] | null {
+    const names = (this.header(headers, 'vary') ?? '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter((name) => name !== '');
+    return names.includes('*') ? null : [...new Set(names)].sort();
+  }
+
+  private static varyValues(
+    names: string[],
+    headers: http.OutgoingHttpHeaders
+  ): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const name of names) {
+      const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+      const value = entry?.[1];
+      values[name] = Array.isArray(value) ? value.join(', ') : String(value ?? '');
+    }
+    return values;
+  }
+
+  private static baseKey(method: string, url: string): string {
+    return `${method.toUpperCase()} ${url}`;
+  }
+
+  private static variantKey(base: string, vary: Record<string, string>): string {
+    return [
+      base,
+      ...Object.keys(vary)
+        .sort()
+        .map((name) => `${name}: ${vary[name] ?? ''}`),
+    ].join('\n');
+  }
+
+  private static entryKey(entry: CacheEntry): string {
+    return this.variantKey(this.baseKey(entry.method, entry.url), entry.vary ?? {});
+  }
+
+  private static keptHeaders(headers: http.IncomingHttpHeaders): http.IncomingHttpHeaders {
+    const kept: http.IncomingHttpHeaders = {};
+    for (const name of this.KEPT_HEADERS) {
+      const value = headers[name];
+      if (value !== undefined) {
+        kept[name] = value;
+      }
+    }
+    return kept;
+  }
+
+  private static seconds(value: string | undefined): number | undefined {
+    if (value === undefined || !/^\d+$/.test(value)) {
+      return undefined;
+    }
+    return Number(value);
+  }
+
+  private static emptyStats(): CacheStats {
+    return { hits: 0, stale: 0, misses: 0, coalesced: 0 };
+  }
+
+  /**
+   * Insert or refresh an entry, evicting the least recently used beyond MAX_ENTRIES
+   */
+  private static remember(entry: CacheEntry): void {
+    const key = this.entryKey(entry);
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.varyNames.set(this.baseKey(entry.method, entry.url), Object.keys(entry.vary ?? {}));
+
+    if (this.entries.size > this.MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * One file per method and URL, holding its latest variant
+   */
+  private static filePath(baseKey: string): string | null {
+    if (!this.directory) {
+      return null;
+    }
+    const name = crypto.createHash('sha1').update(baseKey).digest('hex');
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  /**
+   * Write an entry in the background; the disk store is best effort, the
+   * entry is still cached in memory when writing fails
+   */
+  private static writeToDisk(entry: CacheEntry): void {
+    const file = this.filePath(this.baseKey(entry.method, entry.url));
+    if (!file) {
+      return;
+    }
+
+    const write = fs
+      .mkdir(path.dirname(file), { recursive: true })
+      .then(() => fs.writeFile(file, JSON.stringify(entry)))
+      .catch(() => undefined)
+      .finally(() => this.writes.delete(write));
+    this.writes.add(write);
+  }
+}
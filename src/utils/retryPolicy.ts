@@ -0,0 +1,162 @@
+/**
+ * Retry policy shared by HttpClient and the async/await retry helper:
+ * exponential backoff with optional jitter, a delay cap, Retry-After
+ * support and a predicate deciding which errors are retried
+ */
+
+import {
+  AbortError,
+  CircuitOpenError,
+  FixtureNotFoundError,
+  HttpStatusError,
+  ParseError,
+  ResponseTooLargeError,
+  TooManyRedirectsError,
+  ValidationError,
+} from './errors';
+import { RetryJitter, RetryPolicyOptions } from '../types';
+
+export class RetryPolicy {
+  /** Statuses that may succeed when asked again; other 4xx never will */
+  private static readonly RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+  public readonly retries: number;
+  public readonly baseDelay: number;
+  public readonly maxDelay: number;
+  public readonly jitter: RetryJitter;
+  public readonly retryable: (error: Error) => boolean;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.retries = options.retries ?? 3;
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.jitter = options.jitter ?? 'full';
+    this.retryable = options.retryable ?? RetryPolicy.isRetryable;
+  }
+
+  /**
+   * Use a policy as is, or build one from plain options
+   */
+  public static from(options: RetryPolicy | RetryPolicyOptions = {}): RetryPolicy {
+    return options instanceof RetryPolicy ? options : new RetryPolicy(options);
+  }
+
+  /**
+   * Default predicate: retry network failures, timeouts and transient HTTP
+   * statuses, never client errors such as 400/404, unparsable, invalid or
+   * oversized responses, redirect loops, cancelled requests, hosts whose
+   * circuit breaker is open or requests missing from the replayed fixtures
+   */
+  public static isRetryable(error: Error): boolean {
+    if (
+      error.name === 'AbortError' ||
+      error instanceof CircuitOpenError ||
+      error instanceof FixtureNotFoundError ||
+      error instanceof ParseError ||
+      error instanceof ValidationError ||
+      error instanceof ResponseTooLargeError ||
+      error instanceof TooManyRedirectsError
+    ) {
+      return false;
+    }
+    if (error instanceof HttpStatusError) {
+      return RetryPolicy.RETRYABLE_STATUSES.has(error.status);
+    }
+    return !(error instanceof SyntaxError);
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+   */
+  public static parseRetryAfter(value: string | undefined): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return Number(value) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+  }
+
+  /**
+   * Whether to try again after `retriesDone` retries failed with `error`.
+   * A Retry-After longer than maxDelay is respected by giving up.
+   */
+  public shouldRetry(error: Error, retriesDone: number): boolean {
+    if (retriesDone >= this.retries || !this.retryable(error)) {
+      return false;
+    }
+    const retryAfter = error instanceof HttpStatusError ? error.retryAfter : undefined;
+    return retryAfter === undefined || retryAfter <= this.maxDelay;
+  }
+
+  /**
+   * Delay before retry number `retriesDone + 1`. Decorrelated jitter grows
+   * from the previous delay, so callers pass it back in.
+   */
+  public nextDelay(error: Error, retriesDone: number, previousDelay: number = 0): number {
+    const retryAfter = error instanceof HttpStatusError ? error.retryAfter : undefined;
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.maxDelay);
+    }
+
+    const exponential = Math.min(this.maxDelay, this.baseDelay * 2 ** retriesDone);
+
+    switch (this.jitter) {
+      case 'none':
+        return exponential;
+      case 'full':
+        return Math.round(Math.random() * exponential);
+      case 'decorrelated': {
+        const upper = Math.max(this.baseDelay, previousDelay * 3);
+        return Math.round(
+          Math.min(this.maxDelay, this.baseDelay + Math.random() * (upper - this.baseDelay))
+        );
+      }
+    }
+  }
+
+  /**
+   * Run a promise returning operation until it succeeds or the policy gives up.
+   * onRetry is called before each wait, e.g. for logging. Aborting the signal
+   * ends a pending wait.
+   */
+  public async execute<T>(
+    operation: (attempt: number) => Promise<T>,
+    onRetry?: (error: Error, attempt: number, delay: number) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let previousDelay = 0;
+
+    for (let retriesDone = 0; ; retriesDone++) {
+      AbortError.throwIfAborted(signal);
+      try {
+        return await operation(retriesDone + 1);
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error('Unknown error');
+        if (!this.shouldRetry(failure, retriesDone)) {
+          throw failure;
+        }
+
+        previousDelay = this.nextDelay(failure, retriesDone, previousDelay);
+        onRetry?.(failure, retriesDone + 1, previousDelay);
+        await this.wait(previousDelay, signal);
+      }
+    }
+  }
+
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(new AbortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * News provider for RSS 2.0 and Atom feeds. Feed entries become NewsArticles
+ * with their categories as tags; feeds carry no reactions or views, so those
+ * are zero. Queries are applied to the parsed entries.
+ */
+
+import { ParseError } from './errors';
+import { NewsQuery } from './newsQuery';
+import { DashboardOptions, NewsArticle, NewsData, NewsProvider, ProviderRequest } from '../types';
+
+export class RssFeed implements NewsProvider {
+  public static readonly DEFAULT_FEED_URL = 'https://hnrss.org/frontpage';
+
+  private static readonly ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+  };
+
+  public readonly id: string;
+  private readonly url: string;
+
+  constructor(id: string, url: string) {
+    this.id = id;
+    this.url = url;
+  }
+
+  public request(): ProviderRequest {
+    return {
+      url: this.url,
+      options: {
+        responseType: 'text',
+        headers: {
+          Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+        },
+      },
+    };
+  }
+
+  public parse(body: unknown, options: DashboardOptions = {}): NewsData {
+    if (typeof body !== 'string' || !/<(rss|feed|rdf:RDF)\b/i.test(body)) {
+      throw new ParseError(`Response from ${this.url} is not an RSS or Atom feed`, {
+        url: this.url,
+      });
+    }
+
+    return NewsQuery.apply(RssFeed.parseFeed(body), options);
+  }
+
+  /**
+   * The <item> (RSS) or <entry> (Atom) elements of a feed as articles
+   */
+  public static parseFeed(xml: string): NewsArticle[] {
+    const entries = xml.matchAll(/<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/gi);
+
+    return [...entries].map(([, , entry = '']) => {
+      const title = this.text(entry, 'title');
+      const link = this.text(entry, 'link') || this.attribute(entry, 'link', 'href');
+      const key = this.text(entry, 'guid') || this.text(entry, 'id') || link || title;
+      const body =
+        this.text(entry, 'description') ||
+        this.text(entry, 'summary') ||
+        this.text(entry, 'content:encoded') ||
+        this.text(entry, 'content');
+      const published = Date.parse(
+        this.text(entry, 'pubDate') || this.text(entry, 'published') || this.text(entry, 'updated')
+      );
+
+      return {
+        id: this.hash(key),
+        title,
+        body,
+        tags: this.categories(entry),
+        reactions: { likes: 0, dislikes: 0 },
+        views: 0,
+        userId: 0,
+        ...(Number.isNaN(published) ? {} : { publishedAt: new Date(published).toISOString() }),
+      };
+    });
+  }
+
+  /**
+   * Text content of the first child element with the given name, with CDATA
+   * unwrapped, entities decoded and markup removed
+   */
+  private static text(xml: string, element: string): string {
+    const match = new RegExp(`<${element}(?:\\s[^>]*)?>([\\s\\S]*?)</${element}>`, 'i').exec(xml);
+    if (!match?.[1]) {
+      return '';
+    }
+    // Descriptions are often escaped HTML, so markup is removed after decoding
+    const content = match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+    return this.decodeEntities(content)
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static attribute(xml: string, element: string, name: string): string {
+    const tag = new RegExp(`<${element}\\b[^>]*\\b${name}="([^"]*)"`, 'i').exec(xml);
+    return tag?.[1] ? this.decodeEntities(tag[1]) : '';
+  }
+
+  /**
+   * RSS <category>text</category> and Atom <category term="text"/>
+   */
+  private static categories(entry: string): string[] {
+    const tags = [...entry.matchAll(/<category\b([^>]*?)(?:\/>|>([\s\S]*?)<\/category>)/gi)].map(
+      ([, attributes = '', content]) =>
+        content !== undefined
+          ? this.text(`<category>${content}</category>`, 'category')
+          : this.decodeEntities(/\bterm="([^"]*)"/.exec(attributes)?.[1] ?? '')
+    );
+    return [...new Set(tags.filter(Boolean))];
+  }
+
+  private static decodeEntities(text: string): string {
+    return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+      if (name.startsWith('#')) {
+        const code =
+          name[1]?.toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+        return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+      }
+      return this.ENTITIES[name.toLowerCase()] ?? entity;
+    });
+  }
+
+  /**
+   * Feeds identify entries by URL or GUID; NewsArticle ids are numbers, so
+   * the identifier is hashed (32-bit FNV-1a)
+   */
+  private static hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < value.length; index++) {
+      hash ^= value.charCodeAt(index);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Collects what happened during one dashboard run: the final data,
+ * timings, fallbacks and errors
+ */
+
+import { Logger } from './logger';
+import { ResponseCache } from './responseCache';
+import { ConnectionPool } from './connectionPool';
+import { ApiError } from './errors';
+import {
+  AsyncMethod,
+  CacheStats,
+  DashboardData,
+  DashboardRunResult,
+  ErrorDetails,
+  FallbackEntry,
+  TimingEntry,
+} from '../types';
+
+export class RunReport {
+  private readonly startTime = Date.now();
+  private readonly timings: TimingEntry[] = [];
+  private readonly fallbacks: FallbackEntry[] = [];
+  private readonly errors: ErrorDetails[] = [];
+  private readonly method: AsyncMethod;
+  private readonly cacheAtStart = ResponseCache.stats();
+  private readonly connectionsAtStart = ConnectionPool.stats();
+  private cacheAtLastTiming = this.cacheAtStart;
+  private data: DashboardData | null = null;
+
+  constructor(method: AsyncMethod) {
+    this.method = method;
+  }
+
+  /**
+   * Log a timing and keep it for the run result, together with the cache
+   * activity since the previous timing
+   */
+  public timing(operation: string, duration: number): void {
+    const cacheNow = ResponseCache.stats();
+    const cache = ResponseCache.difference(cacheNow, this.cacheAtLastTiming);
+    this.cacheAtLastTiming = cacheNow;
+
+    if (ResponseCache.isEmpty(cache)) {
+      Logger.timing(operation, duration);
+      this.timings.push({ operation, duration });
+    } else {
+      Logger.timing(operation, duration, cache);
+      this.timings.push({ operation, duration, cache });
+    }
+  }
+
+  public fallback(source: FallbackEntry['source'], reason: string): void {
+    this.fallbacks.push({ source, reason });
+  }
+
+  /**
+   * Record an error with its structured fields, e.g. the status and URL of
+   * an HttpStatusError
+   */
+  public error(error: unknown): void {
+    this.errors.push(ApiError.details(error));
+  }
+
+  /**
+   * Remember the most recent dashboard data shown during the run
+   */
+  public setData(data: DashboardData): void {
+    this.data = data;
+  }
+
+  private cacheSinceStart(): CacheStats {
+    return ResponseCache.difference(ResponseCache.stats(), this.cacheAtStart);
+  }
+
+  public finish(): DashboardRunResult {
+    const finishedAt = Date.now();
+
+    return {
+      method: this.method,
+      success: this.errors.length === 0,
+      startedAt: new Date(this.startTime).toISOString(),
+      finishedAt: new Date(finishedAt).toISOString(),
+      duration: finishedAt - this.startTime,
+      data: this.data,
+      timings: [...this.timings],
+      fallbacks: [...this.fallbacks],
+      errors: [...this.errors],
+      cache: this.cacheSinceStart(),
+      connections: ConnectionPool.difference(ConnectionPool.stats(), this.connectionsAtStart),
+    };
+  }
+}
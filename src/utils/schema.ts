@@ -0,0 +1,115 @@
+/**
+ * Declarative schemas for checking untrusted JSON such as upstream API
+ * responses. A schema returns the value typed as described; every mismatch
+ * is collected with its path, e.g. "posts[3].reactions.likes", and reported
+ * together in one ValidationError.
+ */
+
+import { ValidationError } from './errors';
+import { ValidationIssue } from '../types';
+
+/**
+ * Checks a value found at `path`, recording mismatches in `issues`
+ */
+export type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+/**
+ * The type a validator produces
+ */
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+type Shape = Record<string, Validator<unknown>>;
+
+export class Schema {
+  public static string(): Validator<string> {
+    return this.primitive('string', (value): value is string => typeof value === 'string');
+  }
+
+  public static number(): Validator<number> {
+    return this.primitive(
+      'number',
+      (value): value is number => typeof value === 'number' && Number.isFinite(value)
+    );
+  }
+
+  public static boolean(): Validator<boolean> {
+    return this.primitive('boolean', (value): value is boolean => typeof value === 'boolean');
+  }
+
+  public static nullable<T>(validator: Validator<T>): Validator<T | null> {
+    return (value, path, issues) => (value === null ? null : validator(value, path, issues));
+  }
+
+  /**
+   * Allows the value to be missing
+   */
+  public static optional<T>(validator: Validator<T>): Validator<T | undefined> {
+    return (value, path, issues) =>
+      value === undefined ? undefined : validator(value, path, issues);
+  }
+
+  public static array<T>(item: Validator<T>): Validator<T[]> {
+    return (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        this.mismatch('array', value, path, issues);
+        return [];
+      }
+      return value.map((element, index) => item(element, `${path}[${index}]`, issues));
+    };
+  }
+
+  /**
+   * An object with the given properties. Properties not in the shape are
+   * kept as they are.
+   */
+  public static object<S extends Shape>(shape: S): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+    return (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        this.mismatch('object', value, path, issues);
+        return {} as { [K in keyof S]: Infer<S[K]> };
+      }
+
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...record };
+      for (const [key, validator] of Object.entries(shape)) {
+        result[key] = validator(record[key], path ? `${path}.${key}` : key, issues);
+      }
+      return result as { [K in keyof S]: Infer<S[K]> };
+    };
+  }
+
+  /**
+   * Check a value, throwing a ValidationError naming `source` and every
+   * mismatch found
+   */
+  public static validate<T>(validator: Validator<T>, value: unknown, source: string): T {
+    const issues: ValidationIssue[] = [];
+    const result = validator(value, '', issues);
+    if (issues.length > 0) {
+      throw new ValidationError(source, issues);
+    }
+    return result;
+  }
+
+  private static primitive<T>(
+    expected: string,
+    matches: (value: unknown) => value is T
+  ): Validator<T> {
+    return (value, path, issues) => {
+      if (!matches(value)) {
+        this.mismatch(expected, value, path, issues);
+      }
+      return value as T;
+    };
+  }
+
+  private static mismatch(
+    expected: string,
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[]
+  ): void {
+    const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    issues.push({ path: path || '(root)', message: `expected ${expected}, got ${actual}` });
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Unit presets, Open-Meteo request parameters, conversions and formatting
+ * for temperature, wind speed and precipitation
+ */
+
+import {
+  PrecipitationUnit,
+  TemperatureUnit,
+  UnitPreference,
+  UnitSystem,
+  WeatherData,
+  WeatherUnits,
+  WindSpeedUnit,
+} from '../types';
+
+export class Units {
+  private static readonly PRESETS: Record<UnitSystem, WeatherUnits> = {
+    metric: { temperature: 'celsius', windSpeed: 'kmh', precipitation: 'mm' },
+    imperial: { temperature: 'fahrenheit', windSpeed: 'mph', precipitation: 'inch' },
+    si: { temperature: 'kelvin', windSpeed: 'ms', precipitation: 'mm' },
+  };
+
+  private static readonly TEMPERATURE_SYMBOLS: Record<TemperatureUnit, string> = {
+    celsius: '°C',
+    fahrenheit: '°F',
+    kelvin: ' K',
+  };
+
+  private static readonly WIND_SPEED_SYMBOLS: Record<WindSpeedUnit, string> = {
+    kmh: 'km/h',
+    ms: 'm/s',
+    mph: 'mph',
+    kn: 'kn',
+  };
+
+  // km/h per unit
+  private static readonly WIND_SPEED_FACTORS: Record<WindSpeedUnit, number> = {
+    kmh: 1,
+    ms: 3.6,
+    mph: 1.609344,
+    kn: 1.852,
+  };
+
+  private static readonly PRECIPITATION_SYMBOLS: Record<PrecipitationUnit, string> = {
+    mm: 'mm',
+    inch: 'in',
+  };
+
+  public static readonly METRIC: WeatherUnits = Units.PRESETS.metric;
+  /** Shown in place of values the source did not provide */
+  public static readonly NOT_AVAILABLE = 'n/a';
+
+  public static isUnitSystem(value: string): value is UnitSystem {
+    return Object.prototype.hasOwnProperty.call(this.PRESETS, value);
+  }
+
+  /**
+   * Resolve a preset name or partial unit set into a complete WeatherUnits,
+   * filling anything unspecified from metric
+   */
+  public static resolve(preference: UnitPreference = 'metric'): WeatherUnits {
+    if (typeof preference === 'string') {
+      return { ...this.PRESETS[preference] };
+    }
+
+    return { ...this.METRIC, ...preference };
+  }
+
+  /**
+   * Open-Meteo query parameters for the given units. Kelvin is not offered
+   * by the API, so Celsius is requested and converted afterwards.
+   */
+  public static toRequestParams(units: WeatherUnits): Record<string, string> {
+    return {
+      temperature_unit: units.temperature === 'fahrenheit' ? 'fahrenheit' : 'celsius',
+      wind_speed_unit: units.windSpeed,
+      precipitation_unit: units.precipitation,
+    };
+  }
+
+  /**
+   * The units Open-Meteo will actually answer in for a requested unit set
+   */
+  public static requestedFromApi(units: WeatherUnits): WeatherUnits {
+    return {
+      ...units,
+      temperature: units.temperature === 'kelvin' ? 'celsius' : units.temperature,
+    };
+  }
+
+  public static convertTemperature(
+    value: number,
+    from: TemperatureUnit,
+    to: TemperatureUnit
+  ): number {
+    if (from === to) {
+      return value;
+    }
+
+    const celsius =
+      from === 'fahrenheit' ? ((value - 32) * 5) / 9 : from === 'kelvin' ? value - 273.15 : value;
+    const converted =
+      to === 'fahrenheit' ? (celsius * 9) / 5 + 32 : to === 'kelvin' ? celsius + 273.15 : celsius;
+    return this.round(converted);
+  }
+
+  public static convertWindSpeed(value: number, from: WindSpeedUnit, to: WindSpeedUnit): number {
+    if (from === to) {
+      return value;
+    }
+
+    return this.round((value * this.WIND_SPEED_FACTORS[from]) / this.WIND_SPEED_FACTORS[to]);
+  }
+
+  public static convertPrecipitation(
+    value: number,
+    from: PrecipitationUnit,
+    to: PrecipitationUnit
+  ): number {
+    if (from === to) {
+      return value;
+    }
+
+    return this.round(from === 'inch' ? value * 25.4 : value / 25.4, 2);
+  }
+
+  /**
+   * Convert weather data (fresh, cached or fallback) from whatever units it
+   * carries into the target units
+   */
+  public static convertWeather(weather: WeatherData, target: WeatherUnits): WeatherData {
+    const from = weather.units;
+    const temperature = (value: number): number =>
+      this.convertTemperature(value, from.temperature, target.temperature);
+    const windSpeed = (value: number): number =>
+      this.convertWindSpeed(value, from.windSpeed, target.windSpeed);
+    const precipitation = (value: number): number =>
+      this.convertPrecipitation(value, from.precipitation, target.precipitation);
+    // Missing values stay missing
+    const optional =
+      (convert: (value: number) => number) =>
+      (value: number | null): number | null =>
+        value === null ? null : convert(value);
+
+    const converted: WeatherData = {
+      ...weather,
+      current: {
+        ...weather.current,
+        temperature: temperature(weather.current.temperature),
+        apparentTemperature: temperature(weather.current.apparentTemperature),
+        windSpeed: windSpeed(weather.current.windSpeed),
+        precipitation: optional(precipitation)(weather.current.precipitation),
+      },
+      units: { ...target },
+    };
+
+    if (weather.forecast) {
+      converted.forecast = {
+        hourly: weather.forecast.hourly.map((hour) => ({
+          ...hour,
+          temperature: optional(temperature)(hour.temperature),
+          windSpeed: optional(windSpeed)(hour.windSpeed),
+        })),
+        daily: weather.forecast.daily.map((day) => ({
+          ...day,
+          temperatureMin: optional(temperature)(day.temperatureMin),
+          temperatureMax: optional(temperature)(day.temperatureMax),
+          precipitationSum: optional(precipitation)(day.precipitationSum),
+        })),
+      };
+    }
+
+    return converted;
+  }
+
+  public static formatTemperature(value: number | null, units: WeatherUnits): string {
+    return value === null
+      ? this.NOT_AVAILABLE
+      : `${value}${this.TEMPERATURE_SYMBOLS[units.temperature]}`;
+  }
+
+  public static formatWindSpeed(value: number | null, units: WeatherUnits): string {
+    return value === null
+      ? this.NOT_AVAILABLE
+      : `${value} ${this.WIND_SPEED_SYMBOLS[units.windSpeed]}`;
+  }
+
+  public static formatPrecipitation(value: number | null, units: WeatherUnits): string {
+    return value === null
+      ? this.NOT_AVAILABLE
+      : `${value} ${this.PRECIPITATION_SYMBOLS[units.precipitation]}`;
+  }
+
+  /**
+   * Humidity, cloud cover and probabilities
+   */
+  public static formatPercent(value: number | null): string {
+    return value === null ? this.NOT_AVAILABLE : `${value}%`;
+  }
+
+  private static round(value: number, decimals = 1): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+}
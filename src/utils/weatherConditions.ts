@@ -0,0 +1,64 @@
+/**
+ * WMO weather interpretation codes (as returned in Open-Meteo's
+ * `weather_code` field) mapped to descriptions and icon names
+ */
+
+import { WeatherCondition } from '../types';
+
+interface ConditionEntry {
+  description: string;
+  icon: string;
+  nightIcon?: string;
+}
+
+export class WeatherConditions {
+  private static readonly UNKNOWN: ConditionEntry = { description: 'Unknown', icon: 'unknown' };
+
+  private static readonly WMO_CODES: Record<number, ConditionEntry> = {
+    0: { description: 'Clear sky', icon: 'clear-day', nightIcon: 'clear-night' },
+    1: { description: 'Mainly clear', icon: 'clear-day', nightIcon: 'clear-night' },
+    2: {
+      description: 'Partly cloudy',
+      icon: 'partly-cloudy-day',
+      nightIcon: 'partly-cloudy-night',
+    },
+    3: { description: 'Overcast', icon: 'overcast' },
+    45: { description: 'Fog', icon: 'fog' },
+    48: { description: 'Depositing rime fog', icon: 'fog' },
+    51: { description: 'Light drizzle', icon: 'drizzle' },
+    53: { description: 'Moderate drizzle', icon: 'drizzle' },
+    55: { description: 'Dense drizzle', icon: 'drizzle' },
+    56: { description: 'Light freezing drizzle', icon: 'sleet' },
+    57: { description: 'Dense freezing drizzle', icon: 'sleet' },
+    61: { description: 'Slight rain', icon: 'rain' },
+    63: { description: 'Moderate rain', icon: 'rain' },
+    65: { description: 'Heavy rain', icon: 'rain' },
+    66: { description: 'Light freezing rain', icon: 'sleet' },
+    67: { description: 'Heavy freezing rain', icon: 'sleet' },
+    71: { description: 'Slight snow fall', icon: 'snow' },
+    73: { description: 'Moderate snow fall', icon: 'snow' },
+    75: { description: 'Heavy snow fall', icon: 'snow' },
+    77: { description: 'Snow grains', icon: 'snow' },
+    80: { description: 'Slight rain showers', icon: 'showers-day', nightIcon: 'showers-night' },
+    81: { description: 'Moderate rain showers', icon: 'showers-day', nightIcon: 'showers-night' },
+    82: { description: 'Violent rain showers', icon: 'showers-day', nightIcon: 'showers-night' },
+    85: { description: 'Slight snow showers', icon: 'snow-showers' },
+    86: { description: 'Heavy snow showers', icon: 'snow-showers' },
+    95: { description: 'Thunderstorm', icon: 'thunderstorm' },
+    96: { description: 'Thunderstorm with slight hail', icon: 'thunderstorm-hail' },
+    99: { description: 'Thunderstorm with heavy hail', icon: 'thunderstorm-hail' },
+  };
+
+  /**
+   * Describe a WMO code; unknown or missing codes map to an 'Unknown' condition
+   */
+  public static describe(code: number | null | undefined, isDay = true): WeatherCondition {
+    const entry = typeof code === 'number' ? (this.WMO_CODES[code] ?? this.UNKNOWN) : this.UNKNOWN;
+
+    return {
+      code: typeof code === 'number' ? code : null,
+      description: entry.description,
+      icon: !isDay && entry.nightIcon ? entry.nightIcon : entry.icon,
+    };
+  }
+}
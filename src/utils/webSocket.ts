@@ -0,0 +1,215 @@
+/**
+ * Minimal server side WebSocket (RFC 6455) support on top of the http
+ * `upgrade` event: opening handshake, text messages, ping/pong and close
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { Duplex } from 'stream';
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+export class WebSocketConnection {
+  private static readonly HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+  private static readonly MAX_MESSAGE_SIZE = 1024 * 1024;
+
+  private static readonly OPCODE_CONTINUATION = 0x0;
+  private static readonly OPCODE_TEXT = 0x1;
+  private static readonly OPCODE_CLOSE = 0x8;
+  private static readonly OPCODE_PING = 0x9;
+  private static readonly OPCODE_PONG = 0xa;
+
+  private readonly socket: Duplex;
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+  private messageHandler: ((message: string) => void) | undefined;
+  private closeHandler: (() => void) | undefined;
+
+  /**
+   * Complete the opening handshake for an upgrade request. Answers 400 and
+   * returns null when the request is not a valid WebSocket handshake.
+   */
+  public static accept(req: http.IncomingMessage, socket: Duplex): WebSocketConnection | null {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+      return null;
+    }
+
+    const accept = crypto
+      .createHash('sha1')
+      .update(key + this.HANDSHAKE_GUID)
+      .digest('base64');
+
+    socket.write(
+      [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        '',
+      ].join('\r\n')
+    );
+
+    return new WebSocketConnection(socket);
+  }
+
+  constructor(socket: Duplex) {
+    this.socket = socket;
+    this.socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    this.socket.on('close', () => {
+      this.closed = true;
+      this.closeHandler?.();
+    });
+    this.socket.on('error', () => this.socket.destroy());
+  }
+
+  public onMessage(handler: (message: string) => void): void {
+    this.messageHandler = handler;
+  }
+
+  public onClose(handler: () => void): void {
+    this.closeHandler = handler;
+  }
+
+  public send(message: string): void {
+    if (!this.closed) {
+      this.socket.write(this.frame(WebSocketConnection.OPCODE_TEXT, Buffer.from(message, 'utf8')));
+    }
+  }
+
+  /**
+   * Send a close frame with the given status code and end the connection
+   */
+  public close(code: number = 1000): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.socket.end(this.frame(WebSocketConnection.OPCODE_CLOSE, payload));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let frame = this.parseFrame();
+    while (frame && !this.closed) {
+      this.handleFrame(frame);
+      frame = this.parseFrame();
+    }
+  }
+
+  /**
+   * Take one complete frame off the buffer, or return null if more data is needed
+   */
+  private parseFrame(): Frame | null {
+    if (this.buffer.length < 2) {
+      return null;
+    }
+
+    const first = this.buffer.readUInt8(0);
+    const second = this.buffer.readUInt8(1);
+    let length = second & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (this.buffer.length < 4) {
+        return null;
+      }
+      length = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (this.buffer.length < 10) {
+        return null;
+      }
+      length = Number(this.buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    if (length > WebSocketConnection.MAX_MESSAGE_SIZE) {
+      this.close(1009);
+      return null;
+    }
+
+    // Clients must mask every frame they send
+    if ((second & 0x80) === 0) {
+      this.close(1002);
+      return null;
+    }
+
+    if (this.buffer.length < offset + 4 + length) {
+      return null;
+    }
+
+    const mask = this.buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+    for (let index = 0; index < payload.length; index++) {
+      payload.writeUInt8(payload.readUInt8(index) ^ mask.readUInt8(index % 4), index);
+    }
+
+    this.buffer = this.buffer.subarray(offset + 4 + length);
+    return { fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload };
+  }
+
+  private handleFrame(frame: Frame): void {
+    switch (frame.opcode) {
+      case WebSocketConnection.OPCODE_TEXT:
+      case WebSocketConnection.OPCODE_CONTINUATION: {
+        this.fragments.push(frame.payload);
+        const size = this.fragments.reduce((total, fragment) => total + fragment.length, 0);
+        if (size > WebSocketConnection.MAX_MESSAGE_SIZE) {
+          this.close(1009);
+        } else if (frame.fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.messageHandler?.(message);
+        }
+        break;
+      }
+
+      case WebSocketConnection.OPCODE_CLOSE:
+        this.close();
+        break;
+
+      case WebSocketConnection.OPCODE_PING:
+        this.socket.write(this.frame(WebSocketConnection.OPCODE_PONG, frame.payload));
+        break;
+
+      case WebSocketConnection.OPCODE_PONG:
+        break;
+
+      default:
+        // Binary and reserved opcodes are not part of our protocol
+        this.close(1003);
+    }
+  }
+
+  private frame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+
+    if (payload.length < 126) {
+      header = Buffer.alloc(2);
+      header.writeUInt8(payload.length, 1);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header.writeUInt8(126, 1);
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header.writeUInt8(127, 1);
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    header.writeUInt8(0x80 | opcode, 0);
+    return Buffer.concat([header, payload]);
+  }
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { CircuitBreaker } from '../src/utils/circuitBreaker';
+import { AbortError, CircuitOpenError, HttpStatusError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+const host = 'api.example.com';
+const unavailable = (): HttpStatusError => new HttpStatusError(503, 'Service Unavailable');
+
+const state = (): string | undefined =>
+  CircuitBreaker.status().find((circuit) => circuit.host === host)?.state;
+
+/**
+ * Fail enough requests to open the circuit, then wait out the cool-down
+ */
+const halfOpen = async (): Promise<number> => {
+  CircuitBreaker.record(host, unavailable());
+  CircuitBreaker.record(host, unavailable());
+  assert.equal(state(), 'open');
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  return CircuitBreaker.acquire(host);
+};
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    Logger.configure({ level: 'silent' });
+    CircuitBreaker.reset();
+    CircuitBreaker.configure({ failureThreshold: 2, cooldown: 20 });
+  });
+
+  afterEach(() => {
+    CircuitBreaker.reset();
+    CircuitBreaker.configure({ failureThreshold: 5, cooldown: 30 * 1000 });
+  });
+
+  it('fails fast while open', () => {
+    CircuitBreaker.record(host, unavailable());
+    CircuitBreaker.record(host, unavailable());
+
+    assert.throws(() => CircuitBreaker.acquire(host), CircuitOpenError);
+  });
+
+  it('closes when the half-open trial succeeds', async () => {
+    const trial = await halfOpen();
+
+    assert.ok(trial > 0);
+    assert.equal(state(), 'half-open');
+    CircuitBreaker.record(host, null, trial);
+    assert.equal(state(), 'closed');
+    assert.equal(CircuitBreaker.acquire(host), 0);
+  });
+
+  it('opens again when the half-open trial fails', async () => {
+    const trial = await halfOpen();
+
+    CircuitBreaker.record(host, unavailable(), trial);
+    assert.equal(state(), 'open');
+    assert.throws(() => CircuitBreaker.acquire(host), CircuitOpenError);
+  });
+
+  it('lets one trial through at a time', async () => {
+    const trial = await halfOpen();
+
+    assert.throws(() => CircuitBreaker.acquire(host), CircuitOpenError);
+    // A request sent before the circuit opened is cancelled, the trial runs on
+    CircuitBreaker.record(host, new AbortError());
+    assert.throws(() => CircuitBreaker.acquire(host), CircuitOpenError);
+
+    // Cancelling the trial itself frees it for the next request
+    CircuitBreaker.record(host, new AbortError(), trial);
+    const next = CircuitBreaker.acquire(host);
+    assert.ok(next > 0 && next !== trial);
+  });
+
+  it('does not count client errors as failures', () => {
+    for (let request = 0; request < 5; request++) {
+      CircuitBreaker.record(host, new HttpStatusError(404, 'Not Found'));
+    }
+    assert.deepEqual(CircuitBreaker.status(), []);
+
+    CircuitBreaker.record(host, unavailable());
+    CircuitBreaker.record(host, new HttpStatusError(400, 'Bad Request'));
+    CircuitBreaker.record(host, unavailable());
+    assert.equal(state(), 'closed');
+    assert.equal(CircuitBreaker.acquire(host), 0);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { Cli, CliUsageError } from '../src/cli';
+import { Dashboards } from '../src/dashboards';
+import { Logger } from '../src/utils/logger';
+import { AsyncMethod, WeatherData } from '../src/types';
+
+/**
+ * Run the CLI, collecting what it writes to stdout (console.log) and stderr
+ * (console.error) line by line
+ */
+const run = async (
+  argv: string[]
+): Promise<{ exitCode: number; stdout: string[]; stderr: string[] }> => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const { log, error } = console;
+  console.log = (...args: unknown[]) => stdout.push(args.join(' '));
+  console.error = (...args: unknown[]) => stderr.push(args.join(' '));
+  try {
+    return { exitCode: await Cli.execute(argv), stdout, stderr };
+  } finally {
+    console.log = log;
+    console.error = error;
+    Logger.configure({ level: 'silent', stderr: false });
+  }
+};
+
+describe('Cli.parse', () => {
+  it('runs every method with no options by default', () => {
+    const command = Cli.parse([]);
+
+    assert.equal(command.name, 'run');
+    assert.deepEqual(command.methods, Dashboards.ALL_METHODS);
+    assert.deepEqual(command.options, {});
+    assert.equal(command.json, false);
+    assert.equal(command.color, true);
+    assert.equal(command.help, false);
+  });
+
+  it('reads the command and its dashboard options', () => {
+    const command = Cli.parse([
+      'weather',
+      '--city',
+      'Paris, France',
+      '--units=imperial',
+      '--forecast',
+      '3',
+      '--json',
+    ]);
+
+    assert.equal(command.name, 'weather');
+    assert.deepEqual(command.options, {
+      location: { city: 'Paris', country: 'France' },
+      units: 'imperial',
+      forecastDays: 3,
+    });
+    assert.equal(command.json, true);
+  });
+
+  it('uses the default forecast length when no number of days follows', () => {
+    assert.equal(Cli.parse(['--forecast', '--json']).options.forecastDays, 7);
+    assert.equal(Cli.parse(['--forecast=2']).options.forecastDays, 2);
+  });
+
+  it('reads coordinates and news options', () => {
+    const command = Cli.parse([
+      'news',
+      '--lat',
+      '48.85',
+      '--lon=2.35',
+      '--limit',
+      '5',
+      '--skip',
+      '10',
+      '--tag',
+      'history',
+      '--sort',
+      'likes',
+      '--order',
+      'asc',
+      '--no-validate',
+    ]);
+
+    assert.deepEqual(command.options, {
+      location: { lat: 48.85, lon: 2.35 },
+      newsLimit: 5,
+      newsSkip: 10,
+      newsTag: 'history',
+      newsSortBy: 'likes',
+      newsOrder: 'asc',
+      validate: false,
+    });
+  });
+
+  it('selects one method by name', () => {
+    assert.deepEqual(Cli.parse(['run', '--method', 'promise']).methods, [AsyncMethod.PROMISE]);
+    assert.deepEqual(Cli.parse(['run', '--method=all']).methods, Dashboards.ALL_METHODS);
+  });
+
+  it('reads mock faults for the chosen endpoints', () => {
+    const command = Cli.parse([
+      'mock',
+      '--error-rate',
+      '0.5',
+      '--max-faults',
+      '2',
+      '--fault-endpoints',
+      'forecast,posts',
+      '--seed',
+      '7',
+    ]);
+
+    const faults = { errorRate: 0.5, maxFaults: 2 };
+    assert.deepEqual(command.mock, { endpoints: { forecast: faults, posts: faults }, seed: 7 });
+  });
+
+  it('treats -h as --help', () => {
+    assert.equal(Cli.parse(['-h']).help, true);
+  });
+
+  it('rejects invalid arguments with a usage error', () => {
+    const invalid: Array<[string[], RegExp]> = [
+      [['fly'], /Unknown command: fly/],
+      [['run', 'news'], /Unexpected argument: news/],
+      [['--colour'], /Unknown option: --colour/],
+      [['--city'], /Missing value for --city/],
+      [['--city', '--json'], /Missing value for --city/],
+      [['--units', 'kelvin'], /Unknown unit system/],
+      [['--forecast=0'], /--forecast must be a whole number of days from 1 to 16/],
+      [['--forecast', '17'], /--forecast must be a whole number of days from 1 to 16/],
+      [['--forecast=2.5'], /--forecast must be a whole number/],
+      [['--forecast=abc'], /--forecast requires a number/],
+      [['--limit', '0'], /--limit must be a positive integer/],
+      [['--skip', '-1'], /--skip must be a non-negative integer/],
+      [['--sort', 'title'], /Unknown sort field/],
+      [['--order', 'up'], /--order must be asc or desc/],
+      [['--method', 'threads'], /Unknown method/],
+      [['--error-rate', '2'], /--error-rate must be between 0 and 1/],
+      [['--fault-endpoints', 'weather'], /Unknown mock endpoint/],
+      [['--mock', '--upstream', 'localhost:4000'], /cannot be combined/],
+      [['--record', 'a', '--replay', 'b'], /cannot be combined/],
+    ];
+
+    for (const [argv, message] of invalid) {
+      assert.throws(
+        () => Cli.parse(argv),
+        (error: unknown) => error instanceof CliUsageError && message.test(error.message),
+        argv.join(' ')
+      );
+    }
+  });
+});
+
+describe('Cli.execute', () => {
+  it('exits with the usage code for invalid arguments', async () => {
+    const { exitCode, stdout, stderr } = await run(['--units', 'kelvin']);
+
+    assert.equal(exitCode, Cli.EXIT_USAGE);
+    assert.deepEqual(stdout, []);
+    assert.match(stderr.join('\n'), /Unknown unit system/);
+  });
+
+  it('exits with the usage code for forecasts the API would reject', async () => {
+    for (const forecast of ['--forecast=0', '--forecast=-2', '--forecast=30']) {
+      const { exitCode, stdout } = await run(['weather', forecast]);
+      assert.equal(exitCode, Cli.EXIT_USAGE, forecast);
+      assert.deepEqual(stdout, []);
+    }
+  });
+
+  it('prints exactly one JSON document to stdout with --json, progress to stderr', async () => {
+    const { exitCode, stdout, stderr } = await run([
+      'weather',
+      '--city',
+      'Paris',
+      '--mock',
+      '--json',
+      '--no-color',
+    ]);
+
+    assert.equal(exitCode, Cli.EXIT_SUCCESS);
+    assert.equal(stdout.length, 1);
+    const weather = JSON.parse(stdout[0] ?? '') as WeatherData;
+    assert.equal(weather.location.name, 'Paris');
+    assert.ok(stderr.some((line) => line.includes('Using mock upstream')));
+  });
+
+  it('prints the failure as the JSON document with --json', async () => {
+    const { exitCode, stdout } = await run([
+      'weather',
+      '--city',
+      'Atlantis',
+      '--mock',
+      '--json',
+      '--no-color',
+    ]);
+
+    assert.equal(exitCode, Cli.EXIT_FAILURE);
+    assert.equal(stdout.length, 1);
+    const { success, error } = JSON.parse(stdout[0] ?? '') as {
+      success: boolean;
+      error: Record<string, unknown>;
+    };
+    assert.equal(success, false);
+    assert.equal(error.name, 'LocationNotFoundError');
+    assert.equal(error.message, 'Location not found: Atlantis');
+    assert.equal(error.status, 404);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { DashboardDisplay } from '../src/utils/dashboardDisplay';
+import { NewsArticle, NewsData } from '../src/types';
+
+const article = (id: number, title: string, source?: string): NewsArticle => ({
+  id,
+  title,
+  body: '',
+  tags: [],
+  reactions: { likes: id * 10, dislikes: 0 },
+  views: id * 100,
+  userId: 1,
+  ...(source ? { source } : {}),
+});
+
+describe('DashboardDisplay.headlines', () => {
+  it('shows the first headlines with their likes, views and source', () => {
+    const news: NewsData = {
+      posts: [article(1, 'One'), article(2, 'Two', 'hacker-news'), article(3, 'Three')],
+      total: 3,
+      skip: 0,
+      limit: 3,
+      source: 'dummyjson',
+    };
+
+    assert.deepEqual(DashboardDisplay.headlines(news, 2), [
+      { title: 'One', likes: 10, views: 100, source: 'dummyjson' },
+      { title: 'Two', likes: 20, views: 200, source: 'hacker-news' },
+    ]);
+  });
+
+  it('shortens long titles and leaves out an unknown source', () => {
+    const news: NewsData = { posts: [article(1, 'x'.repeat(80))], total: 1, skip: 0, limit: 1 };
+    const [row] = DashboardDisplay.headlines(news);
+
+    assert.equal(row?.title, `${'x'.repeat(60)}...`);
+    assert.equal(row?.source, undefined);
+  });
+});
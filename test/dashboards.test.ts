@@ -0,0 +1,286 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import CallbackDashboard from '../src/callbackVersion';
+import PromiseDashboard from '../src/promiseVersion';
+import AsyncAwaitDashboard from '../src/asyncAwaitVersion';
+import { MockUpstreamServer } from '../src/mockServer';
+import { RunReport } from '../src/utils/runReport';
+import { Logger } from '../src/utils/logger';
+import { ApiError, HttpStatusError, TimeoutError } from '../src/utils/errors';
+import {
+  AsyncMethod,
+  CallbackFunction,
+  DashboardData,
+  DashboardOptions,
+  NewsData,
+  WeatherData,
+} from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+const options: DashboardOptions = {
+  location: { city: 'Paris', country: 'France' },
+  newsLimit: 4,
+};
+
+/**
+ * Settle a promise with the outcome of a callback style call
+ */
+const fromCallback = <T>(call: (callback: CallbackFunction<T>) => void): Promise<T> =>
+  new Promise((resolve, reject) =>
+    call((error, data) =>
+      error || data === undefined ? reject(error ?? new Error('No data received')) : resolve(data)
+    )
+  );
+
+/**
+ * The three implementations' fetchDashboard behind one signature
+ */
+const implementations: Record<string, (options: DashboardOptions) => Promise<DashboardData>> = {
+  callback: (options) =>
+    fromCallback<DashboardData>((callback) => CallbackDashboard.fetchDashboard(options, callback)),
+  promise: (options) => PromiseDashboard.fetchDashboard(options),
+  async: (options) => AsyncAwaitDashboard.fetchDashboard(options),
+};
+
+describe('dashboards', () => {
+  let server: MockUpstreamServer;
+
+  before(async () => {
+    server = await TestUpstream.start();
+  });
+
+  after(() => TestUpstream.stop());
+
+  beforeEach(() => TestUpstream.reset());
+
+  for (const [name, fetchDashboard] of Object.entries(implementations)) {
+    describe(`${name} fetchDashboard`, () => {
+      it('returns weather for the location and the requested page of news', async () => {
+        const data = await fetchDashboard(options);
+
+        assert.equal(data.weather.location.name, 'Paris');
+        assert.equal(data.weather.location.country, 'France');
+        assert.equal(data.weather.source, 'open-meteo');
+        assert.equal(data.weather.units.temperature, 'celsius');
+        assert.equal(typeof data.weather.current.temperature, 'number');
+        assert.equal(data.news.source, 'dummyjson');
+        assert.equal(data.news.posts.length, 4);
+        assert.equal(data.news.skip, 0);
+        assert.deepEqual(server.stats().requests, { forecast: 1, geocoding: 1, posts: 1 });
+      });
+
+      it('retries failed requests before succeeding', async () => {
+        server.configure({ errorRate: 1, maxFaults: TestUpstream.RETRIES }, 'posts');
+
+        const data = await fetchDashboard(options);
+
+        assert.equal(data.news.posts.length, 4);
+        assert.equal(server.stats().requests.posts, TestUpstream.RETRIES + 1);
+        assert.equal(server.stats().faults.error, TestUpstream.RETRIES);
+      });
+
+      it('fails with the HTTP error once the retries are used up', async () => {
+        server.configure({ errorRate: 1 }, 'forecast');
+
+        await assert.rejects(fetchDashboard(options), (error: unknown) => {
+          assert.ok(error instanceof HttpStatusError);
+          assert.equal(error.status, 500);
+          assert.equal(error.attempts, TestUpstream.RETRIES + 1);
+          return true;
+        });
+        assert.equal(server.stats().requests.forecast, TestUpstream.RETRIES + 1);
+      });
+
+      it('fails with a TimeoutError when the upstream does not answer', async () => {
+        server.configure({ timeoutRate: 1 }, 'posts');
+
+        await assert.rejects(fetchDashboard(options), TimeoutError);
+        assert.equal(server.stats().requests.posts, TestUpstream.RETRIES + 1);
+      });
+    });
+  }
+
+  it('all three implementations return the same data for the same options', async () => {
+    const query: DashboardOptions = {
+      ...options,
+      units: 'imperial',
+      forecastDays: 2,
+      newsTag: 'history',
+      newsSortBy: 'likes',
+    };
+    const results = await Promise.all(
+      Object.values(implementations).map((fetchDashboard) => fetchDashboard(query))
+    );
+    const [first, ...others] = results.map((data) => TestUpstream.withoutTimestamps(data));
+
+    assert.equal(first?.weather.units.temperature, 'fahrenheit');
+    assert.equal(first?.weather.forecast?.daily.length, 2);
+    assert.ok(first?.news.posts.every((post) => post.tags.includes('history')));
+    for (const other of others) {
+      assert.deepEqual(other, first);
+    }
+  });
+
+  it('fetchWeather and fetchNews agree across the implementations', async () => {
+    const weather = await Promise.all([
+      fromCallback<WeatherData>((callback) => CallbackDashboard.fetchWeather(options, callback)),
+      PromiseDashboard.fetchWeather(options),
+      AsyncAwaitDashboard.fetchWeather(options),
+    ]);
+    const news = await Promise.all([
+      fromCallback<NewsData>((callback) => CallbackDashboard.fetchNews(options, callback)),
+      PromiseDashboard.fetchNews(options),
+      AsyncAwaitDashboard.fetchNews(options),
+    ]);
+
+    const [current, ...others] = weather.map((data) => data.current);
+    for (const other of others) {
+      assert.deepEqual(other, current);
+    }
+    assert.deepEqual(news[1], news[0]);
+    assert.deepEqual(news[2], news[0]);
+  });
+
+  describe('promise run', () => {
+    it('shows Promise.allSettled() a 404 from the posts API', async () => {
+      const errors: string[] = [];
+      const error = Logger.error;
+      Logger.error = (message: string) => errors.push(message);
+
+      try {
+        const result = await PromiseDashboard.run(options);
+
+        assert.equal(result.success, true);
+        assert.deepEqual(
+          errors.filter((message) => message.startsWith('Promise ')),
+          ['Promise 2: Rejected - HTTP 404: Not Found']
+        );
+      } finally {
+        Logger.error = error;
+      }
+    });
+  });
+
+  describe('async fetchDashboardWithFallbacks', () => {
+    it('uses fallback weather when the forecast fails and reports it', async () => {
+      server.configure({ errorRate: 1 }, 'forecast');
+      const report = new RunReport(AsyncMethod.ASYNC_AWAIT);
+
+      const data = await AsyncAwaitDashboard.fetchDashboardWithFallbacks(options, report);
+      const result = report.finish();
+
+      assert.match(data.weather.current.description, /Fallback Data/);
+      assert.equal(data.weather.source, 'fallback');
+      assert.equal(data.weather.location.name, 'Paris');
+      assert.equal(data.weather.location.country, 'France');
+      assert.equal(data.news.source, 'dummyjson');
+      assert.deepEqual(
+        result.fallbacks.map((fallback) => fallback.source),
+        ['weather']
+      );
+      assert.equal(server.stats().requests.forecast, TestUpstream.RETRIES + 1);
+    });
+
+    it('keeps the requested city when it could not be resolved', async () => {
+      server.configure({ errorRate: 1 }, 'geocoding');
+
+      const data = await AsyncAwaitDashboard.fetchDashboardWithFallbacks(
+        { ...options, location: { city: 'Sydney' } },
+        new RunReport(AsyncMethod.ASYNC_AWAIT)
+      );
+
+      assert.equal(data.weather.location.name, 'Sydney');
+      assert.ok(Number.isNaN(data.weather.location.lat));
+      assert.equal(server.stats().requests.forecast, 0);
+    });
+
+    it('does not fall back when the fetch is cancelled', async () => {
+      server.configure({ latency: { type: 'fixed', ms: 200 } });
+      const controller = new AbortController();
+      const report = new RunReport(AsyncMethod.ASYNC_AWAIT);
+      setTimeout(() => controller.abort(), 20);
+
+      await assert.rejects(
+        AsyncAwaitDashboard.fetchDashboardWithFallbacks(
+          { ...options, signal: controller.signal },
+          report
+        ),
+        { name: 'AbortError' }
+      );
+      assert.deepEqual(report.finish().fallbacks, []);
+    });
+
+    it('converts the fallback weather to the requested units', async () => {
+      server.configure({ errorRate: 1 }, 'forecast');
+
+      const data = await AsyncAwaitDashboard.fetchDashboardWithFallbacks(
+        { ...options, units: 'imperial' },
+        new RunReport(AsyncMethod.ASYNC_AWAIT)
+      );
+
+      assert.equal(data.weather.units.temperature, 'fahrenheit');
+      assert.equal(data.weather.current.temperature, 59);
+    });
+
+    it('uses fallback news for malformed responses, which are not retried', async () => {
+      server.configure({ malformedRate: 1 }, 'posts');
+      const report = new RunReport(AsyncMethod.ASYNC_AWAIT);
+
+      const data = await AsyncAwaitDashboard.fetchDashboardWithFallbacks(options, report);
+
+      assert.equal(data.weather.location.name, 'Paris');
+      assert.equal(data.news.posts[0]?.title, 'Fallback News Article');
+      assert.deepEqual(
+        report.finish().fallbacks.map((fallback) => fallback.source),
+        ['news']
+      );
+      assert.equal(server.stats().requests.posts, 1);
+    });
+
+    it('returns live data without fallbacks when the upstream is healthy', async () => {
+      const report = new RunReport(AsyncMethod.ASYNC_AWAIT);
+
+      const data = await AsyncAwaitDashboard.fetchDashboardWithFallbacks(options, report);
+
+      assert.equal(data.weather.source, 'open-meteo');
+      assert.deepEqual(report.finish().fallbacks, []);
+    });
+  });
+
+  describe('async fetchDashboardWithin', () => {
+    it('resolves when the data arrives in time', async () => {
+      server.configure({ latency: { type: 'fixed', ms: 20 } });
+
+      const data = await AsyncAwaitDashboard.fetchDashboardWithin(options, 2000);
+
+      assert.equal(data.news.posts.length, 4);
+    });
+
+    it('rejects once the deadline has passed, without waiting for the requests', async () => {
+      server.configure({ latency: { type: 'fixed', ms: 250 } });
+      const startedAt = Date.now();
+
+      await assert.rejects(
+        AsyncAwaitDashboard.fetchDashboardWithin(options, 100),
+        (error: unknown) => {
+          assert.ok(error instanceof TimeoutError);
+          assert.equal(error.timeout, 100);
+          assert.equal(ApiError.describe(error), 'TimeoutError: Request timeout after 100ms');
+          return true;
+        }
+      );
+      assert.ok(Date.now() - startedAt < 250);
+    });
+
+    it('stops early when the caller aborts', async () => {
+      server.configure({ latency: { type: 'fixed', ms: 250 } });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      await assert.rejects(
+        AsyncAwaitDashboard.fetchDashboardWithin({ ...options, signal: controller.signal }, 2000),
+        { name: 'AbortError' }
+      );
+    });
+  });
+});
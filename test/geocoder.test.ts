@@ -0,0 +1,93 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { Geocoder, LocationNotFoundError } from '../src/utils/geocoder';
+import { ApiError, NotFoundError } from '../src/utils/errors';
+import { MockUpstreamServer } from '../src/mockServer';
+import { TestUpstream } from './testUpstream';
+
+describe('Geocoder', () => {
+  let server: MockUpstreamServer;
+
+  before(async () => {
+    server = await TestUpstream.start();
+  });
+
+  after(() => TestUpstream.stop());
+
+  beforeEach(() => TestUpstream.reset());
+
+  describe('parseQuery', () => {
+    it('reads coordinates', () => {
+      assert.deepEqual(Geocoder.parseQuery(' 48.85, -2.35 '), { lat: 48.85, lon: -2.35 });
+    });
+
+    it('reads a city with an optional country', () => {
+      assert.deepEqual(Geocoder.parseQuery('Paris'), { city: 'Paris' });
+      assert.deepEqual(Geocoder.parseQuery('Paris, United States'), {
+        city: 'Paris',
+        country: 'United States',
+      });
+    });
+  });
+
+  describe('resolve', () => {
+    it('answers coordinates without asking the API', async () => {
+      const place = await Geocoder.resolvePromise({ lat: 1.5, lon: 2.5, name: 'Somewhere' });
+
+      assert.deepEqual(place, { name: 'Somewhere', country: '', lat: 1.5, lon: 2.5 });
+      assert.equal(server.stats().requests.geocoding, 0);
+    });
+
+    it('looks a city up once and answers repeats from the cache', async () => {
+      const first = await Geocoder.resolvePromise({ city: 'Tokyo' });
+      const second = await Geocoder.resolvePromise({ city: ' tokyo ' });
+
+      assert.equal(first.name, 'Tokyo');
+      assert.equal(first.timezone, 'Asia/Tokyo');
+      assert.deepEqual(second, first);
+      assert.equal(server.stats().requests.geocoding, 1);
+    });
+
+    it('caches each country separately', async () => {
+      const france = await Geocoder.resolvePromise({ city: 'Paris', country: 'France' });
+      const us = await Geocoder.resolvePromise({ city: 'Paris', country: 'US' });
+
+      assert.equal(france.country, 'France');
+      assert.notEqual(us.lat, france.lat);
+      assert.equal(server.stats().requests.geocoding, 2);
+    });
+
+    it('fails with LocationNotFoundError for unknown places, which are not cached', async () => {
+      await assert.rejects(Geocoder.resolvePromise({ city: 'Atlantis' }), (error: unknown) => {
+        assert.ok(error instanceof LocationNotFoundError);
+        assert.ok(error instanceof NotFoundError);
+        assert.ok(error instanceof ApiError);
+        assert.equal(error.status, 404);
+        assert.equal(error.code, 'LOCATION_NOT_FOUND');
+        assert.equal(error.query, 'Atlantis');
+        assert.match(error.url ?? '', /name=Atlantis/);
+        return true;
+      });
+      await assert.rejects(Geocoder.resolvePromise({ city: 'Atlantis' }), LocationNotFoundError);
+      assert.equal(server.stats().requests.geocoding, 2);
+    });
+
+    it('starts over after clearCache', async () => {
+      await Geocoder.resolvePromise({ city: 'Sydney' });
+      Geocoder.clearCache();
+      await Geocoder.resolvePromise({ city: 'Sydney' });
+
+      assert.equal(server.stats().requests.geocoding, 2);
+    });
+  });
+
+  describe('lookup', () => {
+    it('only knows cities resolved before', async () => {
+      assert.equal(Geocoder.lookup({ city: 'London' }), undefined);
+
+      const london = await Geocoder.resolvePromise({ city: 'London' });
+
+      assert.deepEqual(Geocoder.lookup({ city: 'London' }), london);
+    });
+  });
+});
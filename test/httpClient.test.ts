@@ -0,0 +1,431 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { HttpClient } from '../src/utils/httpClient';
+import { CircuitBreaker } from '../src/utils/circuitBreaker';
+import { ResponseCache } from '../src/utils/responseCache';
+import { MockUpstreamServer } from '../src/mockServer';
+import { Logger } from '../src/utils/logger';
+import { RetryPolicy } from '../src/utils/retryPolicy';
+import {
+  AbortError,
+  CircuitOpenError,
+  HttpStatusError,
+  ParseError,
+  ResponseTooLargeError,
+  TimeoutError,
+  TooManyRedirectsError,
+} from '../src/utils/errors';
+import { CacheOptions } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+describe('HttpClient', () => {
+  let server: MockUpstreamServer;
+  let postsUrl: string;
+
+  before(async () => {
+    server = await TestUpstream.start();
+    postsUrl = `${server.url()}${MockUpstreamServer.PATHS.posts}?limit=2`;
+  });
+
+  after(() => TestUpstream.stop());
+
+  beforeEach(() => TestUpstream.reset());
+
+  describe('retries', () => {
+    it('sends a successful request once', async () => {
+      const body = await HttpClient.makeRequestPromise<{ posts: unknown[] }>(postsUrl);
+
+      assert.equal(body.posts.length, 2);
+      assert.equal(server.stats().requests.posts, 1);
+    });
+
+    it('retries server errors until one succeeds', async () => {
+      server.configure({ errorRate: 1, maxFaults: 1 });
+
+      const response = await HttpClient.requestPromise<{ posts: unknown[] }>(postsUrl);
+
+      assert.equal(response.status, 200);
+      assert.equal(server.stats().requests.posts, 2);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+      server.configure({ errorRate: 1 });
+
+      await assert.rejects(HttpClient.makeRequestPromise(postsUrl), (error: unknown) => {
+        assert.ok(error instanceof HttpStatusError);
+        assert.equal(error.status, 500);
+        assert.equal(error.attempts, TestUpstream.RETRIES + 1);
+        return true;
+      });
+      assert.equal(server.stats().requests.posts, TestUpstream.RETRIES + 1);
+    });
+
+    it('takes the number of retries from the request options', async () => {
+      server.configure({ errorRate: 1 });
+
+      await assert.rejects(
+        HttpClient.makeRequestPromise(postsUrl, { retries: 0 }),
+        HttpStatusError
+      );
+      assert.equal(server.stats().requests.posts, 1);
+    });
+
+    it('waits as long as Retry-After asks before retrying a 429', async () => {
+      server.configure({ rateLimitRate: 1, maxFaults: 1, retryAfter: 1 });
+      const startedAt = Date.now();
+
+      await HttpClient.makeRequestPromise(postsUrl);
+
+      assert.ok(Date.now() - startedAt >= 1000);
+      assert.equal(server.stats().faults.rateLimit, 1);
+      assert.equal(server.stats().requests.posts, 2);
+    });
+
+    it('does not retry responses that cannot be parsed', async () => {
+      server.configure({ malformedRate: 1 });
+
+      await assert.rejects(HttpClient.makeRequestPromise(postsUrl), ParseError);
+      assert.equal(server.stats().requests.posts, 1);
+    });
+
+    it('does not retry POST requests unless asked to', async () => {
+      server.configure({ errorRate: 1 });
+
+      await assert.rejects(
+        HttpClient.requestPromise(postsUrl, { method: 'POST', json: {} }),
+        HttpStatusError
+      );
+      assert.equal(server.stats().requests.posts, 1);
+    });
+  });
+
+  describe('retry notices and cancellation', () => {
+    it('announces each retry through the Logger', async () => {
+      server.configure({ errorRate: 1, maxFaults: 2 });
+      const notices: string[] = [];
+      const warn = Logger.warn;
+      Logger.warn = (message: string) => notices.push(message);
+
+      try {
+        await HttpClient.makeRequestPromise(postsUrl);
+      } finally {
+        Logger.warn = warn;
+      }
+
+      assert.equal(notices.length, 2);
+      assert.match(notices[0] ?? '', /HTTP 500.*retrying in \d+ms/);
+    });
+
+    it('reports the attempts sent when cancelled while waiting to retry', async () => {
+      server.configure({ errorRate: 1 });
+      const controller = new AbortController();
+      const request = HttpClient.makeRequestPromise(postsUrl, {
+        retryPolicy: new RetryPolicy({ retries: 2, baseDelay: 5000, jitter: 'none' }),
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(), 100);
+
+      await assert.rejects(request, (error: unknown) => {
+        assert.ok(error instanceof AbortError);
+        assert.equal(error.attempts, 1);
+        return true;
+      });
+      assert.equal(server.stats().requests.posts, 1);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('times out every attempt at an upstream that does not answer', async () => {
+      server.configure({ timeoutRate: 1 });
+      const startedAt = Date.now();
+
+      await assert.rejects(HttpClient.makeRequestPromise(postsUrl), (error: unknown) => {
+        assert.ok(error instanceof TimeoutError);
+        assert.equal(error.timeout, TestUpstream.TIMEOUT);
+        assert.equal(error.attempts, TestUpstream.RETRIES + 1);
+        return true;
+      });
+      assert.equal(server.stats().requests.posts, TestUpstream.RETRIES + 1);
+      assert.ok(Date.now() - startedAt >= (TestUpstream.RETRIES + 1) * TestUpstream.TIMEOUT);
+    });
+
+    it('takes the timeout from the request options', async () => {
+      server.configure({ latency: { type: 'fixed', ms: 200 } });
+
+      await assert.rejects(
+        HttpClient.makeRequestPromise(postsUrl, { timeout: 50, retries: 0 }),
+        TimeoutError
+      );
+      const body = await HttpClient.makeRequestPromise<{ posts: unknown[] }>(postsUrl, {
+        timeout: 1000,
+      });
+      assert.equal(body.posts.length, 2);
+    });
+
+    it('recovers when a retry answers in time', async () => {
+      server.configure({ timeoutRate: 1, maxFaults: 1 });
+
+      const body = await HttpClient.makeRequestPromise<{ posts: unknown[] }>(postsUrl);
+
+      assert.equal(body.posts.length, 2);
+      assert.equal(server.stats().faults.timeout, 1);
+    });
+  });
+
+  describe('conditional requests', () => {
+    let url: string;
+    let version: number;
+    let received: http.IncomingHttpHeaders[];
+    let settings: CacheOptions;
+
+    before(async () => {
+      settings = ResponseCache.options();
+      // A versioned resource answering 304 while the client's validator is current
+      const base = await TestUpstream.stub((req, res) => {
+        received.push(req.headers);
+        const etag = `"v${version}"`;
+        const lastModified = new Date(Date.UTC(2024, 0, version)).toUTCString();
+        if (req.headers['if-none-match'] === etag) {
+          res.writeHead(304, { ETag: etag });
+          res.end();
+          return;
+        }
+        res.writeHead(200, {
+          'Content-Type': 'application/json',
+          ETag: etag,
+          'Last-Modified': lastModified,
+        });
+        res.end(JSON.stringify({ version }));
+      });
+      url = `${base}/resource`;
+    });
+
+    after(() => {
+      ResponseCache.configure(settings);
+      ResponseCache.clear();
+    });
+
+    beforeEach(() => {
+      version = 1;
+      received = [];
+      ResponseCache.clear();
+      // Entries expire at once, so every repeat is revalidated
+      ResponseCache.configure({ enabled: true, defaultTtl: 0, staleWhileRevalidate: 0 });
+    });
+
+    it('sends the validators of an expired entry and answers a 304 from the cache', async () => {
+      const first = await HttpClient.requestPromise<{ version: number }>(url);
+      const statsBefore = ResponseCache.stats();
+      const second = await HttpClient.requestPromise<{ version: number }>(url);
+
+      assert.equal(received[0]?.['if-none-match'], undefined);
+      assert.equal(received[1]?.['if-none-match'], '"v1"');
+      assert.equal(received[1]?.['if-modified-since'], 'Mon, 01 Jan 2024 00:00:00 GMT');
+      assert.equal(first.cached, false);
+      assert.equal(second.status, 200);
+      assert.equal(second.cached, true);
+      assert.deepEqual(second.data, { version: 1 });
+      assert.equal(ResponseCache.difference(ResponseCache.stats(), statsBefore).hits, 1);
+    });
+
+    it('replaces the entry when the resource changed', async () => {
+      await HttpClient.requestPromise(url);
+      version = 2;
+
+      const changed = await HttpClient.requestPromise<{ version: number }>(url);
+      const repeat = await HttpClient.requestPromise<{ version: number }>(url);
+
+      assert.equal(received[1]?.['if-none-match'], '"v1"');
+      assert.equal(changed.cached, false);
+      assert.deepEqual(changed.data, { version: 2 });
+      assert.equal(received[2]?.['if-none-match'], '"v2"');
+      assert.equal(repeat.cached, true);
+      assert.deepEqual(repeat.data, { version: 2 });
+    });
+  });
+
+  describe('compression, redirects and size limits', () => {
+    const json = Buffer.from(JSON.stringify({ hello: 'world' }));
+    let base: string;
+    let other: string;
+    let received: http.IncomingMessage[];
+
+    before(async () => {
+      // Echoes the method and headers of what it was sent, on another origin
+      other = await TestUpstream.stub((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ method: req.method, headers: req.headers }));
+      });
+      base = await TestUpstream.stub((req, res) => {
+        received.push(req);
+        const [, route = '', arg = ''] = (req.url ?? '').split('/');
+        const redirect = (status: number, location: string): void => {
+          res.writeHead(status, { Location: location });
+          res.end();
+        };
+
+        switch (route) {
+          case 'gzip':
+            res.writeHead(200, { 'Content-Encoding': 'gzip' });
+            res.end(zlib.gzipSync(json));
+            return;
+          case 'br':
+            res.writeHead(200, { 'Content-Encoding': 'br' });
+            res.end(zlib.brotliCompressSync(json));
+            return;
+          case 'deflate':
+            res.writeHead(200, { 'Content-Encoding': 'deflate' });
+            res.end(zlib.deflateSync(json));
+            return;
+          case 'corrupt':
+            res.writeHead(200, { 'Content-Encoding': 'gzip' });
+            res.end('not gzip at all');
+            return;
+          case 'hops':
+            return Number(arg) > 0
+              ? redirect(302, `/hops/${Number(arg) - 1}`)
+              : redirect(301, `${other}/end`);
+          case 'see-other':
+            return redirect(303, `${other}/form`);
+          case 'large':
+            res.writeHead(200, { 'Content-Length': 2000 });
+            res.end(Buffer.alloc(2000, 'a'));
+            return;
+          case 'bomb':
+            res.writeHead(200, { 'Content-Encoding': 'gzip' });
+            res.end(zlib.gzipSync(Buffer.alloc(100000, ' ')));
+            return;
+          default:
+            res.writeHead(404);
+            res.end();
+        }
+      });
+    });
+
+    beforeEach(() => {
+      received = [];
+    });
+
+    it('asks for compression and decompresses gzip, brotli and deflate bodies', async () => {
+      for (const encoding of ['gzip', 'br', 'deflate']) {
+        const body = await HttpClient.makeRequestPromise(`${base}/${encoding}`);
+        assert.deepEqual(body, { hello: 'world' }, encoding);
+      }
+      assert.equal(received[0]?.headers['accept-encoding'], 'gzip, deflate, br');
+    });
+
+    it('hands over the raw bytes when decompression is turned off', async () => {
+      const body = await HttpClient.makeRequestPromise<Buffer>(`${base}/gzip`, {
+        decompress: false,
+        responseType: 'buffer',
+      });
+
+      assert.deepEqual(zlib.gunzipSync(body), json);
+      assert.equal(received[0]?.headers['accept-encoding'], undefined);
+    });
+
+    it('fails with a ParseError, without retrying, on a corrupt compressed body', async () => {
+      await assert.rejects(HttpClient.makeRequestPromise(`${base}/corrupt`), ParseError);
+      assert.equal(received.length, 1);
+    });
+
+    it('follows redirects and reports the final URL', async () => {
+      const response = await HttpClient.requestPromise<{ method: string }>(`${base}/hops/2`);
+
+      assert.equal(response.url, `${other}/end`);
+      assert.equal(response.data.method, 'GET');
+      assert.equal(received.length, 3);
+    });
+
+    it('turns a POST into a GET on 303 and drops credentials for another origin', async () => {
+      const response = await HttpClient.requestPromise<{
+        method: string;
+        headers: http.IncomingHttpHeaders;
+      }>(`${base}/see-other`, {
+        method: 'POST',
+        json: { name: 'value' },
+        headers: { Authorization: 'Bearer secret', 'X-Trace': '1' },
+      });
+
+      assert.equal(response.data.method, 'GET');
+      assert.equal(response.data.headers.authorization, undefined);
+      assert.equal(response.data.headers['content-type'], undefined);
+      assert.equal(response.data.headers['x-trace'], '1');
+    });
+
+    it('fails with TooManyRedirectsError past maxRedirects', async () => {
+      await assert.rejects(
+        HttpClient.makeRequestPromise(`${base}/hops/3`, { maxRedirects: 2 }),
+        TooManyRedirectsError
+      );
+      assert.equal(received.length, 3);
+    });
+
+    it('refuses bodies over maxBodySize, announced or not, without retrying', async () => {
+      await assert.rejects(
+        HttpClient.makeRequestPromise(`${base}/large`, { maxBodySize: 1000 }),
+        ResponseTooLargeError
+      );
+      await assert.rejects(
+        HttpClient.makeRequestPromise(`${base}/bomb`, { maxBodySize: 10000 }),
+        (error: unknown) => {
+          assert.ok(error instanceof ResponseTooLargeError);
+          assert.equal(error.limit, 10000);
+          return true;
+        }
+      );
+      assert.equal(received.length, 2);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('fails fast once the host has failed too often', async () => {
+      CircuitBreaker.configure({ failureThreshold: 2 });
+      server.configure({ errorRate: 1 });
+
+      try {
+        for (let failure = 0; failure < 2; failure++) {
+          await assert.rejects(
+            HttpClient.makeRequestPromise(postsUrl, { retries: 0 }),
+            HttpStatusError
+          );
+        }
+
+        await assert.rejects(HttpClient.makeRequestPromise(postsUrl), CircuitOpenError);
+        assert.equal(server.stats().requests.posts, 2);
+      } finally {
+        CircuitBreaker.configure({ failureThreshold: 5 });
+      }
+    });
+
+    it('sends a single trial request once the cool-down has passed', async () => {
+      CircuitBreaker.configure({ failureThreshold: 1, cooldown: 50 });
+      server.configure({ errorRate: 1 });
+
+      try {
+        await assert.rejects(
+          HttpClient.makeRequestPromise(postsUrl, { retries: 0 }),
+          HttpStatusError
+        );
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        server.configure({ latency: { type: 'fixed', ms: 50 } });
+        server.resetStats();
+
+        const [trial, concurrent] = await Promise.allSettled([
+          HttpClient.makeRequestPromise(postsUrl, { retries: 0 }),
+          HttpClient.makeRequestPromise(postsUrl, { retries: 0 }),
+        ]);
+
+        assert.equal(trial.status, 'fulfilled');
+        assert.ok(concurrent.status === 'rejected');
+        assert.ok(concurrent.reason instanceof CircuitOpenError);
+        assert.equal(server.stats().requests.posts, 1);
+        assert.equal(CircuitBreaker.status()[0]?.state, 'closed');
+      } finally {
+        CircuitBreaker.configure({ failureThreshold: 5, cooldown: 30 * 1000 });
+      }
+    });
+  });
+});
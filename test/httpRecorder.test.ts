@@ -0,0 +1,301 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import AsyncAwaitDashboard from '../src/asyncAwaitVersion';
+import { HttpClient } from '../src/utils/httpClient';
+import { Fixture, HttpRecorder } from '../src/utils/httpRecorder';
+import { FixtureNotFoundError, NetworkError, TimeoutError } from '../src/utils/errors';
+import { MockUpstreamServer } from '../src/mockServer';
+import { DashboardOptions } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+const options: DashboardOptions = {
+  location: { city: 'Paris', country: 'France' },
+  newsLimit: 4,
+};
+
+describe('HttpRecorder', () => {
+  let server: MockUpstreamServer;
+  let directory: string;
+  let baseUrl: string;
+  /** Requests the stub received, by path */
+  const hits = new Map<string, number>();
+
+  const record = (): void => HttpRecorder.configure({ mode: 'record', directory });
+  const replay = (replayLatency = false): void =>
+    HttpRecorder.configure({ mode: 'replay', directory, replayLatency });
+
+  /**
+   * Every fixture file written so far
+   */
+  const fixtures = (): Fixture[] =>
+    fs
+      .readdirSync(directory)
+      .flatMap((host) =>
+        fs
+          .readdirSync(path.join(directory, host))
+          .map(
+            (file) =>
+              JSON.parse(fs.readFileSync(path.join(directory, host, file), 'utf8')) as Fixture
+          )
+      );
+
+  before(async () => {
+    server = await TestUpstream.start();
+    baseUrl = await TestUpstream.stub((req, res) => {
+      const url = req.url ?? '';
+      const count = (hits.get(url) ?? 0) + 1;
+      hits.set(url, count);
+
+      if (url === '/gzip') {
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Content-Encoding', 'gzip');
+        res.end(zlib.gzipSync(JSON.stringify({ compressed: true })));
+      } else if (url === '/binary') {
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.end(Buffer.from([0xff, 0xfe, 0x00, 0x80]));
+      } else if (url === '/flaky') {
+        res.statusCode = count === 1 ? 503 : 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ attempt: count }));
+      } else if (url === '/echo') {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(Buffer.concat(chunks));
+        });
+      } else if (url === '/reset') {
+        req.socket.destroy();
+      } else if (url === '/hang') {
+        // Never answers; the client times out and closes the socket
+      } else if (url === '/slow') {
+        setTimeout(() => {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ slow: true }));
+        }, 150);
+      } else {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ count }));
+      }
+    });
+  });
+
+  after(async () => {
+    HttpRecorder.configure({ mode: 'off' });
+    await TestUpstream.stop();
+  });
+
+  beforeEach(() => {
+    TestUpstream.reset();
+    hits.clear();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'http-recorder-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('replays a recorded response without sending the request', async () => {
+    record();
+    const recorded = await HttpClient.makeRequestPromise(`${baseUrl}/json`);
+
+    replay();
+    const replayed = await HttpClient.makeRequestPromise(`${baseUrl}/json`);
+
+    assert.deepEqual(replayed, recorded);
+    assert.equal(hits.get('/json'), 1);
+  });
+
+  it('stores decompressed bodies without their encoding headers', async () => {
+    record();
+    await HttpClient.makeRequestPromise(`${baseUrl}/gzip`);
+
+    const [fixture] = fixtures();
+    const headers = fixture?.exchanges[0]?.headers ?? {};
+    assert.equal(fixture?.exchanges[0]?.body, '{"compressed":true}');
+    assert.equal(headers['content-encoding'], undefined);
+    assert.equal(headers['content-length'], undefined);
+
+    replay();
+    assert.deepEqual(await HttpClient.makeRequestPromise(`${baseUrl}/gzip`), {
+      compressed: true,
+    });
+  });
+
+  it('keeps bodies that are not UTF-8 as base64', async () => {
+    record();
+    const recorded = await HttpClient.makeRequestPromise<Buffer>(`${baseUrl}/binary`, {
+      responseType: 'buffer',
+    });
+
+    const [fixture] = fixtures();
+    assert.equal(fixture?.exchanges[0]?.body, undefined);
+    assert.equal(fixture?.exchanges[0]?.base64, recorded.toString('base64'));
+
+    replay();
+    const replayed = await HttpClient.makeRequestPromise<Buffer>(`${baseUrl}/binary`, {
+      responseType: 'buffer',
+    });
+    assert.ok(replayed.equals(Buffer.from([0xff, 0xfe, 0x00, 0x80])));
+  });
+
+  it('replays retried attempts in order, then repeats the last', async () => {
+    record();
+    assert.deepEqual(await HttpClient.makeRequestPromise(`${baseUrl}/flaky`), { attempt: 2 });
+    assert.deepEqual(
+      fixtures()[0]?.exchanges.map((exchange) => exchange.status),
+      [503, 200]
+    );
+
+    replay();
+    assert.deepEqual(await HttpClient.makeRequestPromise(`${baseUrl}/flaky`), { attempt: 2 });
+    assert.deepEqual(await HttpClient.makeRequestPromise(`${baseUrl}/flaky`, { retries: 0 }), {
+      attempt: 2,
+    });
+    assert.equal(hits.get('/flaky'), 2);
+  });
+
+  it('records requests with different bodies in separate fixtures', async () => {
+    record();
+    for (const city of ['Paris', 'Oslo']) {
+      await HttpClient.makeRequestPromise(`${baseUrl}/echo`, { method: 'POST', json: { city } });
+    }
+    assert.equal(fixtures().length, 2);
+    assert.ok(fixtures().every((fixture) => fixture.bodyHash !== undefined));
+
+    replay();
+    for (const city of ['Oslo', 'Paris']) {
+      assert.deepEqual(
+        await HttpClient.makeRequestPromise(`${baseUrl}/echo`, { method: 'POST', json: { city } }),
+        { city }
+      );
+    }
+    assert.equal(hits.get('/echo'), 2);
+  });
+
+  it('replays network failures as NetworkError with their code', async () => {
+    record();
+    const recorded = await HttpClient.makeRequestPromise(`${baseUrl}/reset`, {
+      retries: 0,
+    }).catch((error: unknown) => error);
+    assert.ok(recorded instanceof NetworkError && recorded.code);
+
+    replay();
+    await assert.rejects(
+      HttpClient.makeRequestPromise(`${baseUrl}/reset`, { retries: 0 }),
+      (error: unknown) => {
+        assert.ok(error instanceof NetworkError);
+        assert.equal(error.code, recorded.code);
+        return true;
+      }
+    );
+    assert.equal(hits.get('/reset'), 1);
+  });
+
+  it('replays timeouts as TimeoutError', async () => {
+    record();
+    await assert.rejects(
+      HttpClient.makeRequestPromise(`${baseUrl}/hang`, { retries: 0, timeout: 100 }),
+      TimeoutError
+    );
+    assert.equal(fixtures()[0]?.exchanges[0]?.error?.name, 'TimeoutError');
+
+    replay();
+    await assert.rejects(
+      HttpClient.makeRequestPromise(`${baseUrl}/hang`, { retries: 0, timeout: 100 }),
+      TimeoutError
+    );
+    assert.equal(hits.get('/hang'), 1);
+  });
+
+  it('fails requests that were never recorded, without retrying them', async () => {
+    replay();
+
+    await assert.rejects(HttpClient.makeRequestPromise(`${baseUrl}/unknown`), (error: unknown) => {
+      assert.ok(error instanceof FixtureNotFoundError);
+      assert.equal(error.method, 'GET');
+      assert.ok(error.fixture.startsWith(directory));
+      assert.match(error.message, /No recorded response for GET .*\/unknown/);
+      return true;
+    });
+    assert.equal(hits.size, 0);
+  });
+
+  it('takes as long as the recording with replayLatency', async () => {
+    record();
+    await HttpClient.makeRequestPromise(`${baseUrl}/slow`, { timeout: 1000 });
+
+    replay(true);
+    const startedAt = Date.now();
+    assert.deepEqual(await HttpClient.makeRequestPromise(`${baseUrl}/slow`, { timeout: 1000 }), {
+      slow: true,
+    });
+    assert.ok(Date.now() - startedAt >= 100);
+
+    replay(false);
+    const instantAt = Date.now();
+    await HttpClient.makeRequestPromise(`${baseUrl}/slow`, { timeout: 1000 });
+    assert.ok(Date.now() - instantAt < 100);
+  });
+
+  it('times out replays slower than the timeout with replayLatency', async () => {
+    record();
+    await HttpClient.makeRequestPromise(`${baseUrl}/slow`, { timeout: 1000 });
+
+    replay(true);
+    await assert.rejects(
+      HttpClient.makeRequestPromise(`${baseUrl}/slow`, { retries: 0, timeout: 50 }),
+      TimeoutError
+    );
+  });
+
+  it('cancels a delayed replay when the request is aborted', async () => {
+    record();
+    await HttpClient.makeRequestPromise(`${baseUrl}/slow`, { timeout: 1000 });
+
+    replay(true);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(
+      HttpClient.makeRequestPromise(`${baseUrl}/slow`, {
+        timeout: 1000,
+        signal: controller.signal,
+      }),
+      { name: 'AbortError' }
+    );
+  });
+
+  it('replaces an earlier recording of the same request', async () => {
+    record();
+    await HttpClient.makeRequestPromise(`${baseUrl}/json`);
+    hits.clear();
+
+    record();
+    await HttpClient.makeRequestPromise(`${baseUrl}/json`);
+
+    assert.equal(fixtures().length, 1);
+    assert.deepEqual(
+      fixtures()[0]?.exchanges.map((exchange) => exchange.body),
+      ['{"count":1}']
+    );
+  });
+
+  it('replays a whole dashboard offline', async () => {
+    record();
+    const recorded = await AsyncAwaitDashboard.fetchDashboard(options);
+
+    TestUpstream.reset();
+    replay();
+    const replayed = await AsyncAwaitDashboard.fetchDashboard(options);
+
+    assert.deepEqual(
+      TestUpstream.withoutTimestamps(replayed),
+      TestUpstream.withoutTimestamps(recorded)
+    );
+    assert.deepEqual(server.stats().requests, { forecast: 0, geocoding: 0, posts: 0 });
+  });
+});
@@ -0,0 +1,87 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { PassThrough } from 'stream';
+import { DashboardRunner } from '../src/index';
+import { MockUpstreamServer } from '../src/mockServer';
+import { Logger } from '../src/utils/logger';
+import { TestUpstream } from './testUpstream';
+
+/** Questions the interactive menu asks, each answered with the next scripted line */
+const PROMPT = /Enter your choice|Search for|Tag \(|Sort by|\[n\]ext|Press Enter/;
+
+/**
+ * Drive a DashboardRunner through its menu, answering each question with the
+ * next of `answers`. Resolves with the questions asked once the app exits.
+ */
+const session = async (answers: string[]): Promise<string[]> => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const questions: string[] = [];
+
+  output.setEncoding('utf8');
+  output.on('data', (text: string) => {
+    const question = PROMPT.exec(text);
+    if (question) {
+      questions.push(question[0]);
+      input.write(`${answers.shift() ?? '0'}\n`);
+    }
+  });
+
+  await new DashboardRunner(input, output).start();
+  return questions;
+};
+
+describe('DashboardRunner', () => {
+  let server: MockUpstreamServer;
+  const errors: string[] = [];
+  const { error } = Logger;
+  const { log, clear } = console;
+
+  before(async () => {
+    server = await TestUpstream.start();
+  });
+
+  after(() => TestUpstream.stop());
+
+  beforeEach(() => {
+    TestUpstream.reset();
+    errors.length = 0;
+    Logger.error = (message: string) => errors.push(message);
+    // The menu itself is printed straight to the terminal
+    console.log = () => undefined;
+    console.clear = () => undefined;
+  });
+
+  afterEach(() => {
+    Logger.error = error;
+    console.log = log;
+    console.clear = clear;
+  });
+
+  describe('news browser', () => {
+    it('shows the first page and returns to the menu', async () => {
+      const questions = await session(['7', '', '', '', 'q', '', '0']);
+
+      assert.deepEqual(questions, [
+        'Enter your choice',
+        'Search for',
+        'Tag (',
+        'Sort by',
+        '[n]ext',
+        'Press Enter',
+        'Enter your choice',
+      ]);
+      assert.deepEqual(errors, []);
+    });
+
+    it('reports a failed page and returns to the menu', async () => {
+      server.configure({ errorRate: 1 }, 'posts');
+
+      const questions = await session(['7', '', '', '', '', '0']);
+
+      assert.deepEqual(questions.slice(-2), ['Press Enter', 'Enter your choice']);
+      assert.equal(errors.length, 1);
+      assert.match(errors[0] ?? '', /^Could not fetch the next page: HttpStatusError: HTTP 500/);
+    });
+  });
+});
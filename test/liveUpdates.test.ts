@@ -0,0 +1,86 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { LiveUpdates } from '../src/liveUpdates';
+import { MockUpstreamServer } from '../src/mockServer';
+import { DashboardEvent } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('LiveUpdates', () => {
+  let server: MockUpstreamServer;
+  let hub: LiveUpdates;
+  const rejections: unknown[] = [];
+  const onRejection = (reason: unknown): void => {
+    rejections.push(reason);
+  };
+
+  before(async () => {
+    server = await TestUpstream.start();
+    process.on('unhandledRejection', onRejection);
+  });
+
+  after(async () => {
+    process.off('unhandledRejection', onRejection);
+    await TestUpstream.stop();
+  });
+
+  beforeEach(() => {
+    TestUpstream.reset();
+    rejections.length = 0;
+  });
+
+  afterEach(() => hub.close());
+
+  it('keeps refreshing after a listener throws', async () => {
+    hub = new LiveUpdates(100);
+    let weatherEvents = 0;
+    const twice = new Promise<void>((resolve) =>
+      hub.subscribe('weather', 'Paris', (event) => {
+        if (event.type === 'weather' && ++weatherEvents === 2) {
+          resolve();
+        }
+      })
+    );
+    hub.subscribe('weather', 'Paris', (event) => {
+      if (event.type === 'weather') {
+        throw new Error('Client went away');
+      }
+    });
+
+    await twice;
+    await wait(10);
+    assert.deepEqual(rejections, []);
+  });
+
+  it('cancels the refresh in flight on close', async () => {
+    server.configure({ latency: { type: 'fixed', ms: 150 } });
+    hub = new LiveUpdates();
+    const events: DashboardEvent[] = [];
+    hub.subscribe('weather', 'Paris', (event) => events.push(event));
+
+    await wait(50);
+    hub.close();
+    const seen = events.length;
+    await wait(300);
+
+    assert.equal(events.length, seen);
+    assert.ok(events.every((event) => event.type !== 'weather' && event.type !== 'error'));
+    assert.equal(hub.topicCount, 0);
+  });
+
+  it('cancels the refresh in flight when the last subscriber leaves', async () => {
+    server.configure({ latency: { type: 'fixed', ms: 150 } });
+    hub = new LiveUpdates();
+    const events: DashboardEvent[] = [];
+    const subscription = hub.subscribe('news', 'love', (event) => events.push(event));
+
+    await wait(50);
+    subscription.unsubscribe();
+    await wait(300);
+
+    assert.equal(events[events.length - 1]?.type, 'unsubscribed');
+    assert.ok(events.every((event) => event.type !== 'news' && event.type !== 'error'));
+    assert.equal(hub.topicCount, 0);
+  });
+});
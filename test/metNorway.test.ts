@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { MetNorway } from '../src/utils/metNorway';
+import { ValidationError } from '../src/utils/errors';
+import { GeoLocation } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+const place: GeoLocation = { name: 'Oslo', country: 'Norway', lat: 59.91, lon: 10.75 };
+
+const response = (): unknown => JSON.parse(TestUpstream.fixture('metNorway.json'));
+
+describe('MetNorway', () => {
+  it('maps the first time step onto the current weather', () => {
+    const weather = MetNorway.parse(response(), place);
+
+    assert.deepEqual(weather.location, {
+      name: 'Oslo',
+      country: 'Norway',
+      lat: 59.9133,
+      lon: 10.7389,
+    });
+    assert.deepEqual(weather.units, {
+      temperature: 'celsius',
+      windSpeed: 'kmh',
+      precipitation: 'mm',
+    });
+    assert.equal(weather.current.temperature, 5.2);
+    assert.equal(weather.current.humidity, 81.3);
+    assert.equal(weather.current.windSpeed, 16.6);
+    assert.equal(weather.current.precipitation, 0.2);
+    assert.equal(weather.current.cloudCover, null);
+    assert.equal(weather.current.isDay, true);
+    assert.equal(weather.current.condition.code, 80);
+    assert.equal(weather.forecast, undefined);
+  });
+
+  it('builds hourly steps from the hourly periods and one row per day', () => {
+    const forecast = MetNorway.parse(response(), place, { forecastDays: 3 }).forecast;
+
+    assert.deepEqual(
+      forecast?.hourly.map((hour) => [
+        hour.time,
+        hour.temperature,
+        hour.precipitationProbability,
+        hour.condition.code,
+      ]),
+      [
+        ['2024-03-01T10:00:00Z', 5.2, 40, 80],
+        ['2024-03-01T11:00:00Z', 6, null, 3],
+        ['2024-03-01T12:00:00Z', 7.1, 10, 63],
+      ]
+    );
+    assert.deepEqual(
+      forecast?.daily.map((day) => [
+        day.date,
+        day.temperatureMin,
+        day.temperatureMax,
+        day.precipitationSum,
+        day.condition.code,
+      ]),
+      [
+        ['2024-03-01', 3.4, 7.1, 2, 63],
+        ['2024-03-02', 1, 4, 0.4, 2],
+      ]
+    );
+  });
+
+  it('maps symbol codes, day and night, onto WMO conditions', () => {
+    assert.equal(MetNorway.condition('heavysnowshowers_night').code, 86);
+    assert.match(MetNorway.condition('clearsky_night').icon, /\S/);
+    assert.equal(MetNorway.condition('rainandthunder').code, 95);
+    assert.equal(MetNorway.condition('unheard_of').code, null);
+    assert.equal(MetNorway.condition(undefined).code, null);
+  });
+
+  it('converts from metric with wind in m/s to the requested units', () => {
+    const weather = MetNorway.parse(response(), place, { units: 'imperial' });
+
+    assert.equal(weather.units.temperature, 'fahrenheit');
+    assert.equal(weather.current.temperature, 41.4);
+    assert.equal(MetNorway.parse(response(), place, { units: 'si' }).current.windSpeed, 4.6);
+  });
+
+  it('rejects responses without a time series', () => {
+    const empty = { geometry: { coordinates: [10.7, 59.9] }, properties: { timeseries: [] } };
+
+    assert.throws(() => MetNorway.parse(empty, place), {
+      name: 'ValidationError',
+      message: /properties\.timeseries: expected at least one entry/,
+    });
+    assert.throws(() => MetNorway.parse({ properties: {} }, place), ValidationError);
+  });
+});
@@ -0,0 +1,203 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { NewsAggregator } from '../src/utils/newsAggregator';
+import { Providers } from '../src/utils/providers';
+import { RssFeed } from '../src/utils/rssFeed';
+import { HttpStatusError } from '../src/utils/errors';
+import { MockUpstreamServer } from '../src/mockServer';
+import PromiseDashboard from '../src/promiseVersion';
+import { NewsArticle, NewsData } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+const article = (id: number, title: string, fields: Partial<NewsArticle> = {}): NewsArticle => ({
+  id,
+  title,
+  body: '',
+  tags: [],
+  reactions: { likes: 0, dislikes: 0 },
+  views: 0,
+  userId: 1,
+  ...fields,
+});
+
+const result = (source: string, posts: NewsArticle[]): NewsData => ({
+  posts,
+  total: posts.length,
+  skip: 0,
+  limit: posts.length,
+  source,
+});
+
+const titles = (news: NewsData): string[] => news.posts.map((post) => post.title);
+
+describe('NewsAggregator', () => {
+  describe('merge', () => {
+    it('keeps articles that only share an id with another source', () => {
+      const merged = NewsAggregator.merge([
+        result('dummyjson', [article(1, 'Council approves new park')]),
+        result('rss', [article(1, 'Tram line extended to the airport')]),
+      ]);
+
+      assert.deepEqual(
+        merged.posts.map((post) => [post.source, post.id]),
+        [
+          ['dummyjson', 1],
+          ['rss', 1],
+        ]
+      );
+      assert.equal(merged.source, 'dummyjson,rss');
+    });
+
+    it('drops repeats from the same source and near identical titles from any', () => {
+      const merged = NewsAggregator.merge([
+        result('dummyjson', [
+          article(1, 'Council approves new park'),
+          article(1, 'Council approves new park (updated)'),
+        ]),
+        result('rss', [
+          article(7, 'Council Approves New Park!'),
+          article(8, 'Storm closes harbour'),
+        ]),
+      ]);
+
+      assert.deepEqual(
+        merged.posts.map((post) => [post.source, post.title]),
+        [
+          ['dummyjson', 'Council approves new park'],
+          ['rss', 'Storm closes harbour'],
+        ]
+      );
+    });
+
+    it('ranks by weighted score, ties in order of preference', () => {
+      const results = [
+        result('a', [
+          article(1, 'First story', { views: 100 }),
+          article(2, 'Second story', { reactions: { likes: 5, dislikes: 0 } }),
+        ]),
+        result('b', [
+          article(3, 'Third story', { views: 50, reactions: { likes: 5, dislikes: 0 } }),
+        ]),
+      ];
+
+      assert.deepEqual(titles(NewsAggregator.merge(results)), [
+        'First story',
+        'Third story',
+        'Second story',
+      ]);
+      assert.deepEqual(titles(NewsAggregator.merge(results, { weights: { views: 0 } })), [
+        'Second story',
+        'Third story',
+        'First story',
+      ]);
+    });
+
+    it('orders by sortBy and order instead of the score', () => {
+      const results = [
+        result('dummyjson', [
+          article(10, 'Undated post', { views: 500 }),
+          article(11, 'Another undated post', { views: 5 }),
+        ]),
+        result('rss', [
+          article(1, 'Older entry', { publishedAt: '2024-03-01T08:00:00Z' }),
+          article(2, 'Newer entry', { publishedAt: '2024-03-02T08:00:00Z' }),
+        ]),
+      ];
+
+      assert.deepEqual(titles(NewsAggregator.merge(results, { sortBy: 'recent' })), [
+        'Newer entry',
+        'Older entry',
+        'Another undated post',
+        'Undated post',
+      ]);
+      assert.deepEqual(
+        titles(NewsAggregator.merge(results, { sortBy: 'views', order: 'asc', limit: 2 })),
+        ['Older entry', 'Newer entry']
+      );
+    });
+
+    it('limits the articles returned, with total counting all kept', () => {
+      const merged = NewsAggregator.merge(
+        [result('a', [article(1, 'One'), article(2, 'Two'), article(3, 'Three')])],
+        { limit: 2 }
+      );
+
+      assert.equal(merged.posts.length, 2);
+      assert.equal(merged.total, 3);
+      assert.equal(merged.limit, 2);
+    });
+  });
+
+  it('measures title similarity ignoring case and punctuation', () => {
+    assert.equal(NewsAggregator.titleSimilarity('Storm, again!', 'storm again'), 1);
+    assert.equal(NewsAggregator.titleSimilarity('abc', 'xyz'), 0);
+    assert.equal(NewsAggregator.titleSimilarity('a', 'a'), 0);
+  });
+});
+
+describe('Providers.fetchAllNewsPromise', () => {
+  let server: MockUpstreamServer;
+
+  before(async () => {
+    server = await TestUpstream.start();
+    const rss = TestUpstream.fixture('feed.rss');
+    Providers.registerNews(
+      new RssFeed(
+        'rss',
+        await TestUpstream.stub((_req, res) => {
+          res.setHeader('Content-Type', 'application/rss+xml');
+          res.end(rss);
+        })
+      )
+    );
+  });
+
+  after(() => TestUpstream.stop());
+
+  beforeEach(() => TestUpstream.reset());
+
+  it('merges every provider and honours the requested sort', async () => {
+    const news = await Providers.fetchAllNewsPromise({
+      newsProviders: ['dummyjson', 'rss'],
+      newsLimit: 20,
+      newsSortBy: 'recent',
+    });
+    const sources = news.posts.map((post) => post.source);
+
+    assert.equal(news.source, 'dummyjson,rss');
+    // Feed entries carry dates, DummyJSON posts follow them newest id first
+    assert.deepEqual(sources.slice(0, 2), ['rss', 'rss']);
+    assert.ok(sources.slice(3).every((source) => source === 'dummyjson'));
+    const postIds = news.posts.filter((post) => post.source === 'dummyjson').map((post) => post.id);
+    assert.deepEqual(
+      postIds,
+      [...postIds].sort((a, b) => b - a)
+    );
+  });
+
+  it('leaves failing providers out', async () => {
+    server.configure({ errorRate: 1 }, 'posts');
+
+    const news = await Providers.fetchAllNewsPromise({ newsProviders: ['dummyjson', 'rss'] });
+
+    assert.equal(news.source, 'rss');
+  });
+
+  it('fails with the primary error when every provider fails', async () => {
+    server.configure({ errorRate: 1 }, 'posts');
+
+    await assert.rejects(
+      Providers.fetchAllNewsPromise({ newsProviders: ['dummyjson'] }),
+      HttpStatusError
+    );
+  });
+
+  it('is what the Promise version records as its news', async () => {
+    const run = await PromiseDashboard.run({ location: { city: 'Paris' }, newsLimit: 4 });
+
+    assert.equal(run.data?.news.source, 'dummyjson');
+    assert.equal(run.data?.news.posts.length, 4);
+    assert.ok(run.data?.news.posts.every((post) => post.source === 'dummyjson'));
+    assert.equal(run.data?.weather.location.name, 'Paris');
+  });
+});
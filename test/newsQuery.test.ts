@@ -0,0 +1,206 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { URL } from 'url';
+import { NewsQuery } from '../src/utils/newsQuery';
+import { DummyJson } from '../src/utils/dummyJson';
+import { Providers } from '../src/utils/providers';
+import { MockUpstreamServer } from '../src/mockServer';
+import { DashboardOptions, NewsArticle, NewsData } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+const article = (id: number, fields: Partial<NewsArticle> = {}): NewsArticle => ({
+  id,
+  title: `Article ${id}`,
+  body: 'Body text',
+  tags: [],
+  reactions: { likes: 0, dislikes: 0 },
+  views: 0,
+  userId: 1,
+  ...fields,
+});
+
+const ids = (articles: NewsArticle[]): number[] => articles.map((item) => item.id);
+
+describe('NewsQuery', () => {
+  describe('matches', () => {
+    const item = article(1, {
+      title: 'Storm warning for the coast',
+      body: 'Winds up to 100 km/h',
+      tags: ['Weather', 'coast'],
+      userId: 7,
+    });
+
+    it('filters by tag ignoring case, and by user', () => {
+      assert.equal(NewsQuery.matches(item, { newsTag: 'weather' }), true);
+      assert.equal(NewsQuery.matches(item, { newsTag: 'sport' }), false);
+      assert.equal(NewsQuery.matches(item, { newsUserId: 7 }), true);
+      assert.equal(NewsQuery.matches(item, { newsUserId: 0 }), false);
+    });
+
+    it('needs every search word in the title, body or tags', () => {
+      assert.equal(NewsQuery.matches(item, { newsSearch: 'STORM winds' }), true);
+      assert.equal(NewsQuery.matches(item, { newsSearch: 'storm coast' }), true);
+      assert.equal(NewsQuery.matches(item, { newsSearch: 'storm rain' }), false);
+      assert.equal(NewsQuery.matches(item, { newsSearch: '  ' }), true);
+    });
+  });
+
+  describe('sort', () => {
+    const articles = [
+      article(1, { views: 30, reactions: { likes: 2, dislikes: 0 } }),
+      article(2, { views: 10, reactions: { likes: 9, dislikes: 0 } }),
+      article(3, { views: 20, reactions: { likes: 5, dislikes: 0 } }),
+    ];
+
+    it('orders by views or likes, descending unless asked otherwise', () => {
+      assert.deepEqual(ids(NewsQuery.sort(articles, { newsSortBy: 'views' })), [1, 3, 2]);
+      assert.deepEqual(
+        ids(NewsQuery.sort(articles, { newsSortBy: 'likes', newsOrder: 'asc' })),
+        [1, 3, 2]
+      );
+      assert.deepEqual(ids(NewsQuery.sort(articles, { newsSortBy: 'likes' })), [2, 3, 1]);
+    });
+
+    it('keeps the source order without a sort field and never reorders in place', () => {
+      const sorted = NewsQuery.sort(articles, { newsSortBy: 'views', newsOrder: 'asc' });
+
+      assert.deepEqual(ids(NewsQuery.sort(articles, {})), [1, 2, 3]);
+      assert.deepEqual(ids(sorted), [2, 3, 1]);
+      assert.deepEqual(ids(articles), [1, 2, 3]);
+    });
+
+    it('sorts dated articles by time and puts undated ones after them by id', () => {
+      const mixed = [
+        article(50),
+        article(1, { publishedAt: '2024-03-01T08:00:00Z' }),
+        article(900, { publishedAt: 'not a date' }),
+        article(2, { publishedAt: '2024-03-03T08:00:00Z' }),
+        article(70),
+        article(3, { publishedAt: '2024-03-02T08:00:00Z' }),
+      ];
+
+      assert.deepEqual(
+        ids(NewsQuery.sort(mixed, { newsSortBy: 'recent' })),
+        [2, 3, 1, 900, 70, 50]
+      );
+      assert.deepEqual(
+        ids(NewsQuery.sort(mixed, { newsSortBy: 'recent', newsOrder: 'asc' })),
+        [1, 3, 2, 50, 70, 900]
+      );
+    });
+  });
+
+  describe('apply', () => {
+    const articles = Array.from({ length: 12 }, (_, index) =>
+      article(index + 1, { tags: index % 3 === 0 ? ['history'] : ['science'] })
+    );
+
+    it('pages the matches, with total counting all of them', () => {
+      const page = NewsQuery.apply(articles, { newsTag: 'science', newsLimit: 3, newsSkip: 3 });
+
+      assert.deepEqual(ids(page.posts), [6, 8, 9]);
+      assert.equal(page.total, 8);
+      assert.equal(page.skip, 3);
+      assert.equal(page.limit, 3);
+    });
+
+    it('defaults to the first page of five and answers past the end with no articles', () => {
+      assert.deepEqual(ids(NewsQuery.apply(articles).posts), [1, 2, 3, 4, 5]);
+
+      const beyond = NewsQuery.apply(articles, { newsSkip: 20 });
+      assert.deepEqual(beyond.posts, []);
+      assert.equal(beyond.total, 12);
+    });
+  });
+
+  it('counts the filters and knows the sort fields', () => {
+    assert.equal(NewsQuery.filterCount({}), 0);
+    assert.equal(NewsQuery.filterCount({ newsSearch: 'a', newsTag: 'b', newsUserId: 0 }), 3);
+    assert.equal(NewsQuery.isSortField('recent'), true);
+    assert.equal(NewsQuery.isSortField('dislikes'), false);
+  });
+});
+
+describe('DummyJson.buildPostsUrl', () => {
+  const query = (options: DashboardOptions): Record<string, string> => {
+    const url = new URL(DummyJson.buildPostsUrl(options));
+    return { path: url.pathname, ...Object.fromEntries(url.searchParams) };
+  };
+
+  it('lets DummyJSON page and sort what it can', () => {
+    assert.deepEqual(query({ newsLimit: 10, newsSkip: 20, newsSortBy: 'recent' }), {
+      path: '/posts',
+      limit: '10',
+      skip: '20',
+      sortBy: 'id',
+      order: 'desc',
+    });
+    assert.deepEqual(query({ newsTag: 'history', newsLimit: 3 }), {
+      path: '/posts/tag/history',
+      limit: '3',
+    });
+  });
+
+  it('fetches every match for queries it cannot answer by itself', () => {
+    assert.deepEqual(query({ newsSortBy: 'likes', newsSkip: 5 }), { path: '/posts', limit: '0' });
+    assert.deepEqual(query({ newsSearch: 'storm', newsTag: 'weather' }), {
+      path: '/posts/search',
+      limit: '0',
+      q: 'storm',
+    });
+  });
+});
+
+describe('news paging', () => {
+  let server: MockUpstreamServer;
+
+  before(async () => {
+    server = await TestUpstream.start();
+  });
+
+  after(() => TestUpstream.stop());
+
+  beforeEach(() => TestUpstream.reset());
+
+  const walk = async (options: DashboardOptions): Promise<NewsData[]> => {
+    const pages: NewsData[] = [];
+    for await (const page of Providers.newsPages(options)) {
+      pages.push(page);
+    }
+    return pages;
+  };
+
+  for (const [name, options] of Object.entries<DashboardOptions>({
+    'paged by DummyJSON': { newsSortBy: 'views' },
+    'paged locally': { newsSortBy: 'likes', newsOrder: 'asc' },
+  })) {
+    it(`walks every article once when ${name}`, async () => {
+      const [all] = await walk({ ...options, newsLimit: 100 });
+      const pages = await walk({ ...options, newsLimit: 7 });
+
+      assert.ok(all);
+      assert.deepEqual(
+        pages.map((page) => page.skip),
+        pages.map((_, index) => index * 7)
+      );
+      assert.deepEqual(
+        pages.flatMap((page) => ids(page.posts)),
+        ids(all.posts)
+      );
+      assert.equal(all.posts.length, all.total);
+      assert.equal(server.stats().requests.posts, pages.length + 1);
+    });
+  }
+
+  it('starts at newsSkip and stops at the last match', async () => {
+    const pages = await walk({ newsTag: 'history', newsLimit: 4, newsSkip: 2 });
+    const [first] = pages;
+
+    assert.equal(first?.skip, 2);
+    assert.equal(
+      pages.reduce((count, page) => count + page.posts.length, 0),
+      (first?.total ?? 0) - 2
+    );
+    assert.ok(pages.every((page) => page.posts.every((post) => post.tags.includes('history'))));
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { OpenMeteo } from '../src/utils/openMeteo';
+import { Units } from '../src/utils/units';
+import { GeoLocation } from '../src/types';
+
+const place: GeoLocation = { name: 'Berlin', country: 'Germany', lat: 52.52, lon: 13.41 };
+
+/**
+ * A forecast response where the model has no value for some fields
+ */
+const response = () => ({
+  latitude: 52.52,
+  longitude: 13.42,
+  timezone: 'Europe/Berlin',
+  current: {
+    temperature_2m: 10,
+    relative_humidity_2m: 70,
+    wind_speed_10m: 12,
+    precipitation: null,
+    cloud_cover: null,
+    weather_code: 3,
+    is_day: 1,
+  },
+  hourly: {
+    time: ['2024-01-01T00:00', '2024-01-01T01:00'],
+    temperature_2m: [5, null],
+    relative_humidity_2m: [80, null],
+    precipitation_probability: [null, 20],
+    wind_speed_10m: [10, null],
+    weather_code: [0, null],
+    is_day: [0, 0],
+  },
+  daily: {
+    time: ['2024-01-01'],
+    weather_code: [61],
+    temperature_2m_max: [null],
+    temperature_2m_min: [-2],
+    precipitation_sum: [null],
+  },
+});
+
+describe('OpenMeteo', () => {
+  it('keeps values the model did not provide as null', () => {
+    const weather = OpenMeteo.parse(response(), place);
+
+    assert.equal(weather.current.precipitation, null);
+    assert.equal(weather.current.cloudCover, null);
+    assert.deepEqual(
+      weather.forecast?.hourly.map((hour) => [
+        hour.temperature,
+        hour.humidity,
+        hour.precipitationProbability,
+        hour.windSpeed,
+      ]),
+      [
+        [5, 80, null, 10],
+        [null, null, 20, null],
+      ]
+    );
+    assert.equal(weather.forecast?.daily[0]?.temperatureMax, null);
+    assert.equal(weather.forecast?.daily[0]?.temperatureMin, -2);
+    assert.equal(weather.forecast?.daily[0]?.precipitationSum, null);
+  });
+
+  it('converts the values it has and leaves the missing ones null', () => {
+    const weather = Units.convertWeather(
+      OpenMeteo.parse(response(), place),
+      Units.resolve('imperial')
+    );
+    const [first, second] = weather.forecast?.hourly ?? [];
+
+    assert.equal(first?.temperature, 41);
+    assert.equal(second?.temperature, null);
+    assert.equal(second?.windSpeed, null);
+    assert.equal(weather.current.precipitation, null);
+    assert.equal(weather.forecast?.daily[0]?.temperatureMax, null);
+  });
+
+  it('takes the grid point and timezone from the response', () => {
+    const weather = OpenMeteo.parse(response(), place);
+
+    assert.equal(weather.location.name, 'Berlin');
+    assert.equal(weather.location.lon, 13.42);
+    assert.equal(weather.location.timezone, 'Europe/Berlin');
+  });
+
+  it('returns no forecast when the response has none', () => {
+    const data = OpenMeteo.parseForecast({ ...response(), hourly: undefined, daily: undefined });
+
+    assert.equal(OpenMeteo.toForecast(data), undefined);
+  });
+
+  it('formats missing values as n/a', () => {
+    assert.equal(Units.formatTemperature(null, Units.METRIC), 'n/a');
+    assert.equal(Units.formatWindSpeed(null, Units.METRIC), 'n/a');
+    assert.equal(Units.formatPrecipitation(null, Units.METRIC), 'n/a');
+    assert.equal(Units.formatPercent(null), 'n/a');
+    assert.equal(Units.formatPercent(0), '0%');
+    assert.equal(Units.formatPrecipitation(0, Units.METRIC), '0 mm');
+  });
+});
@@ -0,0 +1,174 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { Providers } from '../src/utils/providers';
+import { RssFeed } from '../src/utils/rssFeed';
+import { MetNorway } from '../src/utils/metNorway';
+import { HttpStatusError, ValidationError } from '../src/utils/errors';
+import { MockUpstreamServer } from '../src/mockServer';
+import PromiseDashboard from '../src/promiseVersion';
+import AsyncAwaitDashboard from '../src/asyncAwaitVersion';
+import { DashboardOptions, GeoLocation, NewsData } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+const place: GeoLocation = { name: 'Oslo', country: 'Norway', lat: 59.91, lon: 10.75 };
+
+const weatherOptions: DashboardOptions = { weatherProviders: ['open-meteo', 'met-norway'] };
+const newsOptions: DashboardOptions = { newsProviders: ['dummyjson', 'rss'], newsLimit: 2 };
+
+describe('Providers', () => {
+  let server: MockUpstreamServer;
+  /** Requests the fixture backed providers received */
+  const requests = { rss: 0, metNorway: 0 };
+
+  before(async () => {
+    server = await TestUpstream.start();
+    const rss = TestUpstream.fixture('feed.rss');
+    const forecast = TestUpstream.fixture('metNorway.json');
+
+    const rssUrl = await TestUpstream.stub((_req, res) => {
+      requests.rss++;
+      res.setHeader('Content-Type', 'application/rss+xml');
+      res.end(rss);
+    });
+    const metNorwayUrl = await TestUpstream.stub((_req, res) => {
+      requests.metNorway++;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(forecast);
+    });
+    const brokenUrl = await TestUpstream.stub((_req, res) => {
+      res.setHeader('Content-Type', 'text/html');
+      res.end('<html>Maintenance</html>');
+    });
+
+    Providers.registerNews(new RssFeed('rss', rssUrl));
+    Providers.registerNews(new RssFeed('broken', brokenUrl));
+    MetNorway.setBaseUrl(metNorwayUrl);
+  });
+
+  after(() => TestUpstream.stop());
+
+  beforeEach(() => {
+    TestUpstream.reset();
+    requests.rss = 0;
+    requests.metNorway = 0;
+  });
+
+  describe('failover', () => {
+    it('answers from the primary while it works', async () => {
+      const weather = await Providers.fetchWeatherPromise(place, weatherOptions);
+      const news = await Providers.fetchNewsPromise(newsOptions);
+
+      assert.equal(weather.source, 'open-meteo');
+      assert.equal(news.source, 'dummyjson');
+      assert.deepEqual(requests, { rss: 0, metNorway: 0 });
+    });
+
+    it('asks the next weather provider once the primary has failed', async () => {
+      server.configure({ errorRate: 1 }, 'forecast');
+
+      const weather = await Providers.fetchWeatherPromise(place, weatherOptions);
+
+      assert.equal(weather.source, 'met-norway');
+      assert.equal(weather.current.temperature, 5.2);
+      assert.equal(server.stats().requests.forecast, TestUpstream.RETRIES + 1);
+      assert.equal(requests.metNorway, 1);
+    });
+
+    it('fails over on invalid responses too', async () => {
+      server.configure({ malformedRate: 1 }, 'posts');
+
+      const news = await Providers.fetchNewsPromise(newsOptions);
+
+      assert.equal(news.source, 'rss');
+      assert.equal(news.posts[0]?.title, 'Rain & wind expected over the weekend');
+      assert.equal(server.stats().requests.posts, 1);
+    });
+
+    it("reports the primary's error when every provider fails", async () => {
+      server.configure({ errorRate: 1 }, 'posts');
+
+      await assert.rejects(
+        Providers.fetchNewsPromise({ ...newsOptions, newsProviders: ['dummyjson', 'broken'] }),
+        (error: unknown) => {
+          assert.ok(error instanceof HttpStatusError);
+          assert.equal(error.status, 500);
+          return true;
+        }
+      );
+    });
+
+    it('does not fail over a cancelled fetch', async () => {
+      server.configure({ latency: { type: 'fixed', ms: 200 } }, 'posts');
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      await assert.rejects(
+        Providers.fetchNewsPromise({ ...newsOptions, signal: controller.signal }),
+        { name: 'AbortError' }
+      );
+      assert.equal(requests.rss, 0);
+    });
+
+    it('rejects provider ids that are not registered', async () => {
+      await assert.rejects(
+        Providers.fetchNewsPromise({ newsProviders: ['dummyjson', 'nope'] }),
+        /Unknown news provider: nope \(available: dummyjson, rss, broken\)/
+      );
+      assert.throws(() => Providers.configure({ weather: ['nope'] }), /Unknown weather provider/);
+    });
+  });
+
+  describe('newsPages', () => {
+    const walk = async (options: DashboardOptions): Promise<NewsData[]> => {
+      const pages: NewsData[] = [];
+      for await (const page of Providers.newsPages(options)) {
+        pages.push(page);
+      }
+      return pages;
+    };
+
+    it('stays with the provider that answered the first page', async () => {
+      server.configure({ errorRate: 1 }, 'posts');
+
+      const pages = await walk(newsOptions);
+
+      assert.deepEqual(
+        pages.map((page) => [page.source, page.skip, page.posts.length]),
+        [
+          ['rss', 0, 2],
+          ['rss', 2, 1],
+        ]
+      );
+      // Only the first page tried the primary
+      assert.equal(server.stats().requests.posts, TestUpstream.RETRIES + 1);
+    });
+
+    it('fails rather than continue from another provider', async () => {
+      const pages = Providers.newsPages(newsOptions);
+      const first = await pages.next();
+      server.configure({ errorRate: 1 }, 'posts');
+
+      assert.equal(first.value?.source, 'dummyjson');
+      await assert.rejects(pages.next(), HttpStatusError);
+      assert.equal(requests.rss, 0);
+    });
+  });
+
+  describe('dashboards', () => {
+    for (const [name, dashboard] of Object.entries({
+      promise: PromiseDashboard,
+      async: AsyncAwaitDashboard,
+    })) {
+      it(`${name} fetchNews names the provider of an empty result`, async () => {
+        await assert.rejects(
+          dashboard.fetchNews({ newsProviders: ['rss'], newsTag: 'nothing' }),
+          (error: unknown) => {
+            assert.ok(error instanceof ValidationError);
+            assert.equal(error.source, 'rss posts');
+            return true;
+          }
+        );
+      });
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { after, before, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { RateLimiter } from '../src/utils/rateLimiter';
+import { HttpClient } from '../src/utils/httpClient';
+import { AbortError } from '../src/utils/errors';
+import { MockUpstreamServer } from '../src/mockServer';
+import { RateLimit } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+/**
+ * Wait for a slot, resolving with its release function
+ */
+const acquire = (hostname: string, signal?: AbortSignal): Promise<() => void> =>
+  new Promise((resolve, reject) =>
+    RateLimiter.acquire(hostname, signal, (error, release) =>
+      error || !release ? reject(error ?? new Error('No slot')) : resolve(release)
+    )
+  );
+
+/**
+ * A host name of its own for every test, so buckets do not carry over
+ */
+let hosts = 0;
+const host = (limit: RateLimit): string => {
+  const hostname = `limited-${++hosts}.test`;
+  RateLimiter.configure({ hosts: { [hostname]: limit } });
+  return hostname;
+};
+
+describe('RateLimiter', () => {
+  before(() => RateLimiter.configure({ enabled: true }));
+
+  after(() => RateLimiter.configure({ enabled: false }));
+
+  it('applies host limits over the defaults', () => {
+    const hostname = host({ requestsPerSecond: 1 });
+
+    assert.deepEqual(RateLimiter.limitFor(hostname), {
+      requestsPerSecond: 1,
+      burst: 5,
+      maxConcurrent: 4,
+    });
+  });
+
+  it('lets a burst through at once and spaces out the rest', async () => {
+    const hostname = host({ requestsPerSecond: 10, burst: 2, maxConcurrent: 10 });
+    const startedAt = Date.now();
+    const granted: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map(() =>
+        acquire(hostname).then((release) => {
+          granted.push(Date.now() - startedAt);
+          release();
+        })
+      )
+    );
+
+    assert.ok((granted[1] ?? Infinity) < 50);
+    assert.ok((granted[2] ?? 0) >= 90);
+  });
+
+  it('queues requests over the concurrency cap until a slot is released', async () => {
+    const hostname = host({ requestsPerSecond: 100, burst: 10, maxConcurrent: 1 });
+    const order: string[] = [];
+
+    const first = await acquire(hostname);
+    const second = acquire(hostname).then((release) => {
+      order.push('second');
+      return release;
+    });
+    const third = acquire(hostname).then((release) => {
+      order.push('third');
+      release();
+    });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    assert.deepEqual(order, []);
+    first();
+    first();
+    (await second)();
+    await third;
+    assert.deepEqual(order, ['second', 'third']);
+  });
+
+  it('drops a cancelled request from the queue', async () => {
+    const hostname = host({ requestsPerSecond: 100, burst: 10, maxConcurrent: 1 });
+    const controller = new AbortController();
+
+    const first = await acquire(hostname);
+    const cancelled = acquire(hostname, controller.signal);
+    const next = acquire(hostname);
+    controller.abort();
+
+    await assert.rejects(cancelled, AbortError);
+    first();
+    (await next)();
+  });
+
+  it('grants every request at once while disabled', async () => {
+    const hostname = host({ requestsPerSecond: 1, burst: 1, maxConcurrent: 1 });
+    RateLimiter.configure({ enabled: false });
+
+    try {
+      await acquire(hostname);
+      await acquire(hostname);
+    } finally {
+      RateLimiter.configure({ enabled: true });
+    }
+  });
+
+  describe('through HttpClient', () => {
+    let server: MockUpstreamServer;
+
+    before(async () => {
+      server = await TestUpstream.start();
+      RateLimiter.configure({ enabled: true, hosts: { '127.0.0.1': { maxConcurrent: 1 } } });
+    });
+
+    after(() => TestUpstream.stop());
+
+    it('sends requests to a host one at a time under a cap of one', async () => {
+      server.configure({ latency: { type: 'fixed', ms: 100 } });
+      const url = `${server.url()}${MockUpstreamServer.PATHS.posts}`;
+      const waitedBefore = RateLimiter.totalWaitTime();
+      const startedAt = Date.now();
+
+      await Promise.all([
+        HttpClient.makeRequestPromise(`${url}?limit=1`),
+        HttpClient.makeRequestPromise(`${url}?limit=2`),
+      ]);
+
+      assert.ok(Date.now() - startedAt >= 200);
+      assert.ok(RateLimiter.totalWaitTime() - waitedBefore >= 90);
+      assert.equal(server.stats().requests.posts, 2);
+    });
+  });
+});
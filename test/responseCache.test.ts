@@ -0,0 +1,175 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpClient } from '../src/utils/httpClient';
+import { ResponseCache } from '../src/utils/responseCache';
+import { MockUpstreamServer } from '../src/mockServer';
+import { CacheOptions } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ResponseCache', () => {
+  let server: MockUpstreamServer;
+  let postsUrl: string;
+  let settings: CacheOptions;
+
+  before(async () => {
+    server = await TestUpstream.start();
+    postsUrl = `${server.url()}${MockUpstreamServer.PATHS.posts}?limit=2`;
+    settings = ResponseCache.options();
+  });
+
+  after(async () => {
+    ResponseCache.configure(settings);
+    ResponseCache.clear();
+    await TestUpstream.stop();
+  });
+
+  beforeEach(() => {
+    TestUpstream.reset();
+    ResponseCache.clear();
+    ResponseCache.configure({
+      enabled: true,
+      defaultTtl: 60 * 1000,
+      staleWhileRevalidate: 60 * 1000,
+      directory: null,
+    });
+  });
+
+  describe('through HttpClient', () => {
+    it('answers repeats from the cache while fresh', async () => {
+      const first = await HttpClient.requestPromise(postsUrl);
+      const second = await HttpClient.requestPromise(postsUrl);
+
+      assert.equal(first.cached, false);
+      assert.equal(second.cached, true);
+      assert.deepEqual(second.data, first.data);
+      assert.equal(server.stats().requests.posts, 1);
+    });
+
+    it('serves a stale entry at once and refreshes it in the background', async () => {
+      ResponseCache.configure({ defaultTtl: 0 });
+      await HttpClient.requestPromise(postsUrl);
+      server.configure({ latency: { type: 'fixed', ms: 100 } });
+      const statsBefore = ResponseCache.stats();
+      const startedAt = Date.now();
+
+      const stale = await HttpClient.requestPromise(postsUrl);
+
+      assert.equal(stale.cached, true);
+      assert.ok(Date.now() - startedAt < 100);
+      assert.equal(ResponseCache.difference(ResponseCache.stats(), statsBefore).stale, 1);
+      await sleep(300);
+      assert.equal(server.stats().requests.posts, 2);
+    });
+
+    it('fetches again once the stale window has passed', async () => {
+      ResponseCache.configure({ defaultTtl: 0, staleWhileRevalidate: 0 });
+
+      await HttpClient.requestPromise(postsUrl);
+      const again = await HttpClient.requestPromise(postsUrl);
+
+      assert.equal(again.cached, false);
+      assert.equal(server.stats().requests.posts, 2);
+    });
+
+    it('shares one request between concurrent callers', async () => {
+      server.configure({ latency: { type: 'fixed', ms: 50 } });
+
+      await Promise.all([HttpClient.requestPromise(postsUrl), HttpClient.requestPromise(postsUrl)]);
+
+      assert.equal(server.stats().requests.posts, 1);
+    });
+
+    it('is skipped for requests that opt out', async () => {
+      await HttpClient.requestPromise(postsUrl);
+      await HttpClient.requestPromise(postsUrl, { cache: false });
+
+      assert.equal(server.stats().requests.posts, 2);
+    });
+  });
+
+  describe('keys', () => {
+    const url = 'http://127.0.0.1:1/items';
+
+    it('keeps methods apart', () => {
+      ResponseCache.store({ method: 'GET', url }, '[]');
+
+      assert.ok(ResponseCache.lookup(ResponseCache.key({ method: 'GET', url })));
+      assert.equal(ResponseCache.lookup(ResponseCache.key({ method: 'HEAD', url })), undefined);
+    });
+
+    it('keeps a variant per value of the headers named by Vary', () => {
+      const english = { method: 'GET', url, headers: { 'Accept-Language': 'en' } };
+      const french = { method: 'GET', url, headers: { 'accept-language': 'fr' } };
+      ResponseCache.store(english, '"hello"', { vary: 'Accept-Language' });
+
+      assert.equal(ResponseCache.lookup(ResponseCache.key(french)), undefined);
+
+      ResponseCache.store(french, '"bonjour"', { vary: 'Accept-Language' });
+
+      assert.equal(ResponseCache.lookup(ResponseCache.key(english))?.entry.body, '"hello"');
+      assert.equal(ResponseCache.lookup(ResponseCache.key(french))?.entry.body, '"bonjour"');
+    });
+
+    it('does not keep Vary: * or no-store responses', () => {
+      ResponseCache.store({ method: 'GET', url }, '[]', { vary: '*' });
+      ResponseCache.store({ method: 'GET', url: `${url}/2` }, '[]', {
+        'cache-control': 'no-store',
+      });
+
+      assert.equal(ResponseCache.lookup(ResponseCache.key({ method: 'GET', url })), undefined);
+      assert.equal(
+        ResponseCache.lookup(ResponseCache.key({ method: 'GET', url: `${url}/2` })),
+        undefined
+      );
+    });
+  });
+
+  describe('disk store', () => {
+    const url = 'http://127.0.0.1:1/disk';
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'));
+      ResponseCache.configure({ directory });
+    });
+
+    after(() => ResponseCache.configure({ directory: null }));
+
+    it('persists entries with their validator and content headers only', async () => {
+      ResponseCache.store({ method: 'GET', url }, '{"a":1}', {
+        'content-type': 'application/json',
+        etag: '"v1"',
+        'set-cookie': ['session=secret'],
+        'x-request-id': 'abc',
+      });
+      await ResponseCache.flush();
+
+      const [file] = fs.readdirSync(directory);
+      const text = fs.readFileSync(path.join(directory, file ?? ''), 'utf8');
+      const entry = JSON.parse(text);
+
+      assert.deepEqual(entry.headers, { 'content-type': 'application/json', etag: '"v1"' });
+      assert.ok(!text.includes('secret'));
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('loads persisted entries after the memory was cleared', async () => {
+      ResponseCache.store({ method: 'GET', url }, '{"a":1}', { etag: '"v1"' });
+      await ResponseCache.flush();
+      ResponseCache.clear();
+
+      assert.equal(ResponseCache.lookup(ResponseCache.key({ method: 'GET', url })), undefined);
+      await ResponseCache.load({ method: 'GET', url });
+
+      const cached = ResponseCache.lookup(ResponseCache.key({ method: 'GET', url }));
+      assert.equal(cached?.entry.body, '{"a":1}');
+      assert.equal(cached?.state, 'fresh');
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { RssFeed } from '../src/utils/rssFeed';
+import { ParseError } from '../src/utils/errors';
+import { TestUpstream } from './testUpstream';
+
+describe('RssFeed', () => {
+  const rss = TestUpstream.fixture('feed.rss');
+  const atom = TestUpstream.fixture('feed.atom');
+
+  describe('parseFeed', () => {
+    it('reads RSS items with entities, CDATA and markup removed', () => {
+      const [weather, museum, undated] = RssFeed.parseFeed(rss);
+
+      assert.equal(weather?.title, 'Rain & wind expected over the weekend');
+      assert.equal(weather?.body, 'Forecasters expect heavy rain.');
+      assert.deepEqual(weather?.tags, ['weather', 'Local & Regional']);
+      assert.equal(weather?.publishedAt, '2024-03-01T08:30:00.000Z');
+      assert.deepEqual(weather?.reactions, { likes: 0, dislikes: 0 });
+      assert.equal(weather?.views, 0);
+
+      assert.equal(museum?.title, 'Museum opens history wing');
+      assert.equal(museum?.body, 'The wing shows “lost” maps — and more.');
+      assert.deepEqual(museum?.tags, ['history']);
+
+      assert.equal(undated?.body, 'No date on this one.');
+      assert.equal(undated?.publishedAt, undefined);
+      assert.deepEqual(undated?.tags, []);
+    });
+
+    it('reads Atom entries with term categories and falls back to the update time', () => {
+      const [tides, updated] = RssFeed.parseFeed(atom);
+
+      assert.equal(tides?.title, 'Tides & currents explained');
+      assert.equal(tides?.body, 'Why the sea rises twice a day.');
+      assert.deepEqual(tides?.tags, ['science', 'sea']);
+      assert.equal(tides?.publishedAt, '2024-03-02T09:15:00.000Z');
+
+      assert.equal(updated?.body, 'Content instead of a summary.');
+      assert.equal(updated?.publishedAt, '2024-03-01T07:00:00.000Z');
+    });
+
+    it('gives each entry a stable id from its guid, id or link', () => {
+      const ids = RssFeed.parseFeed(rss).map((article) => article.id);
+
+      assert.deepEqual(
+        RssFeed.parseFeed(rss).map((article) => article.id),
+        ids
+      );
+      assert.equal(new Set(ids).size, ids.length);
+      assert.ok(ids.every((id) => Number.isInteger(id) && id >= 0));
+    });
+  });
+
+  describe('parse', () => {
+    const feed = new RssFeed('example', 'https://news.example.com/rss');
+
+    it('applies the query to the entries', () => {
+      const news = feed.parse(rss, { newsLimit: 2, newsSkip: 1 });
+
+      assert.equal(news.total, 3);
+      assert.equal(news.skip, 1);
+      assert.deepEqual(
+        news.posts.map((article) => article.title),
+        ['Museum opens history wing', 'Undated announcement']
+      );
+
+      const tagged = feed.parse(rss, { newsTag: 'weather' });
+      assert.deepEqual(
+        tagged.posts.map((article) => article.title),
+        ['Rain & wind expected over the weekend']
+      );
+    });
+
+    it('fails with a ParseError for anything but a feed', () => {
+      assert.throws(() => feed.parse('<html><body>Not a feed</body></html>'), ParseError);
+      assert.throws(() => feed.parse({ posts: [] }), ParseError);
+    });
+  });
+});
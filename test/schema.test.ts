@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { Schema } from '../src/utils/schema';
+import { DummyJson } from '../src/utils/dummyJson';
+import { OpenMeteo } from '../src/utils/openMeteo';
+import { ValidationError } from '../src/utils/errors';
+
+const post = (id: number): Record<string, unknown> => ({
+  id,
+  title: `Post ${id}`,
+  body: 'Body',
+  tags: ['history'],
+  reactions: { likes: 3, dislikes: 1 },
+  views: 10,
+  userId: 7,
+});
+
+/**
+ * The issues a value fails with, as "path: message"
+ */
+const issuesOf = (run: () => unknown): string[] => {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof ValidationError);
+    return error.issues.map((issue) => `${issue.path}: ${issue.message}`);
+  }
+  assert.fail('expected a ValidationError');
+};
+
+describe('Schema', () => {
+  const place = Schema.object({
+    name: Schema.string(),
+    population: Schema.nullable(Schema.number()),
+    capital: Schema.optional(Schema.boolean()),
+    tags: Schema.array(Schema.string()),
+  });
+
+  it('returns valid values with properties outside the shape kept', () => {
+    const value = { name: 'Paris', population: null, tags: ['fr'], extra: 1 };
+
+    assert.deepEqual(Schema.validate(place, value, 'place'), { ...value, capital: undefined });
+  });
+
+  it('reports every mismatch with its path', () => {
+    const issues = issuesOf(() =>
+      Schema.validate(place, { name: 1, capital: 'yes', tags: ['fr', 2] }, 'place')
+    );
+
+    assert.deepEqual(issues, [
+      'name: expected string, got number',
+      'population: expected number, got undefined',
+      'capital: expected boolean, got string',
+      'tags[1]: expected string, got number',
+    ]);
+  });
+
+  it('names the root and rejects non finite numbers', () => {
+    assert.deepEqual(
+      issuesOf(() => Schema.validate(place, [], 'place')),
+      ['(root): expected object, got array']
+    );
+    assert.deepEqual(
+      issuesOf(() => Schema.validate(Schema.number(), Number.NaN, 'count')),
+      ['(root): expected number, got number']
+    );
+  });
+
+  it('names the source and the first issue in the message', () => {
+    assert.throws(
+      () => Schema.validate(place, { name: 'Paris', population: '1', tags: 'fr' }, 'place'),
+      {
+        name: 'ValidationError',
+        message: 'Invalid place: population: expected number, got string (and 1 more)',
+      }
+    );
+  });
+});
+
+describe('DummyJson.parsePosts', () => {
+  const response = { posts: [post(1), post(2)], total: 2, skip: 0, limit: 30 };
+
+  it('accepts a valid posts response', () => {
+    assert.deepEqual(DummyJson.parsePosts(response), response);
+  });
+
+  it('reports each invalid post field', () => {
+    const broken = {
+      ...response,
+      posts: [post(1), { ...post(2), reactions: { likes: '3', dislikes: 1 }, tags: null }],
+    };
+
+    assert.deepEqual(
+      issuesOf(() => DummyJson.parsePosts(broken)),
+      [
+        'posts[1].tags: expected array, got null',
+        'posts[1].reactions.likes: expected number, got string',
+      ]
+    );
+  });
+
+  it('still checks the shape with validation turned off', () => {
+    const broken = { ...response, posts: [post(1), { ...post(2), views: 'many' }] };
+
+    assert.deepEqual(DummyJson.parsePosts(broken, { validate: false }), broken);
+    assert.deepEqual(
+      issuesOf(() => DummyJson.parsePosts({ posts: {}, total: '2' }, { validate: false })),
+      [
+        'posts: expected array, got object',
+        'total: expected number, got string',
+        'skip: expected number, got undefined',
+        'limit: expected number, got undefined',
+      ]
+    );
+    assert.deepEqual(
+      issuesOf(() => DummyJson.parsePosts({ ...response, posts: [null] }, { validate: false })),
+      ['posts[0]: expected object, got null']
+    );
+  });
+});
+
+describe('OpenMeteo.parseForecast', () => {
+  const forecast = {
+    latitude: 48.85,
+    longitude: 2.35,
+    current: { temperature_2m: 12, relative_humidity_2m: 60, wind_speed_10m: 9 },
+  };
+
+  it('still checks the envelope with validation turned off', () => {
+    const loose = {
+      ...forecast,
+      latitude: 'north',
+      current: { temperature_2m: 'warm' },
+      hourly: { time: ['2024-03-01T10:00'], temperature_2m: ['cold'] },
+      daily: { time: ['2024-03-01'] },
+    };
+
+    assert.deepEqual(OpenMeteo.parseForecast(loose, { validate: false }), loose);
+    assert.deepEqual(
+      issuesOf(() => OpenMeteo.parseForecast({ ...forecast, current: null }, { validate: false })),
+      ['current: expected object, got null']
+    );
+    assert.deepEqual(
+      issuesOf(() =>
+        OpenMeteo.parseForecast(
+          { ...forecast, hourly: { time: 'now' }, daily: [] },
+          { validate: false }
+        )
+      ),
+      ['hourly.time: expected array, got string', 'daily: expected object, got array']
+    );
+  });
+});
@@ -0,0 +1,525 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import * as http from 'http';
+import { Socket } from 'net';
+import { DashboardServer } from '../src/server';
+import { MockUpstreamServer } from '../src/mockServer';
+import { CircuitBreaker } from '../src/utils/circuitBreaker';
+import { ApiResponse, DashboardEvent } from '../src/types';
+import { TestUpstream } from './testUpstream';
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: ApiResponse<Record<string, unknown>>;
+}
+
+interface Frame {
+  opcode: number;
+  payload: Buffer;
+}
+
+/**
+ * Resolve with check()'s first defined result, polling until it has one
+ */
+const until = async <T>(
+  check: () => T | undefined | Promise<T | undefined>,
+  timeout = 2000
+): Promise<T> => {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const result = await check();
+    if (result !== undefined) {
+      return result;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Nothing arrived within ${timeout}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+/**
+ * Reads the events of a Server-Sent Events response
+ */
+class EventStream {
+  public readonly events: DashboardEvent[] = [];
+  public ended = false;
+  private text = '';
+
+  constructor(public readonly response: http.IncomingMessage) {
+    response.setEncoding('utf8');
+    response.on('data', (chunk: string) => {
+      this.text += chunk;
+      const blocks = this.text.split('\n\n');
+      this.text = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const data = block.split('\n').find((line) => line.startsWith('data: '));
+        if (data) {
+          this.events.push(JSON.parse(data.slice('data: '.length)) as DashboardEvent);
+        }
+      }
+    });
+    response.on('end', () => (this.ended = true));
+  }
+
+  public static open(port: number, path: string): Promise<EventStream> {
+    return new Promise((resolve, reject) => {
+      const req = http.get({ host: '127.0.0.1', port, path, agent: false }, (response) =>
+        resolve(new EventStream(response))
+      );
+      req.on('error', reject);
+    });
+  }
+
+  public next(type: DashboardEvent['type']): Promise<DashboardEvent> {
+    return until(() => this.events.find((event) => event.type === type));
+  }
+}
+
+/**
+ * A bare WebSocket client: masks what it sends, as clients must, and reads
+ * the server's unmasked frames
+ */
+class WebSocketClient {
+  /** Example key from RFC 6455 section 1.3 */
+  public static readonly KEY = 'dGhlIHNhbXBsZSBub25jZQ==';
+
+  public readonly frames: Frame[] = [];
+  public ended = false;
+  private buffer = Buffer.alloc(0);
+
+  constructor(
+    public readonly socket: Socket,
+    head: Buffer
+  ) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('end', () => (this.ended = true));
+    this.receive(head);
+  }
+
+  /**
+   * Upgrade a request to path, resolving with the client and the handshake
+   * response, or with just the response when the server refuses
+   */
+  public static connect(
+    port: number,
+    path = '/ws',
+    headers: http.OutgoingHttpHeaders = {}
+  ): Promise<{ client?: WebSocketClient; response: http.IncomingMessage }> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({
+        host: '127.0.0.1',
+        port,
+        path,
+        agent: false,
+        headers: {
+          Connection: 'Upgrade',
+          Upgrade: 'websocket',
+          'Sec-WebSocket-Key': WebSocketClient.KEY,
+          'Sec-WebSocket-Version': '13',
+          ...headers,
+        },
+      });
+      req.on('upgrade', (response: http.IncomingMessage, socket: Socket, head: Buffer) =>
+        resolve({ client: new WebSocketClient(socket, head), response })
+      );
+      req.on('response', (response: http.IncomingMessage) => {
+        response.resume();
+        resolve({ response });
+      });
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  public send(opcode: number, payload: Buffer, masked = true): void {
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header.writeUInt8(0x80 | opcode, 0);
+      header.writeUInt8(126, 1);
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header.writeUInt8(0x80 | opcode, 0);
+      header.writeUInt8(127, 1);
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    if (!masked) {
+      this.socket.write(Buffer.concat([header, payload]));
+      return;
+    }
+    header.writeUInt8(header.readUInt8(1) | 0x80, 1);
+    const mask = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+    const body = Buffer.from(payload);
+    for (let index = 0; index < body.length; index++) {
+      body.writeUInt8(body.readUInt8(index) ^ mask.readUInt8(index % 4), index);
+    }
+    this.socket.write(Buffer.concat([header, mask, body]));
+  }
+
+  /**
+   * Send a message as a text frame, padded with spaces to at least `size` bytes
+   */
+  public sendJson(message: unknown, size = 0): void {
+    this.send(0x1, Buffer.from(JSON.stringify(message).padEnd(size, ' '), 'utf8'));
+  }
+
+  public get events(): DashboardEvent[] {
+    return this.frames
+      .filter((frame) => frame.opcode === 0x1)
+      .map((frame) => JSON.parse(frame.payload.toString('utf8')) as DashboardEvent);
+  }
+
+  public next(type: DashboardEvent['type'], after = 0): Promise<DashboardEvent> {
+    return until(() => this.events.slice(after).find((event) => event.type === type));
+  }
+
+  public frame(opcode: number): Promise<Frame> {
+    return until(() => this.frames.find((frame) => frame.opcode === opcode));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      if (this.buffer.length < 2) {
+        return;
+      }
+      let length = this.buffer.readUInt8(1) & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        length = this.buffer.length < 4 ? Infinity : this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        length = this.buffer.length < 10 ? Infinity : Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (this.buffer.length < offset + length) {
+        return;
+      }
+      this.frames.push({
+        opcode: this.buffer.readUInt8(0) & 0x0f,
+        payload: this.buffer.subarray(offset, offset + length),
+      });
+      this.buffer = this.buffer.subarray(offset + length);
+    }
+  }
+}
+
+describe('DashboardServer', () => {
+  let upstream: MockUpstreamServer;
+  let server: DashboardServer;
+  let port: number;
+
+  /**
+   * Send a request to the dashboard server and parse the JSON envelope
+   */
+  const request = (path: string, method = 'GET'): Promise<Reply> =>
+    new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, path, method }, (res) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => (text += chunk));
+        res.on('end', () =>
+          resolve({ status: res.statusCode ?? 0, headers: res.headers, body: JSON.parse(text) })
+        );
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+  before(async () => {
+    upstream = await TestUpstream.start();
+    server = new DashboardServer({ port: 0 });
+    port = (await server.start()).port;
+  });
+
+  after(async () => {
+    await server.stop();
+    await TestUpstream.stop();
+  });
+
+  beforeEach(() => TestUpstream.reset());
+
+  it('reports its health', async () => {
+    const { status, body } = await request('/health');
+
+    assert.equal(status, 200);
+    assert.equal(body.success, true);
+    assert.equal(body.data?.status, 'ok');
+  });
+
+  it('answers /weather, /news and /dashboard in the envelope', async () => {
+    const weather = await request('/weather?city=Paris,France&units=imperial');
+    const news = await request('/news?limit=3&tag=history');
+    const dashboard = await request('/dashboard?city=Tokyo&limit=2');
+
+    assert.equal(weather.status, 200);
+    assert.equal((weather.body.data?.location as { name: string }).name, 'Paris');
+    assert.equal((weather.body.data?.units as { temperature: string }).temperature, 'fahrenheit');
+    assert.equal(news.status, 200);
+    assert.ok((news.body.data?.posts as unknown[]).length <= 3);
+    assert.equal(dashboard.status, 200);
+    assert.ok(dashboard.body.data?.weather);
+    assert.equal((dashboard.body.data?.news as { posts: unknown[] }).posts.length, 2);
+  });
+
+  it('answers 404 for unknown routes and 405 for other methods', async () => {
+    const missing = await request('/nowhere');
+    const post = await request('/weather', 'POST');
+
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.success, false);
+    assert.equal(post.status, 405);
+    assert.equal(post.headers.allow, 'GET');
+  });
+
+  it('answers 400 for invalid query parameters', async () => {
+    for (const path of [
+      '/weather?city=',
+      '/weather?lat=10',
+      '/weather?lat=100&lon=0',
+      '/weather?units=kelvin',
+      '/weather?forecast=30',
+      '/news?limit=0',
+      '/news?skip=1.5',
+      '/news?sort=title',
+      '/news?order=up',
+    ]) {
+      const { status, body } = await request(path);
+      assert.equal(status, 400, path);
+      assert.equal(body.success, false);
+    }
+    assert.equal(upstream.stats().requests.forecast, 0);
+  });
+
+  it('checks the news parameters of /dashboard before looking up the city', async () => {
+    const { status, body } = await request('/dashboard?city=Sydney&limit=500');
+
+    assert.equal(status, 400);
+    assert.match(body.error ?? '', /limit/);
+    assert.equal(upstream.stats().requests.geocoding, 0);
+  });
+
+  it('answers 404 for a city that cannot be found', async () => {
+    const { status, body } = await request('/weather?city=Atlantis');
+
+    assert.equal(status, 404);
+    assert.equal(body.error, 'Location not found: Atlantis');
+  });
+
+  it('answers 502 for upstream errors without the upstream URL', async () => {
+    upstream.configure({ errorRate: 1 }, 'posts');
+
+    const { status, body } = await request('/news');
+
+    assert.equal(status, 502);
+    assert.match(body.error ?? '', /HTTP 500/);
+    assert.ok(!(body.error ?? '').includes(upstream.url()));
+    assert.ok(!(body.error ?? '').includes('/posts'));
+  });
+
+  it('answers 504 when the upstream does not answer in time', async () => {
+    upstream.configure({ timeoutRate: 1 }, 'posts');
+
+    const { status, body } = await request('/news');
+
+    assert.equal(status, 504);
+    assert.ok(!(body.error ?? '').includes(upstream.url()));
+  });
+
+  it('answers 503 with Retry-After while the circuit is open', async () => {
+    CircuitBreaker.configure({ failureThreshold: 1 });
+    upstream.configure({ errorRate: 1 }, 'posts');
+
+    try {
+      // The first failure opens the circuit, so the retry is not sent
+      const { status, headers, body } = await request('/news');
+
+      assert.equal(status, 503);
+      assert.ok(Number(headers['retry-after']) > 0);
+      assert.match(body.error ?? '', /retry in \d+s/);
+      assert.equal(upstream.stats().requests.posts, 1);
+      assert.equal((await request('/health')).body.data?.status, 'degraded');
+    } finally {
+      CircuitBreaker.configure({ failureThreshold: 5 });
+    }
+  });
+});
+
+describe('DashboardServer live updates', () => {
+  let server: DashboardServer;
+  let port: number;
+  let stopped: boolean;
+
+  const liveTopics = (): Promise<number | undefined> =>
+    new Promise((resolve, reject) => {
+      http
+        .get({ host: '127.0.0.1', port, path: '/health', agent: false }, (res) => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => (text += chunk));
+          res.on('end', () => {
+            const body = JSON.parse(text) as ApiResponse<{ liveTopics: number }>;
+            resolve(body.data?.liveTopics);
+          });
+        })
+        .on('error', reject);
+    });
+
+  before(() => TestUpstream.start());
+
+  after(() => TestUpstream.stop());
+
+  beforeEach(async () => {
+    TestUpstream.reset();
+    server = new DashboardServer({ port: 0 });
+    port = (await server.start()).port;
+    stopped = false;
+  });
+
+  afterEach(async () => {
+    if (!stopped) {
+      await server.stop();
+    }
+  });
+
+  const stop = async (): Promise<void> => {
+    stopped = true;
+    await server.stop();
+  };
+
+  describe('/events', () => {
+    it('streams typed events for the requested city', async () => {
+      const stream = await EventStream.open(port, '/events?city=Paris');
+
+      assert.equal(stream.response.statusCode, 200);
+      assert.match(stream.response.headers['content-type'] ?? '', /^text\/event-stream/);
+      const subscribed = await stream.next('subscribed');
+      assert.equal(subscribed.topic, 'weather:paris');
+
+      const weather = await stream.next('weather');
+      assert.ok(weather.type === 'weather');
+      assert.equal(weather.data.location.name, 'Paris');
+      assert.equal(weather.topic, 'weather:paris');
+      stream.response.destroy();
+    });
+
+    it('unsubscribes when the client disconnects', async () => {
+      const stream = await EventStream.open(port, '/events?tag=love');
+      await stream.next('subscribed');
+      assert.equal(await liveTopics(), 1);
+
+      stream.response.destroy();
+      await until(async () => ((await liveTopics()) === 0 ? true : undefined));
+    });
+
+    it('ends the stream when the server stops', async () => {
+      const stream = await EventStream.open(port, '/events');
+      await stream.next('subscribed');
+
+      await stop();
+      assert.equal(await until(() => (stream.ended ? true : undefined)), true);
+    });
+  });
+
+  describe('/ws', () => {
+    it('accepts the opening handshake', async () => {
+      const { client, response } = await WebSocketClient.connect(port);
+
+      assert.ok(client);
+      assert.equal(response.statusCode, 101);
+      assert.equal(response.headers.upgrade, 'websocket');
+      // The accept value RFC 6455 gives for its example key
+      assert.equal(response.headers['sec-websocket-accept'], 's3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+      client.socket.destroy();
+    });
+
+    it('refuses upgrades that are not WebSocket handshakes or not for /ws', async () => {
+      const invalid = await WebSocketClient.connect(port, '/ws', { Upgrade: 'h2c' });
+      const elsewhere = await WebSocketClient.connect(port, '/live');
+
+      assert.equal(invalid.client, undefined);
+      assert.equal(invalid.response.statusCode, 400);
+      assert.equal(elsewhere.response.statusCode, 404);
+    });
+
+    it('pushes typed events for subscriptions until unsubscribed', async () => {
+      const { client } = await WebSocketClient.connect(port);
+      assert.ok(client);
+
+      client.sendJson({ action: 'subscribe', city: 'Paris' });
+      assert.equal((await client.next('subscribed')).topic, 'weather:paris');
+      // Weather events are longer than 125 bytes, so they use a 16-bit length
+      const weather = await client.next('weather');
+      assert.ok(weather.type === 'weather');
+      assert.equal(weather.data.location.name, 'Paris');
+      assert.equal(await liveTopics(), 1);
+
+      const sent = client.events.length;
+      client.sendJson({ action: 'unsubscribe', city: 'Paris' });
+      assert.equal((await client.next('unsubscribed', sent)).topic, 'weather:paris');
+      assert.equal(await liveTopics(), 0);
+      client.socket.destroy();
+    });
+
+    it('reads masked messages with 16 and 64-bit lengths', async () => {
+      const { client } = await WebSocketClient.connect(port);
+      assert.ok(client);
+
+      client.sendJson({ action: 'subscribe', tag: 'love' }, 300);
+      assert.equal((await client.next('subscribed')).topic, 'news:love');
+
+      const sent = client.events.length;
+      client.sendJson({ action: 'subscribe', tag: 'history' }, 70000);
+      assert.equal((await client.next('subscribed', sent)).topic, 'news:history');
+      client.socket.destroy();
+    });
+
+    it('reports invalid messages as error events', async () => {
+      const { client } = await WebSocketClient.connect(port);
+      assert.ok(client);
+
+      client.sendJson({ action: 'subscribe', city: 'Paris', tag: 'love' });
+      const error = await client.next('error');
+      assert.ok(error.type === 'error');
+      assert.match(error.error, /Exactly one of city or tag/);
+      client.socket.destroy();
+    });
+
+    it('answers pings and closes on a close frame', async () => {
+      const { client } = await WebSocketClient.connect(port);
+      assert.ok(client);
+
+      client.send(0x9, Buffer.from('are you there'));
+      assert.equal((await client.frame(0xa)).payload.toString(), 'are you there');
+
+      client.send(0x8, Buffer.alloc(0));
+      assert.equal((await client.frame(0x8)).payload.readUInt16BE(0), 1000);
+      assert.equal(await until(() => (client.ended ? true : undefined)), true);
+    });
+
+    it('closes with 1002 when a client frame is not masked', async () => {
+      const { client } = await WebSocketClient.connect(port);
+      assert.ok(client);
+
+      client.send(0x1, Buffer.from('{}'), false);
+      assert.equal((await client.frame(0x8)).payload.readUInt16BE(0), 1002);
+    });
+
+    it('closes connections with 1001 when the server stops', async () => {
+      const { client } = await WebSocketClient.connect(port);
+      assert.ok(client);
+      client.sendJson({ action: 'subscribe', tag: 'love' });
+      await client.next('subscribed');
+
+      await stop();
+      assert.equal((await client.frame(0x8)).payload.readUInt16BE(0), 1001);
+      assert.equal(await until(() => (client.ended ? true : undefined)), true);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Shared setup for the test suite: one MockUpstreamServer per test file,
+ * used as the upstream for every provider, with client state (cache,
+ * circuits, geocoding results, recorder) cleared between tests
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { MockServerOptions, MockUpstreamServer } from '../src/mockServer';
+import { HttpClient } from '../src/utils/httpClient';
+import { HttpRecorder } from '../src/utils/httpRecorder';
+import { ResponseCache } from '../src/utils/responseCache';
+import { CircuitBreaker } from '../src/utils/circuitBreaker';
+import { RateLimiter } from '../src/utils/rateLimiter';
+import { Geocoder } from '../src/utils/geocoder';
+import { Logger } from '../src/utils/logger';
+import { DashboardData } from '../src/types';
+
+export class TestUpstream {
+  /** Retries HttpClient makes by default during the tests */
+  public static readonly RETRIES = 2;
+  /** Per attempt timeout, short enough for injected timeouts to be quick */
+  public static readonly TIMEOUT = 300;
+
+  private static server: MockUpstreamServer | null = null;
+  private static readonly stubs: http.Server[] = [];
+
+  /**
+   * Start the mock server and point the providers at it. Responses are not
+   * cached and requests not rate limited, so every request reaches the
+   * server and its stats count each attempt.
+   */
+  public static async start(options: MockServerOptions = {}): Promise<MockUpstreamServer> {
+    Logger.configure({ level: 'silent' });
+    HttpClient.configure({ timeout: this.TIMEOUT, retries: this.RETRIES, retryDelay: 10 });
+    HttpRecorder.configure({ mode: 'off' });
+    ResponseCache.configure({ enabled: false });
+    RateLimiter.configure({ enabled: false });
+
+    this.server = new MockUpstreamServer({ seed: 1, ...options, port: 0 });
+    await this.server.start();
+    this.server.useAsUpstream();
+    return this.server;
+  }
+
+  public static async stop(): Promise<void> {
+    await this.server?.stop();
+    this.server = null;
+    const stubs = this.stubs.splice(0);
+    await Promise.all(
+      stubs.map((stub) => new Promise((resolve) => stub.close(() => resolve(undefined))))
+    );
+  }
+
+  /**
+   * Start a plain server answering with `handler`, for upstream behaviour the
+   * mock does not have. Resolves with its base URL; stop() closes it.
+   */
+  public static async stub(handler: http.RequestListener): Promise<string> {
+    const stub = http.createServer(handler);
+    await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+    this.stubs.push(stub);
+    return `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Contents of a file in test/fixtures
+   */
+  public static fixture(name: string): string {
+    return fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+  }
+
+  /**
+   * Clear the faults, counters and everything clients remember between tests
+   */
+  public static reset(): void {
+    this.server?.configure({});
+    this.server?.resetStats();
+    CircuitBreaker.reset();
+    Geocoder.clearCache();
+    HttpRecorder.reset();
+  }
+
+  /**
+   * Dashboard data without the fetch timestamps, for comparing results
+   */
+  public static withoutTimestamps(data: DashboardData): DashboardData {
+    return { ...data, weather: { ...data.weather, timestamp: '' } };
+  }
+}
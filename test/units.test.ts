@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { Units } from '../src/utils/units';
+import { DashboardArgs, DashboardArgsError } from '../src/utils/dashboardArgs';
+import { WeatherData } from '../src/types';
+
+describe('Units', () => {
+  describe('isUnitSystem', () => {
+    it('accepts the presets', () => {
+      for (const system of ['metric', 'imperial', 'si']) {
+        assert.ok(Units.isUnitSystem(system));
+      }
+    });
+
+    it('rejects other names, including inherited object keys', () => {
+      for (const value of ['kelvin', '', 'constructor', 'toString', '__proto__']) {
+        assert.equal(Units.isUnitSystem(value), false, value);
+      }
+    });
+  });
+
+  describe('resolve', () => {
+    it('expands presets and fills partial unit sets from metric', () => {
+      assert.deepEqual(Units.resolve('imperial'), {
+        temperature: 'fahrenheit',
+        windSpeed: 'mph',
+        precipitation: 'inch',
+      });
+      assert.deepEqual(Units.resolve({ windSpeed: 'kn' }), { ...Units.METRIC, windSpeed: 'kn' });
+      assert.deepEqual(Units.resolve(), Units.METRIC);
+    });
+
+    it('asks Open-Meteo for Celsius when Kelvin is wanted', () => {
+      const si = Units.resolve('si');
+
+      assert.equal(Units.toRequestParams(si).temperature_unit, 'celsius');
+      assert.equal(Units.toRequestParams(si).wind_speed_unit, 'ms');
+      assert.equal(Units.requestedFromApi(si).temperature, 'celsius');
+    });
+  });
+
+  describe('conversions', () => {
+    it('converts temperatures between all units', () => {
+      assert.equal(Units.convertTemperature(100, 'celsius', 'fahrenheit'), 212);
+      assert.equal(Units.convertTemperature(32, 'fahrenheit', 'celsius'), 0);
+      assert.equal(Units.convertTemperature(0, 'celsius', 'kelvin'), 273.2);
+      assert.equal(Units.convertTemperature(273.15, 'kelvin', 'fahrenheit'), 32);
+      assert.equal(Units.convertTemperature(21.37, 'celsius', 'celsius'), 21.37);
+    });
+
+    it('converts wind speeds through km/h', () => {
+      assert.equal(Units.convertWindSpeed(36, 'kmh', 'ms'), 10);
+      assert.equal(Units.convertWindSpeed(10, 'mph', 'kmh'), 16.1);
+      assert.equal(Units.convertWindSpeed(10, 'kn', 'mph'), 11.5);
+    });
+
+    it('converts precipitation between millimetres and inches', () => {
+      assert.equal(Units.convertPrecipitation(25.4, 'mm', 'inch'), 1);
+      assert.equal(Units.convertPrecipitation(0.5, 'inch', 'mm'), 12.7);
+    });
+
+    it('converts a whole WeatherData and records the new units', () => {
+      const weather: WeatherData = {
+        location: { name: 'Berlin', country: 'Germany', lat: 52.52, lon: 13.41 },
+        current: {
+          temperature: 20,
+          apparentTemperature: 18,
+          humidity: 60,
+          windSpeed: 36,
+          precipitation: 2.54,
+          cloudCover: 40,
+          isDay: true,
+          condition: { code: 0, description: 'Clear sky', icon: '☀️' },
+          description: 'Clear sky',
+        },
+        units: Units.METRIC,
+        timestamp: '',
+      };
+
+      const converted = Units.convertWeather(weather, Units.resolve('imperial'));
+
+      assert.equal(converted.current.temperature, 68);
+      assert.equal(converted.current.apparentTemperature, 64.4);
+      assert.equal(converted.current.windSpeed, 22.4);
+      assert.equal(converted.current.precipitation, 0.1);
+      assert.equal(converted.current.humidity, 60);
+      assert.deepEqual(converted.units, Units.resolve('imperial'));
+      assert.equal(weather.current.temperature, 20);
+    });
+  });
+
+  describe('formatting', () => {
+    it('adds the unit symbols', () => {
+      const imperial = Units.resolve('imperial');
+
+      assert.equal(Units.formatTemperature(68, imperial), '68°F');
+      assert.equal(Units.formatTemperature(290, Units.resolve('si')), '290 K');
+      assert.equal(Units.formatWindSpeed(5, imperial), '5 mph');
+      assert.equal(Units.formatPrecipitation(0.1, imperial), '0.1 in');
+    });
+  });
+});
+
+describe('DashboardArgs', () => {
+  it('reads the location, forecast and units', () => {
+    assert.deepEqual(DashboardArgs.parse(['Paris, France', '--forecast=3', '--units=si']), {
+      location: { city: 'Paris', country: 'France' },
+      forecastDays: 3,
+      units: 'si',
+    });
+    assert.deepEqual(DashboardArgs.parse(['--forecast']), { forecastDays: 7 });
+  });
+
+  it('reports an unknown unit system instead of ignoring it', () => {
+    assert.throws(() => DashboardArgs.parse(['--units=kelvin']), DashboardArgsError);
+    assert.throws(() => DashboardArgs.parse(['--units=constructor']), /Unknown unit system/);
+  });
+
+  it('takes --units and --forecast values as the next argument too', () => {
+    assert.deepEqual(DashboardArgs.parse(['--units', 'imperial', 'Oslo', '--forecast', '10']), {
+      units: 'imperial',
+      location: { city: 'Oslo' },
+      forecastDays: 10,
+    });
+    assert.deepEqual(DashboardArgs.parse(['--forecast', 'Oslo']), {
+      forecastDays: 7,
+      location: { city: 'Oslo' },
+    });
+    assert.throws(() => DashboardArgs.parse(['--units']), /Missing value for --units/);
+    assert.throws(() => DashboardArgs.parse(['--units', '--forecast']), /Missing value/);
+  });
+
+  it('rejects forecasts outside 1 to 16 whole days', () => {
+    for (const arg of [
+      '--forecast=abc',
+      '--forecast=',
+      '--forecast=0',
+      '--forecast=17',
+      '--forecast=2.5',
+    ]) {
+      assert.throws(
+        () => DashboardArgs.parse([arg]),
+        (error: unknown) =>
+          error instanceof DashboardArgsError &&
+          /--forecast must be a whole number/.test(error.message),
+        arg
+      );
+    }
+    assert.throws(() => DashboardArgs.parse(['--forecast', '40']), DashboardArgsError);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'assert';
+import { WeatherConditions } from '../src/utils/weatherConditions';
+
+describe('WeatherConditions', () => {
+  it('describes WMO codes', () => {
+    assert.deepEqual(WeatherConditions.describe(0), {
+      code: 0,
+      description: 'Clear sky',
+      icon: 'clear-day',
+    });
+    assert.deepEqual(WeatherConditions.describe(45), { code: 45, description: 'Fog', icon: 'fog' });
+    assert.deepEqual(WeatherConditions.describe(63), {
+      code: 63,
+      description: 'Moderate rain',
+      icon: 'rain',
+    });
+    assert.deepEqual(WeatherConditions.describe(99), {
+      code: 99,
+      description: 'Thunderstorm with heavy hail',
+      icon: 'thunderstorm-hail',
+    });
+  });
+
+  it('uses night icons when it is not day', () => {
+    assert.equal(WeatherConditions.describe(1, false).icon, 'clear-night');
+    assert.equal(WeatherConditions.describe(2, false).icon, 'partly-cloudy-night');
+    assert.equal(WeatherConditions.describe(81, false).icon, 'showers-night');
+    assert.equal(WeatherConditions.describe(81, true).icon, 'showers-day');
+  });
+
+  it('keeps the day icon at night for conditions without a night variant', () => {
+    assert.deepEqual(WeatherConditions.describe(71, false), {
+      code: 71,
+      description: 'Slight snow fall',
+      icon: 'snow',
+    });
+  });
+
+  it('maps unknown and missing codes to an Unknown condition', () => {
+    assert.deepEqual(WeatherConditions.describe(42), {
+      code: 42,
+      description: 'Unknown',
+      icon: 'unknown',
+    });
+    assert.deepEqual(WeatherConditions.describe(-1, false), {
+      code: -1,
+      description: 'Unknown',
+      icon: 'unknown',
+    });
+    for (const code of [null, undefined]) {
+      assert.deepEqual(WeatherConditions.describe(code), {
+        code: null,
+        description: 'Unknown',
+        icon: 'unknown',
+      });
+    }
+  });
+});